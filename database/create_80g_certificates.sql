@@ -0,0 +1,151 @@
+-- 80G Donation Certificates
+-- Donors can give their PAN when buying a ticket. Certificates under section 80G are issued
+-- per donor (PAN) and financial year (April-March), add up all of the donor's tickets in that
+-- year that are not on an earlier certificate, and are numbered sequentially per financial
+-- year. donation_certificates is the register of issued certificates for the annual filing.
+-- Run this in Supabase SQL Editor after create_ticket_receipts.sql
+
+-- 1. Donor PAN on ticket sales
+ALTER TABLE ticket_sales ADD COLUMN IF NOT EXISTS donor_pan VARCHAR(10);
+
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_donor_pan_check;
+ALTER TABLE ticket_sales ADD CONSTRAINT ticket_sales_donor_pan_check
+    CHECK (donor_pan IS NULL OR donor_pan ~ '^[A-Z]{5}[0-9]{4}[A-Z]$');
+
+CREATE INDEX IF NOT EXISTS idx_ticket_sales_donor_pan ON ticket_sales(donor_pan) WHERE donor_pan IS NOT NULL;
+
+-- 2. Certificate register
+CREATE TABLE IF NOT EXISTS donation_certificates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    financial_year VARCHAR(7) NOT NULL CHECK (financial_year ~ '^[0-9]{4}-[0-9]{2}$'),
+    certificate_number INTEGER NOT NULL,
+    donor_pan VARCHAR(10) NOT NULL,
+    donor_name VARCHAR(255) NOT NULL,
+    donor_contact VARCHAR(20),
+    donor_address TEXT,
+    total_amount DECIMAL(12,2) NOT NULL CHECK (total_amount > 0),
+    donation_count INTEGER NOT NULL,
+    ticket_sale_ids UUID[] NOT NULL,
+    issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    issued_by_email VARCHAR(255),
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(financial_year, certificate_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_certificates_donor_pan ON donation_certificates(donor_pan);
+CREATE INDEX IF NOT EXISTS idx_donation_certificates_ticket_sale_ids ON donation_certificates USING GIN (ticket_sale_ids);
+
+-- 3. Issue a certificate for the donor's uncertified donations of a financial year
+CREATE OR REPLACE FUNCTION issue_80g_certificate(p_donor_pan TEXT, p_financial_year TEXT)
+RETURNS donation_certificates AS $$
+DECLARE
+    v_pan TEXT := UPPER(TRIM(p_donor_pan));
+    v_start DATE;
+    v_end DATE;
+    v_ticket_ids UUID[];
+    v_total DECIMAL(12,2);
+    v_latest ticket_sales%ROWTYPE;
+    v_number INTEGER;
+    v_certificate donation_certificates%ROWTYPE;
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RAISE EXCEPTION 'Only admins and clerks can issue certificates';
+    END IF;
+
+    IF p_financial_year !~ '^[0-9]{4}-[0-9]{2}$' THEN
+        RAISE EXCEPTION 'Financial year must look like 2025-26';
+    END IF;
+
+    v_start := make_date(LEFT(p_financial_year, 4)::INTEGER, 4, 1);
+    v_end := make_date(LEFT(p_financial_year, 4)::INTEGER + 1, 3, 31);
+
+    -- One certificate number sequence per financial year
+    PERFORM pg_advisory_xact_lock(hashtext('80g_certificate_' || p_financial_year));
+
+    SELECT ARRAY_AGG(t.id ORDER BY t.purchase_date, t.lottery_number), SUM(t.amount_paid)
+    INTO v_ticket_ids, v_total
+    FROM ticket_sales t
+    WHERE t.donor_pan = v_pan
+      AND t.purchase_date BETWEEN v_start AND v_end
+      AND NOT EXISTS (
+          SELECT 1 FROM donation_certificates c WHERE t.id = ANY(c.ticket_sale_ids)
+      );
+
+    IF v_ticket_ids IS NULL THEN
+        RAISE EXCEPTION 'No uncertified donations for PAN % in financial year %', v_pan, p_financial_year;
+    END IF;
+
+    -- Name and address as given on the donor's latest ticket
+    SELECT * INTO v_latest
+    FROM ticket_sales
+    WHERE id = ANY(v_ticket_ids)
+    ORDER BY purchase_date DESC, created_at DESC
+    LIMIT 1;
+
+    SELECT COALESCE(MAX(certificate_number), 0) + 1 INTO v_number
+    FROM donation_certificates
+    WHERE financial_year = p_financial_year;
+
+    INSERT INTO donation_certificates (
+        financial_year, certificate_number, donor_pan, donor_name, donor_contact, donor_address,
+        total_amount, donation_count, ticket_sale_ids, issued_by, issued_by_email
+    )
+    VALUES (
+        p_financial_year, v_number, v_pan, v_latest.purchaser_name, v_latest.purchaser_contact, v_latest.purchaser_address,
+        v_total, array_length(v_ticket_ids, 1), v_ticket_ids, auth.uid(), auth.jwt() ->> 'email'
+    )
+    RETURNING * INTO v_certificate;
+
+    RETURN v_certificate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION issue_80g_certificate(TEXT, TEXT) TO authenticated;
+
+-- 4. Audit issued certificates like the other tables
+DROP TRIGGER IF EXISTS audit_donation_certificates ON donation_certificates;
+CREATE TRIGGER audit_donation_certificates AFTER INSERT OR UPDATE OR DELETE ON donation_certificates FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- 5. Access: certificates are only written by issue_80g_certificate
+ALTER TABLE donation_certificates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read donation_certificates" ON donation_certificates;
+CREATE POLICY "Staff can read donation_certificates" ON donation_certificates
+  FOR SELECT USING (current_app_role() IN ('admin', 'clerk'));
+
+-- 6. Tickets on an issued certificate keep their amount, PAN and date, so the register keeps
+-- matching the tickets and a ticket cannot move to another PAN and be certified again
+CREATE OR REPLACE FUNCTION check_certified_ticket_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_certificate donation_certificates%ROWTYPE;
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.amount_paid IS NOT DISTINCT FROM OLD.amount_paid
+       AND NEW.donor_pan IS NOT DISTINCT FROM OLD.donor_pan
+       AND NEW.purchase_date IS NOT DISTINCT FROM OLD.purchase_date THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_certificate
+    FROM donation_certificates
+    WHERE OLD.id = ANY(ticket_sale_ids)
+    LIMIT 1;
+
+    IF v_certificate.id IS NOT NULL THEN
+        RAISE EXCEPTION 'Lottery number % is on certificate 80G/%/%. Its amount, PAN and date cannot be changed and it cannot be deleted.',
+            LPAD(OLD.lottery_number::TEXT, 5, '0'), v_certificate.financial_year, LPAD(v_certificate.certificate_number::TEXT, 4, '0');
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_certified_ticket_change ON ticket_sales;
+CREATE TRIGGER check_certified_ticket_change
+BEFORE UPDATE OF amount_paid, donor_pan, purchase_date OR DELETE ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION check_certified_ticket_change();
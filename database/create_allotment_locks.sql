@@ -0,0 +1,172 @@
+-- Persistent Diary Allotment Locks
+-- Locks are stored on diary_allotments (who, when, why) and enforced by a trigger, so a locked
+-- allotment cannot be changed or deleted from any browser. Paid allotments are locked
+-- automatically. Only admins can unlock, and every unlock needs a written justification
+-- that is kept in allotment_lock_events.
+-- Run this in Supabase SQL Editor after create_user_roles.sql
+
+-- 1. Lock columns
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS is_locked BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS locked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS locked_by_email VARCHAR(255);
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS lock_reason TEXT;
+
+-- 2. Lock / unlock history
+CREATE TABLE IF NOT EXISTS allotment_lock_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    allotment_id UUID NOT NULL REFERENCES diary_allotments(id) ON DELETE CASCADE,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('LOCK', 'UNLOCK')),
+    reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+    performed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    performed_by_email VARCHAR(255),
+    performed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_allotment_lock_events_allotment_id ON allotment_lock_events(allotment_id);
+
+-- 3. Lock every allotment that is already paid (including closed campaigns)
+ALTER TABLE diary_allotments DISABLE TRIGGER assign_diary_allotment_campaign;
+
+WITH newly_locked AS (
+    UPDATE diary_allotments
+    SET is_locked = TRUE,
+        locked_at = NOW(),
+        lock_reason = 'Marked as paid'
+    WHERE status = 'paid' AND NOT is_locked
+    RETURNING id
+)
+INSERT INTO allotment_lock_events (allotment_id, action, reason)
+SELECT id, 'LOCK', 'Marked as paid' FROM newly_locked;
+
+ALTER TABLE diary_allotments ENABLE TRIGGER assign_diary_allotment_campaign;
+
+-- 4. Enforce locks
+CREATE OR REPLACE FUNCTION enforce_allotment_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+    lock_change BOOLEAN := COALESCE(current_setting('app.allotment_lock_change', true), '') = 'on';
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.is_locked THEN
+            RAISE EXCEPTION 'Diary allotment is locked (%). An admin must unlock it first.', OLD.lock_reason
+                USING ERRCODE = 'P0001', HINT = 'allotment_locked';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    -- Lock columns can only be changed through lock_allotment / unlock_allotment
+    IF NOT lock_change AND (
+        NEW.is_locked IS DISTINCT FROM OLD.is_locked
+        OR NEW.locked_by IS DISTINCT FROM OLD.locked_by
+        OR NEW.locked_by_email IS DISTINCT FROM OLD.locked_by_email
+        OR NEW.locked_at IS DISTINCT FROM OLD.locked_at
+        OR NEW.lock_reason IS DISTINCT FROM OLD.lock_reason
+    ) THEN
+        RAISE EXCEPTION 'Use lock_allotment or unlock_allotment to change a lock';
+    END IF;
+
+    IF OLD.is_locked AND NOT lock_change THEN
+        RAISE EXCEPTION 'Diary allotment is locked (%). An admin must unlock it first.', OLD.lock_reason
+            USING ERRCODE = 'P0001', HINT = 'allotment_locked';
+    END IF;
+
+    -- Paid allotments lock themselves
+    IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' AND NOT NEW.is_locked THEN
+        NEW.is_locked := TRUE;
+        NEW.locked_by := auth.uid();
+        NEW.locked_by_email := auth.jwt() ->> 'email';
+        NEW.locked_at := NOW();
+        NEW.lock_reason := 'Marked as paid';
+
+        INSERT INTO allotment_lock_events (allotment_id, action, reason, performed_by, performed_by_email)
+        VALUES (NEW.id, 'LOCK', 'Marked as paid', auth.uid(), auth.jwt() ->> 'email');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_diary_allotment_lock ON diary_allotments;
+CREATE TRIGGER enforce_diary_allotment_lock
+BEFORE UPDATE OR DELETE ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION enforce_allotment_lock();
+
+-- 5. Lock (admins and clerks)
+CREATE OR REPLACE FUNCTION lock_allotment(p_allotment_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RAISE EXCEPTION 'Only admins and clerks can lock allotments';
+    END IF;
+
+    IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'A reason is required to lock an allotment';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM diary_allotments WHERE id = p_allotment_id) THEN
+        RAISE EXCEPTION 'Allotment % not found', p_allotment_id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM diary_allotments WHERE id = p_allotment_id AND is_locked) THEN
+        RAISE EXCEPTION 'Allotment is already locked';
+    END IF;
+
+    PERFORM set_config('app.allotment_lock_change', 'on', true);
+
+    UPDATE diary_allotments
+    SET is_locked = TRUE,
+        locked_by = auth.uid(),
+        locked_by_email = auth.jwt() ->> 'email',
+        locked_at = NOW(),
+        lock_reason = TRIM(p_reason)
+    WHERE id = p_allotment_id;
+
+    PERFORM set_config('app.allotment_lock_change', 'off', true);
+
+    INSERT INTO allotment_lock_events (allotment_id, action, reason, performed_by, performed_by_email)
+    VALUES (p_allotment_id, 'LOCK', TRIM(p_reason), auth.uid(), auth.jwt() ->> 'email');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Unlock (admins only, with justification)
+CREATE OR REPLACE FUNCTION unlock_allotment(p_allotment_id UUID, p_justification TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can unlock allotments';
+    END IF;
+
+    IF p_justification IS NULL OR LENGTH(TRIM(p_justification)) < 10 THEN
+        RAISE EXCEPTION 'Please give a justification of at least 10 characters to unlock';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM diary_allotments WHERE id = p_allotment_id AND is_locked) THEN
+        RAISE EXCEPTION 'Allotment is not locked';
+    END IF;
+
+    PERFORM set_config('app.allotment_lock_change', 'on', true);
+
+    UPDATE diary_allotments
+    SET is_locked = FALSE,
+        locked_by = NULL,
+        locked_by_email = NULL,
+        locked_at = NULL,
+        lock_reason = NULL
+    WHERE id = p_allotment_id;
+
+    PERFORM set_config('app.allotment_lock_change', 'off', true);
+
+    INSERT INTO allotment_lock_events (allotment_id, action, reason, performed_by, performed_by_email)
+    VALUES (p_allotment_id, 'UNLOCK', TRIM(p_justification), auth.uid(), auth.jwt() ->> 'email');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Access
+ALTER TABLE allotment_lock_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by the functions above
+DROP POLICY IF EXISTS "Staff can read allotment_lock_events" ON allotment_lock_events;
+CREATE POLICY "Staff can read allotment_lock_events" ON allotment_lock_events
+  FOR SELECT USING (current_app_role() IN ('admin', 'clerk'));
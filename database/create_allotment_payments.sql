@@ -0,0 +1,177 @@
+-- Allotment Payment Ledger
+-- Issuers pay for a diary in instalments. Every payment (amount, date, mode, receipt number,
+-- received by) is recorded in allotment_payments, diary_allotments.amount_collected is the
+-- sum of those payments, and an allotment becomes paid (and locks) when the payments reach
+-- the diary's expected amount. Setting amount_collected or paid by hand is no longer possible.
+-- Run this in Supabase SQL Editor after create_allotment_status_sync.sql
+
+-- 1. Payments table
+CREATE TABLE IF NOT EXISTS allotment_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    allotment_id UUID NOT NULL REFERENCES diary_allotments(id) ON DELETE RESTRICT,
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    payment_mode VARCHAR(20) NOT NULL DEFAULT 'cash'
+        CHECK (payment_mode IN ('cash', 'upi', 'cheque', 'bank_transfer', 'other')),
+    receipt_number VARCHAR(50),
+    received_by VARCHAR(255) NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_by_email VARCHAR(255) DEFAULT auth.jwt() ->> 'email',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_allotment_payments_allotment_id ON allotment_payments(allotment_id);
+CREATE INDEX IF NOT EXISTS idx_allotment_payments_campaign_id ON allotment_payments(campaign_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_allotment_payments_receipt_number
+    ON allotment_payments(campaign_id, receipt_number) WHERE receipt_number IS NOT NULL;
+
+-- 2. Existing collections become one opening payment per allotment
+INSERT INTO allotment_payments (allotment_id, campaign_id, amount, payment_date, payment_mode, received_by, notes, created_by, created_by_email)
+SELECT da.id, da.campaign_id, da.amount_collected, COALESCE(da.updated_at::DATE, CURRENT_DATE), 'other', 'Office',
+       'Opening balance, collected before the payment ledger', NULL, NULL
+FROM diary_allotments da
+WHERE da.amount_collected > 0
+  AND NOT EXISTS (SELECT 1 FROM allotment_payments p WHERE p.allotment_id = da.id);
+
+-- 3. Payments follow their allotment: same campaign, and no changes while it is locked or closed
+CREATE OR REPLACE FUNCTION check_allotment_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_allotment_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.allotment_id ELSE NEW.allotment_id END;
+    v_allotment diary_allotments%ROWTYPE;
+BEGIN
+    SELECT * INTO v_allotment FROM diary_allotments WHERE id = v_allotment_id;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = v_allotment.campaign_id AND is_active) THEN
+        RAISE EXCEPTION 'Campaign % is closed and read-only', v_allotment.campaign_id;
+    END IF;
+
+    IF v_allotment.is_locked THEN
+        RAISE EXCEPTION 'Diary allotment is locked (%). An admin must unlock it first.', v_allotment.lock_reason
+            USING ERRCODE = 'P0001', HINT = 'allotment_locked';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.allotment_id IS DISTINCT FROM OLD.allotment_id THEN
+        RAISE EXCEPTION 'A payment cannot be moved to another allotment';
+    END IF;
+
+    NEW.campaign_id := v_allotment.campaign_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_allotment_payment ON allotment_payments;
+CREATE TRIGGER check_allotment_payment
+BEFORE INSERT OR UPDATE OR DELETE ON allotment_payments
+FOR EACH ROW
+EXECUTE FUNCTION check_allotment_payment();
+
+-- 4. amount_collected is the sum of the payments; the allotment is paid once it covers the diary
+CREATE OR REPLACE FUNCTION sync_allotment_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_allotment_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.allotment_id ELSE NEW.allotment_id END;
+    v_collected DECIMAL(10,2);
+    v_expected DECIMAL(10,2);
+    v_total INTEGER;
+    v_diary_id UUID;
+BEGIN
+    SELECT COALESCE(SUM(amount), 0) INTO v_collected FROM allotment_payments WHERE allotment_id = v_allotment_id;
+
+    SELECT d.id, d.expected_amount, d.total_tickets INTO v_diary_id, v_expected, v_total
+    FROM diary_allotments da
+    JOIN diaries d ON d.id = da.diary_id
+    WHERE da.id = v_allotment_id;
+
+    PERFORM set_config('app.allotment_payment_sync', 'on', true);
+
+    -- A paid allotment whose payments were corrected below the expected amount goes back to
+    -- allotted / fully_sold, whichever matches the tickets entered
+    UPDATE diary_allotments
+    SET amount_collected = v_collected,
+        status = CASE
+            WHEN v_collected >= v_expected AND status IN ('allotted', 'fully_sold') THEN 'paid'::diary_status
+            WHEN v_collected < v_expected AND status = 'paid' THEN
+                CASE WHEN diary_tickets_sold(v_diary_id) >= v_total THEN 'fully_sold'::diary_status ELSE 'allotted'::diary_status END
+            ELSE status
+        END
+    WHERE id = v_allotment_id;
+
+    PERFORM set_config('app.allotment_payment_sync', 'off', true);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_allotment_payments ON allotment_payments;
+CREATE TRIGGER sync_allotment_payments
+AFTER INSERT OR UPDATE OR DELETE ON allotment_payments
+FOR EACH ROW
+EXECUTE FUNCTION sync_allotment_payments();
+
+-- 5. Reject manual changes to amount_collected, and paid without enough payments
+CREATE OR REPLACE FUNCTION check_allotment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_expected DECIMAL(10,2);
+BEGIN
+    IF COALESCE(current_setting('app.allotment_payment_sync', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.amount_collected IS DISTINCT FROM OLD.amount_collected THEN
+        RAISE EXCEPTION 'The amount collected is the sum of the recorded payments. Record a payment instead.';
+    END IF;
+
+    IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+        SELECT expected_amount INTO v_expected FROM diaries WHERE id = NEW.diary_id;
+        IF NEW.amount_collected < v_expected THEN
+            RAISE EXCEPTION 'Only ₹% of ₹% is paid. The diary becomes paid automatically when its payments reach the expected amount.',
+                NEW.amount_collected, v_expected;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_diary_allotment_amount ON diary_allotments;
+CREATE TRIGGER check_diary_allotment_amount
+BEFORE UPDATE OF amount_collected, status ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION check_allotment_amount();
+
+-- 6. Audit payments like the other tables
+DROP TRIGGER IF EXISTS audit_allotment_payments ON allotment_payments;
+CREATE TRIGGER audit_allotment_payments AFTER INSERT OR UPDATE OR DELETE ON allotment_payments FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- 7. Access: staff record payments, admins correct them, issuers see their own
+ALTER TABLE allotment_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read allotment_payments" ON allotment_payments;
+CREATE POLICY "Staff can read allotment_payments" ON allotment_payments
+  FOR SELECT USING (
+    current_app_role() IN ('admin', 'clerk')
+    OR (current_app_role() = 'issuer' AND EXISTS (
+      SELECT 1 FROM diary_allotments da
+      WHERE da.id = allotment_payments.allotment_id AND da.issuer_id = current_issuer_id()
+    ))
+  );
+
+DROP POLICY IF EXISTS "Clerks can add allotment_payments" ON allotment_payments;
+CREATE POLICY "Clerks can add allotment_payments" ON allotment_payments
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Admins can edit allotment_payments" ON allotment_payments;
+CREATE POLICY "Admins can edit allotment_payments" ON allotment_payments
+  FOR UPDATE USING (current_app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete allotment_payments" ON allotment_payments;
+CREATE POLICY "Admins can delete allotment_payments" ON allotment_payments
+  FOR DELETE USING (current_app_role() = 'admin');
@@ -0,0 +1,123 @@
+-- Allotment Status from Ticket Sales
+-- An allotment's status used to be set by hand and could say fully_sold while only part of
+-- the diary was entered. The number of tickets sold per diary is now counted from
+-- ticket_sales: allotments move to fully_sold when the last ticket of the diary is entered
+-- (and back to allotted when a ticket is removed), and manual changes that contradict the
+-- count are rejected.
+-- Run this in Supabase SQL Editor after create_issuer_archive.sql
+
+-- 1. Tickets sold per diary
+CREATE OR REPLACE VIEW diary_ticket_counts
+WITH (security_invoker = true) AS
+SELECT campaign_id, diary_id, COUNT(*)::INTEGER AS tickets_sold
+FROM ticket_sales
+WHERE diary_id IS NOT NULL
+GROUP BY campaign_id, diary_id;
+
+CREATE OR REPLACE FUNCTION diary_tickets_sold(p_diary_id UUID)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER FROM ticket_sales WHERE diary_id = p_diary_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2. Keep the allotment status in step with the sales
+-- Only allotted <-> fully_sold is automatic; paid and returned are decisions of the office,
+-- and locked allotments are left alone.
+CREATE OR REPLACE FUNCTION sync_allotment_status(p_diary_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_total INTEGER;
+    v_sold INTEGER;
+BEGIN
+    IF p_diary_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT total_tickets INTO v_total FROM diaries WHERE id = p_diary_id;
+    v_sold := diary_tickets_sold(p_diary_id);
+
+    UPDATE diary_allotments
+    SET status = CASE WHEN v_sold >= v_total THEN 'fully_sold'::diary_status ELSE 'allotted'::diary_status END
+    WHERE diary_id = p_diary_id
+      AND NOT is_locked
+      AND (
+          (status = 'allotted' AND v_sold >= v_total)
+          OR (status = 'fully_sold' AND v_sold < v_total)
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_allotment_status_from_sales()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM sync_allotment_status(OLD.diary_id);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.diary_id IS DISTINCT FROM OLD.diary_id THEN
+        PERFORM sync_allotment_status(NEW.diary_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_allotment_status_from_sales ON ticket_sales;
+CREATE TRIGGER sync_allotment_status_from_sales
+AFTER INSERT OR UPDATE OF diary_id OR DELETE ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION sync_allotment_status_from_sales();
+
+-- 3. Reject manual status changes that contradict the sales
+CREATE OR REPLACE FUNCTION check_allotment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_total INTEGER;
+    v_sold INTEGER;
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.diary_id IS NOT DISTINCT FROM OLD.diary_id THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT total_tickets INTO v_total FROM diaries WHERE id = NEW.diary_id;
+    v_sold := diary_tickets_sold(NEW.diary_id);
+
+    -- Allotting a diary whose tickets were all entered beforehand
+    IF TG_OP = 'INSERT' AND NEW.status = 'allotted' AND v_sold >= v_total THEN
+        NEW.status := 'fully_sold';
+    END IF;
+
+    IF NEW.status = 'fully_sold' AND v_sold < v_total THEN
+        RAISE EXCEPTION 'Only % of % tickets of this diary are entered. It becomes fully sold automatically when all tickets are entered.', v_sold, v_total;
+    END IF;
+
+    IF NEW.status = 'allotted' AND v_sold >= v_total THEN
+        RAISE EXCEPTION 'All % tickets of this diary are sold, so it cannot be set back to allotted.', v_total;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_diary_allotment_status ON diary_allotments;
+CREATE TRIGGER check_diary_allotment_status
+BEFORE INSERT OR UPDATE OF status, diary_id ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION check_allotment_status();
+
+-- 4. Fix allotments whose status already contradicts the sales (including closed campaigns)
+ALTER TABLE diary_allotments DISABLE TRIGGER assign_diary_allotment_campaign;
+
+UPDATE diary_allotments da
+SET status = CASE WHEN counts.tickets_sold >= d.total_tickets THEN 'fully_sold'::diary_status ELSE 'allotted'::diary_status END
+FROM diaries d
+LEFT JOIN diary_ticket_counts counts ON counts.diary_id = d.id
+WHERE d.id = da.diary_id
+  AND NOT da.is_locked
+  AND (
+      (da.status = 'allotted' AND COALESCE(counts.tickets_sold, 0) >= d.total_tickets)
+      OR (da.status = 'fully_sold' AND COALESCE(counts.tickets_sold, 0) < d.total_tickets)
+  );
+
+ALTER TABLE diary_allotments ENABLE TRIGGER assign_diary_allotment_campaign;
+
+-- 5. Access
+GRANT SELECT ON diary_ticket_counts TO authenticated;
+GRANT EXECUTE ON FUNCTION diary_tickets_sold(UUID) TO authenticated;
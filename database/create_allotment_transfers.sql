@@ -0,0 +1,164 @@
+-- Allotment History and Transfers
+-- diary_allotments had UNIQUE(diary_id, issuer_id): a diary could be allotted to two issuers at
+-- once, yet not allotted back to an issuer who had it before. A diary now has at most one
+-- active (not returned) allotment, earlier allotments stay as its history, and transfer_diary
+-- hands a diary from one issuer to another by returning the old allotment and opening a new
+-- one that points back at it.
+-- Run this in Supabase SQL Editor after create_diary_returns.sql
+
+-- 1. Stop here if a diary is already active with more than one issuer
+DO $$
+DECLARE
+    v_diaries TEXT;
+BEGIN
+    SELECT STRING_AGG(DISTINCT d.diary_number::TEXT, ', ') INTO v_diaries
+    FROM diary_allotments da
+    JOIN diaries d ON d.id = da.diary_id
+    WHERE da.status <> 'returned'
+      AND EXISTS (
+          SELECT 1 FROM diary_allotments other
+          WHERE other.diary_id = da.diary_id AND other.id <> da.id AND other.status <> 'returned'
+      );
+
+    IF v_diaries IS NOT NULL THEN
+        RAISE EXCEPTION 'These diaries are allotted to more than one issuer: %. Return or delete the extra allotments, then run this script again.', v_diaries;
+    END IF;
+END $$;
+
+-- 2. One active allotment per diary, any number of earlier ones
+ALTER TABLE diary_allotments DROP CONSTRAINT IF EXISTS diary_allotments_diary_id_issuer_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_diary_allotments_one_active
+    ON diary_allotments(diary_id) WHERE status <> 'returned';
+
+-- 3. Transfers point back at the allotment they replaced
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS transferred_from UUID REFERENCES diary_allotments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_diary_allotments_diary_id ON diary_allotments(diary_id);
+
+-- 4. Reassigning an allotment that already has sales or payments would rewrite its history
+CREATE OR REPLACE FUNCTION check_allotment_reassignment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.issuer_id IS NOT DISTINCT FROM OLD.issuer_id AND NEW.diary_id IS NOT DISTINCT FROM OLD.diary_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM allotment_payments WHERE allotment_id = OLD.id)
+       OR EXISTS (SELECT 1 FROM ticket_sales WHERE diary_id = OLD.diary_id AND issuer_id = OLD.issuer_id)
+       OR OLD.status = 'returned' THEN
+        RAISE EXCEPTION 'Tickets or payments are already recorded for this allotment. Use Transfer to hand the diary to another issuer.';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_diary_allotment_reassignment ON diary_allotments;
+CREATE TRIGGER check_diary_allotment_reassignment
+BEFORE UPDATE OF issuer_id, diary_id ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION check_allotment_reassignment();
+
+-- 5. Transfer a diary to another issuer (admins and clerks)
+-- The current issuer returns the diary (and owes for the tickets sold so far); the new issuer
+-- gets a fresh allotment for the unsold tickets.
+CREATE OR REPLACE FUNCTION transfer_diary(p_allotment_id UUID, p_to_issuer_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS diary_allotments AS $$
+DECLARE
+    v_allotment diary_allotments%ROWTYPE;
+    v_to_issuer issuers%ROWTYPE;
+    v_from_name TEXT;
+    v_new diary_allotments%ROWTYPE;
+BEGIN
+    SELECT * INTO v_allotment FROM diary_allotments WHERE id = p_allotment_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Allotment % not found', p_allotment_id;
+    END IF;
+
+    SELECT * INTO v_to_issuer FROM issuers WHERE id = p_to_issuer_id;
+
+    IF NOT FOUND OR v_to_issuer.is_archived THEN
+        RAISE EXCEPTION 'Choose an active issuer to transfer the diary to';
+    END IF;
+
+    IF v_to_issuer.id = v_allotment.issuer_id THEN
+        RAISE EXCEPTION 'The diary is already allotted to %', v_to_issuer.issuer_name;
+    END IF;
+
+    SELECT issuer_name INTO v_from_name FROM issuers WHERE id = v_allotment.issuer_id;
+
+    -- Checks the role, the status and the lock of the current allotment
+    PERFORM return_diary(
+        p_allotment_id,
+        'Transferred to ' || v_to_issuer.issuer_name || COALESCE('. ' || NULLIF(TRIM(p_notes), ''), '')
+    );
+
+    INSERT INTO diary_allotments (diary_id, issuer_id, campaign_id, allotment_date, status, amount_collected, notes, transferred_from)
+    VALUES (
+        v_allotment.diary_id, v_to_issuer.id, v_allotment.campaign_id, CURRENT_DATE, 'allotted', 0,
+        'Transferred from ' || v_from_name || COALESCE('. ' || NULLIF(TRIM(p_notes), ''), ''),
+        v_allotment.id
+    )
+    RETURNING * INTO v_new;
+
+    RETURN v_new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. A return that was part of a transfer can only be undone once the new allotment is gone
+CREATE OR REPLACE FUNCTION undo_diary_return(p_allotment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_return diary_returns%ROWTYPE;
+    v_allotment diary_allotments%ROWTYPE;
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can undo a diary return';
+    END IF;
+
+    SELECT * INTO v_allotment FROM diary_allotments WHERE id = p_allotment_id FOR UPDATE;
+    SELECT * INTO v_return FROM diary_returns WHERE allotment_id = p_allotment_id;
+
+    IF NOT FOUND OR v_allotment.status IS DISTINCT FROM 'returned' THEN
+        RAISE EXCEPTION 'This allotment has not been returned';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM diary_allotments
+        WHERE diary_id = v_allotment.diary_id AND id <> v_allotment.id
+          AND (created_at > v_return.returned_at OR transferred_from = v_allotment.id)
+    ) THEN
+        RAISE EXCEPTION 'The diary has been allotted again since it was returned, so the return cannot be undone';
+    END IF;
+
+    DELETE FROM diary_returns WHERE id = v_return.id;
+
+    PERFORM set_config('app.diary_return', 'on', true);
+
+    -- check_allotment_status corrects allotted to fully_sold when every ticket is entered
+    UPDATE diary_allotments
+    SET status = CASE WHEN diary_tickets_sold(diary_id) >= (SELECT total_tickets FROM diaries WHERE id = diary_id)
+                      THEN 'fully_sold'::diary_status ELSE 'allotted'::diary_status END,
+        expected_amount = (
+            SELECT CASE WHEN prev.unsold IS NULL THEN NULL
+                        ELSE ROUND(d.expected_amount * prev.unsold / NULLIF(d.total_tickets, 0), 2) END
+            FROM diaries d
+            LEFT JOIN LATERAL (
+                SELECT cardinality(r.unsold_lottery_numbers) AS unsold
+                FROM diary_returns r
+                -- A transferred allotment is created in the same transaction as the return before it
+                WHERE r.diary_id = d.id AND r.returned_at <= v_allotment.created_at
+                ORDER BY r.returned_at DESC
+                LIMIT 1
+            ) prev ON TRUE
+            WHERE d.id = v_allotment.diary_id
+        )
+    WHERE id = v_allotment.id;
+
+    PERFORM set_config('app.diary_return', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION transfer_diary(UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,55 @@
+-- Audit Log: Application Users
+-- audit_trigger_function recorded current_user, which is always the Postgres role used by the
+-- API. It now records the logged-in Supabase user (id and email), and winners, prizes,
+-- campaigns and user roles are audited as well.
+-- Run this in Supabase SQL Editor after create_presenter_state.sql
+
+-- 1. Who made the change
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS user_email VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
+
+-- 2. Audit function
+-- SECURITY DEFINER so the trigger can always write, while nobody can insert audit rows directly.
+-- Changes made outside the app (SQL Editor) have no auth user and keep the database role.
+CREATE OR REPLACE FUNCTION audit_trigger_function()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+    -- user_roles is keyed by user_id instead of id
+    v_record_id UUID := COALESCE(v_row ->> 'id', v_row ->> 'user_id')::UUID;
+    v_user_id VARCHAR(255) := COALESCE(auth.uid()::TEXT, current_user);
+    v_user_email VARCHAR(255) := auth.jwt() ->> 'email';
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO audit_logs (table_name, record_id, action, new_values, user_id, user_email)
+        VALUES (TG_TABLE_NAME, v_record_id, 'INSERT', to_jsonb(NEW), v_user_id, v_user_email);
+        RETURN NEW;
+    ELSIF TG_OP = 'UPDATE' THEN
+        INSERT INTO audit_logs (table_name, record_id, action, old_values, new_values, user_id, user_email)
+        VALUES (TG_TABLE_NAME, v_record_id, 'UPDATE', to_jsonb(OLD), to_jsonb(NEW), v_user_id, v_user_email);
+        RETURN NEW;
+    ELSIF TG_OP = 'DELETE' THEN
+        INSERT INTO audit_logs (table_name, record_id, action, old_values, user_id, user_email)
+        VALUES (TG_TABLE_NAME, v_record_id, 'DELETE', to_jsonb(OLD), v_user_id, v_user_email);
+        RETURN OLD;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. Audit the remaining tables
+DROP TRIGGER IF EXISTS audit_lottery_winners ON lottery_winners;
+CREATE TRIGGER audit_lottery_winners AFTER INSERT OR UPDATE OR DELETE ON lottery_winners FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_prize_categories ON prize_categories;
+CREATE TRIGGER audit_prize_categories AFTER INSERT OR UPDATE OR DELETE ON prize_categories FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_campaigns ON campaigns;
+CREATE TRIGGER audit_campaigns AFTER INSERT OR UPDATE OR DELETE ON campaigns FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_user_roles ON user_roles;
+CREATE TRIGGER audit_user_roles AFTER INSERT OR UPDATE OR DELETE ON user_roles FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- 4. Audit rows are only written by the trigger
+DROP POLICY IF EXISTS "Clerks can write audit_logs" ON audit_logs;
@@ -0,0 +1,195 @@
+-- Campaign Data Isolation
+-- Every ticket sale, allotment and winner belongs to a campaign so that each year's draw
+-- is kept apart. Only the active campaign accepts changes; past campaigns are read-only.
+-- The dashboard views return one row per campaign (filter on campaign_id).
+-- Run this in Supabase SQL Editor after create_campaigns.sql
+
+-- 1. Add campaign_id to the campaign data tables
+ALTER TABLE ticket_sales ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE;
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE;
+ALTER TABLE lottery_winners ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE;
+
+-- 2. Backfill from the diary (or the active campaign for rows without one)
+UPDATE ticket_sales ts
+SET campaign_id = COALESCE(
+    (SELECT d.campaign_id FROM diaries d WHERE d.id = ts.diary_id),
+    get_active_campaign_id()
+)
+WHERE ts.campaign_id IS NULL;
+
+UPDATE diary_allotments da
+SET campaign_id = COALESCE(
+    (SELECT d.campaign_id FROM diaries d WHERE d.id = da.diary_id),
+    get_active_campaign_id()
+)
+WHERE da.campaign_id IS NULL;
+
+UPDATE lottery_winners lw
+SET campaign_id = COALESCE(
+    (SELECT ts.campaign_id FROM ticket_sales ts WHERE ts.id = lw.ticket_sale_id),
+    get_active_campaign_id()
+)
+WHERE lw.campaign_id IS NULL;
+
+ALTER TABLE ticket_sales ALTER COLUMN campaign_id SET NOT NULL;
+ALTER TABLE diary_allotments ALTER COLUMN campaign_id SET NOT NULL;
+ALTER TABLE lottery_winners ALTER COLUMN campaign_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_sales_campaign_id ON ticket_sales(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_diary_allotments_campaign_id ON diary_allotments(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_lottery_winners_campaign_id ON lottery_winners(campaign_id);
+
+-- 3. Lottery numbers are unique per campaign (each year starts again from 00001)
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_lottery_number_key;
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_campaign_lottery_number_key;
+ALTER TABLE ticket_sales ADD CONSTRAINT ticket_sales_campaign_lottery_number_key UNIQUE (campaign_id, lottery_number);
+
+ALTER TABLE lottery_winners DROP CONSTRAINT IF EXISTS lottery_winners_lottery_number_key;
+ALTER TABLE lottery_winners DROP CONSTRAINT IF EXISTS lottery_winners_campaign_lottery_number_key;
+ALTER TABLE lottery_winners ADD CONSTRAINT lottery_winners_campaign_lottery_number_key UNIQUE (campaign_id, lottery_number);
+
+-- 4. Assign the campaign automatically and keep past campaigns read-only
+CREATE OR REPLACE FUNCTION assign_and_check_campaign()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_campaign UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        target_campaign := OLD.campaign_id;
+    ELSE
+        IF TG_TABLE_NAME = 'lottery_winners' THEN
+            NEW.campaign_id := COALESCE(
+                NEW.campaign_id,
+                (SELECT campaign_id FROM ticket_sales WHERE id = NEW.ticket_sale_id),
+                get_active_campaign_id()
+            );
+        ELSE
+            -- ticket_sales and diary_allotments always follow their diary
+            NEW.campaign_id := COALESCE(
+                (SELECT campaign_id FROM diaries WHERE id = NEW.diary_id),
+                NEW.campaign_id,
+                get_active_campaign_id()
+            );
+        END IF;
+
+        target_campaign := NEW.campaign_id;
+
+        -- Rows cannot be moved out of a closed campaign either
+        IF TG_OP = 'UPDATE' AND OLD.campaign_id IS DISTINCT FROM NEW.campaign_id
+           AND NOT EXISTS (SELECT 1 FROM campaigns WHERE id = OLD.campaign_id AND is_active) THEN
+            RAISE EXCEPTION 'Campaign % is closed and read-only', OLD.campaign_id;
+        END IF;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = target_campaign AND is_active) THEN
+        RAISE EXCEPTION 'Campaign % is closed and read-only', target_campaign;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_ticket_sale_campaign ON ticket_sales;
+CREATE TRIGGER assign_ticket_sale_campaign
+BEFORE INSERT OR UPDATE OR DELETE ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION assign_and_check_campaign();
+
+DROP TRIGGER IF EXISTS assign_diary_allotment_campaign ON diary_allotments;
+CREATE TRIGGER assign_diary_allotment_campaign
+BEFORE INSERT OR UPDATE OR DELETE ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION assign_and_check_campaign();
+
+DROP TRIGGER IF EXISTS assign_lottery_winner_campaign ON lottery_winners;
+CREATE TRIGGER assign_lottery_winner_campaign
+BEFORE INSERT OR UPDATE OR DELETE ON lottery_winners
+FOR EACH ROW
+EXECUTE FUNCTION assign_and_check_campaign();
+
+-- 5. Dashboard views with one row per campaign (security_invoker, so they apply the reader's RLS)
+DROP VIEW IF EXISTS dashboard_stats;
+
+CREATE VIEW dashboard_stats
+WITH (security_invoker = true) AS
+SELECT
+    c.id as campaign_id,
+    (SELECT COUNT(*) FROM ticket_sales ts
+     WHERE ts.campaign_id = c.id) as total_tickets_sold,
+    (SELECT SUM(ts.amount_paid) FROM ticket_sales ts
+     WHERE ts.campaign_id = c.id) as total_revenue,
+    (SELECT COUNT(*) FROM diary_allotments da
+     WHERE da.campaign_id = c.id AND da.status != 'returned') as diaries_allotted,
+    (SELECT COUNT(*) FROM diary_allotments da
+     WHERE da.campaign_id = c.id AND da.status = 'fully_sold') as diaries_fully_sold,
+    (SELECT COUNT(*) FROM diary_allotments da
+     WHERE da.campaign_id = c.id AND da.status = 'paid') as diaries_paid,
+    (SELECT COUNT(*) FROM diary_allotments da
+     WHERE da.campaign_id = c.id AND da.status = 'returned') as diaries_returned,
+    (SELECT COUNT(*) FROM diaries d
+     WHERE d.campaign_id = c.id
+     AND d.id NOT IN (
+        SELECT diary_id FROM diary_allotments
+        WHERE campaign_id = c.id AND status IN ('allotted', 'fully_sold', 'paid')
+     )) as diaries_remaining,
+    (SELECT SUM(da.amount_collected) FROM diary_allotments da
+     WHERE da.campaign_id = c.id AND da.status != 'returned') as total_amount_collected,
+    (SELECT SUM(d.expected_amount) FROM diaries d
+     JOIN diary_allotments da ON d.id = da.diary_id
+     WHERE da.campaign_id = c.id AND da.status IN ('allotted', 'fully_sold')) as expected_amount_from_allotted
+FROM campaigns c;
+
+DROP VIEW IF EXISTS issuer_performance;
+
+CREATE VIEW issuer_performance
+WITH (security_invoker = true) AS
+SELECT
+    i.id,
+    c.id as campaign_id,
+    i.issuer_name,
+    i.contact_number,
+    COALESCE(da_stats.diaries_allotted, 0) as diaries_allotted,
+    COALESCE(da_stats.diaries_paid, 0) as diaries_paid,
+    COALESCE(ts_stats.tickets_sold, 0) as tickets_sold,
+    COALESCE(ts_stats.total_collected, 0) as total_collected,
+    -- Amount actually handed over by the issuer for their diaries
+    COALESCE(da_stats.total_received, 0) as total_received,
+    COALESCE(da_stats.expected_amount, 0) as expected_amount,
+    ROUND(
+        CASE
+            WHEN COALESCE(da_stats.expected_amount, 0) > 0 THEN
+                (COALESCE(ts_stats.total_collected, 0) / da_stats.expected_amount) * 100
+            ELSE 0
+        END, 2
+    ) as collection_percentage
+FROM issuers i
+CROSS JOIN campaigns c
+LEFT JOIN (
+    SELECT
+        da.issuer_id,
+        da.campaign_id,
+        COUNT(da.id) FILTER (WHERE da.status != 'returned') as diaries_allotted,
+        COUNT(da.id) FILTER (WHERE da.status = 'paid') as diaries_paid,
+        SUM(da.amount_collected) FILTER (WHERE da.status != 'returned') as total_received,
+        SUM(d.expected_amount) FILTER (WHERE da.status != 'returned') as expected_amount
+    FROM diary_allotments da
+    JOIN diaries d ON da.diary_id = d.id
+    GROUP BY da.issuer_id, da.campaign_id
+) da_stats ON i.id = da_stats.issuer_id AND c.id = da_stats.campaign_id
+LEFT JOIN (
+    SELECT
+        ts.issuer_id,
+        ts.campaign_id,
+        COUNT(ts.id) as tickets_sold,
+        SUM(ts.amount_paid) as total_collected
+    FROM ticket_sales ts
+    GROUP BY ts.issuer_id, ts.campaign_id
+) ts_stats ON i.id = ts_stats.issuer_id AND c.id = ts_stats.campaign_id;
+
+-- 6. The public winners page needs to find the active campaign without logging in
+DROP POLICY IF EXISTS "Allow public read access to campaigns" ON campaigns;
+CREATE POLICY "Allow public read access to campaigns" ON campaigns
+  FOR SELECT USING (true);
@@ -0,0 +1,271 @@
+-- Configurable Lottery Campaigns
+-- Replaces the hard-coded 39,999 tickets / 1,819 diaries / 22 tickets per diary / ₹500 layout
+-- with a campaigns table. Every diary belongs to a campaign and the helper functions and
+-- dashboard views read their sizes from the active campaign.
+-- Run this in Supabase SQL Editor after schema.sql
+
+-- 1. Campaigns table
+CREATE TABLE IF NOT EXISTS campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    campaign_name VARCHAR(255) NOT NULL,
+    total_tickets INTEGER NOT NULL CHECK (total_tickets > 0),
+    tickets_per_diary INTEGER NOT NULL CHECK (tickets_per_diary > 0),
+    ticket_price DECIMAL(10,2) NOT NULL CHECK (ticket_price >= 0),
+    draw_date DATE,
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one campaign can be active at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaigns_single_active ON campaigns(is_active) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_campaigns_updated_at ON campaigns;
+CREATE TRIGGER update_campaigns_updated_at BEFORE UPDATE ON campaigns FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Register the existing draw as the first (active) campaign
+INSERT INTO campaigns (campaign_name, total_tickets, tickets_per_diary, ticket_price, is_active)
+SELECT 'Lottery Campaign 1', 39999, 22, 500.00, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM campaigns);
+
+-- 3. Link diaries to their campaign
+ALTER TABLE diaries ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE;
+
+UPDATE diaries
+SET campaign_id = (SELECT id FROM campaigns WHERE is_active)
+WHERE campaign_id IS NULL;
+
+ALTER TABLE diaries ALTER COLUMN campaign_id SET NOT NULL;
+
+-- Diary numbers are now unique per campaign, and sizes come from the campaign
+ALTER TABLE diaries DROP CONSTRAINT IF EXISTS diaries_diary_number_check;
+ALTER TABLE diaries DROP CONSTRAINT IF EXISTS diaries_total_tickets_check;
+ALTER TABLE diaries DROP CONSTRAINT IF EXISTS diaries_diary_number_key;
+ALTER TABLE diaries DROP CONSTRAINT IF EXISTS diaries_campaign_diary_number_key;
+ALTER TABLE diaries ADD CONSTRAINT diaries_campaign_diary_number_key UNIQUE (campaign_id, diary_number);
+ALTER TABLE diaries DROP CONSTRAINT IF EXISTS diaries_diary_number_positive;
+ALTER TABLE diaries ADD CONSTRAINT diaries_diary_number_positive CHECK (diary_number >= 1);
+ALTER TABLE diaries DROP CONSTRAINT IF EXISTS diaries_total_tickets_positive;
+ALTER TABLE diaries ADD CONSTRAINT diaries_total_tickets_positive CHECK (total_tickets >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_diaries_campaign_id ON diaries(campaign_id);
+
+-- Lottery numbers are validated against the campaign instead of 1-39999
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_lottery_number_check;
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_lottery_number_positive;
+ALTER TABLE ticket_sales ADD CONSTRAINT ticket_sales_lottery_number_positive CHECK (lottery_number >= 1);
+
+-- Ticket price comes from the campaign (the app always sends amount_paid)
+ALTER TABLE ticket_sales ALTER COLUMN amount_paid DROP DEFAULT;
+
+-- 4. Campaign helper functions
+CREATE OR REPLACE FUNCTION get_active_campaign_id()
+RETURNS UUID AS $$
+    SELECT id FROM campaigns WHERE is_active LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Diary number from lottery number, using the active campaign's diary size
+CREATE OR REPLACE FUNCTION get_diary_from_lottery_number(lottery_num INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    per_diary INTEGER;
+BEGIN
+    SELECT tickets_per_diary INTO per_diary FROM campaigns WHERE is_active;
+
+    IF per_diary IS NULL THEN
+        RAISE EXCEPTION 'No active campaign configured';
+    END IF;
+
+    RETURN CEIL(lottery_num::DECIMAL / per_diary);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Lottery number range check for a diary, using the active campaign's sizes
+CREATE OR REPLACE FUNCTION validate_lottery_number_for_diary(lottery_num INTEGER, diary_num INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+    c campaigns%ROWTYPE;
+    start_range INTEGER;
+    end_range INTEGER;
+BEGIN
+    SELECT * INTO c FROM campaigns WHERE is_active;
+
+    IF c.id IS NULL THEN
+        RAISE EXCEPTION 'No active campaign configured';
+    END IF;
+
+    -- The last diary only holds the tickets that remain
+    start_range := (diary_num - 1) * c.tickets_per_diary + 1;
+    end_range := LEAST(diary_num * c.tickets_per_diary, c.total_tickets);
+
+    RETURN lottery_num >= start_range AND lottery_num <= end_range;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create the diaries for a campaign
+CREATE OR REPLACE FUNCTION generate_campaign_diaries(p_campaign_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    c campaigns%ROWTYPE;
+    inserted_count INTEGER;
+BEGIN
+    SELECT * INTO c FROM campaigns WHERE id = p_campaign_id;
+
+    INSERT INTO diaries (campaign_id, diary_number, ticket_start_range, ticket_end_range, total_tickets, expected_amount)
+    SELECT
+        c.id,
+        diary_num,
+        (diary_num - 1) * c.tickets_per_diary + 1,
+        LEAST(diary_num * c.tickets_per_diary, c.total_tickets),
+        LEAST(diary_num * c.tickets_per_diary, c.total_tickets) - (diary_num - 1) * c.tickets_per_diary,
+        (LEAST(diary_num * c.tickets_per_diary, c.total_tickets) - (diary_num - 1) * c.tickets_per_diary) * c.ticket_price
+    FROM generate_series(1, CEIL(c.total_tickets::DECIMAL / c.tickets_per_diary)::INTEGER) AS diary_num
+    ON CONFLICT (campaign_id, diary_number) DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- New campaigns get their diaries automatically
+CREATE OR REPLACE FUNCTION campaigns_after_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM generate_campaign_diaries(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS generate_diaries_for_new_campaign ON campaigns;
+CREATE TRIGGER generate_diaries_for_new_campaign
+AFTER INSERT ON campaigns
+FOR EACH ROW
+EXECUTE FUNCTION campaigns_after_insert();
+
+-- Ticket count and diary size are fixed once the diaries exist; a price change
+-- updates the expected amount of every diary in the campaign
+CREATE OR REPLACE FUNCTION campaigns_before_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.total_tickets != OLD.total_tickets OR NEW.tickets_per_diary != OLD.tickets_per_diary THEN
+        RAISE EXCEPTION 'total_tickets and tickets_per_diary cannot be changed after a campaign is created';
+    END IF;
+
+    IF NEW.ticket_price != OLD.ticket_price THEN
+        UPDATE diaries
+        SET expected_amount = total_tickets * NEW.ticket_price
+        WHERE campaign_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_campaign_layout ON campaigns;
+CREATE TRIGGER protect_campaign_layout
+BEFORE UPDATE ON campaigns
+FOR EACH ROW
+EXECUTE FUNCTION campaigns_before_update();
+
+-- Switch the active campaign
+CREATE OR REPLACE FUNCTION set_active_campaign(p_campaign_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = p_campaign_id) THEN
+        RAISE EXCEPTION 'Campaign % not found', p_campaign_id;
+    END IF;
+
+    UPDATE campaigns SET is_active = FALSE WHERE is_active AND id != p_campaign_id;
+    UPDATE campaigns SET is_active = TRUE WHERE id = p_campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Dashboard views scoped to the active campaign (security_invoker, so they apply the reader's RLS)
+DROP VIEW IF EXISTS dashboard_stats;
+
+CREATE VIEW dashboard_stats
+WITH (security_invoker = true) AS
+SELECT
+    (SELECT COUNT(*) FROM ticket_sales ts
+     JOIN diaries d ON ts.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id()) as total_tickets_sold,
+    (SELECT SUM(ts.amount_paid) FROM ticket_sales ts
+     JOIN diaries d ON ts.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id()) as total_revenue,
+    (SELECT COUNT(*) FROM diary_allotments da
+     JOIN diaries d ON da.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id() AND da.status != 'returned') as diaries_allotted,
+    (SELECT COUNT(*) FROM diary_allotments da
+     JOIN diaries d ON da.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id() AND da.status = 'fully_sold') as diaries_fully_sold,
+    (SELECT COUNT(*) FROM diary_allotments da
+     JOIN diaries d ON da.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id() AND da.status = 'paid') as diaries_paid,
+    (SELECT COUNT(*) FROM diary_allotments da
+     JOIN diaries d ON da.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id() AND da.status = 'returned') as diaries_returned,
+    (SELECT COUNT(*) FROM diaries d
+     WHERE d.campaign_id = get_active_campaign_id()
+     AND d.id NOT IN (
+        SELECT diary_id FROM diary_allotments
+        WHERE status IN ('allotted', 'fully_sold', 'paid')
+     )) as diaries_remaining,
+    (SELECT SUM(da.amount_collected) FROM diary_allotments da
+     JOIN diaries d ON da.diary_id = d.id
+     WHERE d.campaign_id = get_active_campaign_id() AND da.status != 'returned') as total_amount_collected,
+    (SELECT SUM(d.expected_amount) FROM diaries d
+     JOIN diary_allotments da ON d.id = da.diary_id
+     WHERE d.campaign_id = get_active_campaign_id() AND da.status IN ('allotted', 'fully_sold')) as expected_amount_from_allotted;
+
+DROP VIEW IF EXISTS issuer_performance;
+
+CREATE VIEW issuer_performance
+WITH (security_invoker = true) AS
+SELECT
+    i.id,
+    i.issuer_name,
+    i.contact_number,
+    COALESCE(da_stats.diaries_allotted, 0) as diaries_allotted,
+    COALESCE(da_stats.diaries_paid, 0) as diaries_paid,
+    COALESCE(ts_stats.tickets_sold, 0) as tickets_sold,
+    COALESCE(ts_stats.total_collected, 0) as total_collected,
+    -- Amount actually handed over by the issuer for their diaries
+    COALESCE(da_stats.total_received, 0) as total_received,
+    COALESCE(da_stats.expected_amount, 0) as expected_amount,
+    ROUND(
+        CASE
+            WHEN COALESCE(da_stats.expected_amount, 0) > 0 THEN
+                (COALESCE(ts_stats.total_collected, 0) / da_stats.expected_amount) * 100
+            ELSE 0
+        END, 2
+    ) as collection_percentage
+FROM issuers i
+LEFT JOIN (
+    SELECT
+        da.issuer_id,
+        COUNT(da.id) FILTER (WHERE da.status != 'returned') as diaries_allotted,
+        COUNT(da.id) FILTER (WHERE da.status = 'paid') as diaries_paid,
+        SUM(da.amount_collected) FILTER (WHERE da.status != 'returned') as total_received,
+        SUM(d.expected_amount) FILTER (WHERE da.status != 'returned') as expected_amount
+    FROM diary_allotments da
+    JOIN diaries d ON da.diary_id = d.id
+    WHERE d.campaign_id = get_active_campaign_id()
+    GROUP BY da.issuer_id
+) da_stats ON i.id = da_stats.issuer_id
+LEFT JOIN (
+    SELECT
+        ts.issuer_id,
+        COUNT(ts.id) as tickets_sold,
+        SUM(ts.amount_paid) as total_collected
+    FROM ticket_sales ts
+    JOIN diaries d ON ts.diary_id = d.id
+    WHERE d.campaign_id = get_active_campaign_id()
+    GROUP BY ts.issuer_id
+) ts_stats ON i.id = ts_stats.issuer_id;
+
+-- 6. Access for the app
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated users to access campaigns" ON campaigns;
+CREATE POLICY "Allow authenticated users to access campaigns" ON campaigns
+  FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,244 @@
+-- Devotees
+-- Ticket sales keep the purchaser's name, contact and address as typed on each ticket, so a
+-- devotee who buys ten tickets appears ten times with spelling variants. devotees is the master
+-- record of a person across campaigns; every ticket is linked to one. Tickets entered without a
+-- devotee (imports, diary entry) are linked to the devotee with the same phone and name, or a
+-- new one is created. Duplicates are combined with merge_devotees.
+-- Run this in Supabase SQL Editor after create_80g_certificates.sql
+
+-- 1. Devotee master records
+CREATE TABLE IF NOT EXISTS devotees (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    full_name VARCHAR(255) NOT NULL,
+    -- Last 10 digits of the number, see normalize_phone
+    phone VARCHAR(20),
+    address TEXT,
+    pan VARCHAR(10) CHECK (pan IS NULL OR pan ~ '^[A-Z]{5}[0-9]{4}[A-Z]$'),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_devotees_phone ON devotees(phone);
+CREATE INDEX IF NOT EXISTS idx_devotees_full_name ON devotees(LOWER(full_name));
+
+DROP TRIGGER IF EXISTS update_devotees_updated_at ON devotees;
+CREATE TRIGGER update_devotees_updated_at BEFORE UPDATE ON devotees FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- "+91 98765-43210" and "09876543210" are the same phone
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(RIGHT(regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), 10), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2. Link tickets to devotees
+ALTER TABLE ticket_sales ADD COLUMN IF NOT EXISTS devotee_id UUID REFERENCES devotees(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_ticket_sales_devotee_id ON ticket_sales(devotee_id);
+
+-- 3. Changing only the devotee link is allowed in closed campaigns too, because devotees span
+-- campaigns and merging must be able to move their old tickets
+CREATE OR REPLACE FUNCTION assign_and_check_campaign()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_campaign UUID;
+BEGIN
+    IF TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'ticket_sales'
+       AND (to_jsonb(NEW) - 'devotee_id') = (to_jsonb(OLD) - 'devotee_id') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        target_campaign := OLD.campaign_id;
+    ELSE
+        IF TG_TABLE_NAME = 'lottery_winners' THEN
+            NEW.campaign_id := COALESCE(
+                NEW.campaign_id,
+                (SELECT campaign_id FROM ticket_sales WHERE id = NEW.ticket_sale_id),
+                get_active_campaign_id()
+            );
+        ELSE
+            -- ticket_sales and diary_allotments always follow their diary
+            NEW.campaign_id := COALESCE(
+                (SELECT campaign_id FROM diaries WHERE id = NEW.diary_id),
+                NEW.campaign_id,
+                get_active_campaign_id()
+            );
+        END IF;
+
+        target_campaign := NEW.campaign_id;
+
+        -- Rows cannot be moved out of a closed campaign either
+        IF TG_OP = 'UPDATE' AND OLD.campaign_id IS DISTINCT FROM NEW.campaign_id
+           AND NOT EXISTS (SELECT 1 FROM campaigns WHERE id = OLD.campaign_id AND is_active) THEN
+            RAISE EXCEPTION 'Campaign % is closed and read-only', OLD.campaign_id;
+        END IF;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = target_campaign AND is_active) THEN
+        RAISE EXCEPTION 'Campaign % is closed and read-only', target_campaign;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Link a ticket without a devotee to the devotee with the same phone and name, or create one
+CREATE OR REPLACE FUNCTION link_ticket_devotee()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_phone TEXT := normalize_phone(NEW.purchaser_contact);
+BEGIN
+    -- A restored ticket may point at a devotee that was merged away since
+    IF NEW.devotee_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM devotees WHERE id = NEW.devotee_id) THEN
+        NEW.devotee_id := NULL;
+    END IF;
+
+    IF NEW.devotee_id IS NULL THEN
+        SELECT id INTO NEW.devotee_id
+        FROM devotees
+        WHERE phone IS NOT DISTINCT FROM v_phone
+          AND LOWER(TRIM(full_name)) = LOWER(TRIM(NEW.purchaser_name))
+        ORDER BY created_at
+        LIMIT 1;
+
+        IF NEW.devotee_id IS NULL THEN
+            INSERT INTO devotees (full_name, phone, address, pan)
+            VALUES (TRIM(NEW.purchaser_name), v_phone, NULLIF(TRIM(NEW.purchaser_address), ''), NEW.donor_pan)
+            RETURNING id INTO NEW.devotee_id;
+        END IF;
+    END IF;
+
+    -- Fill in what the devotee record is still missing
+    UPDATE devotees
+    SET address = COALESCE(address, NULLIF(TRIM(NEW.purchaser_address), '')),
+        pan = COALESCE(pan, NEW.donor_pan)
+    WHERE id = NEW.devotee_id
+      AND ((address IS NULL AND NULLIF(TRIM(NEW.purchaser_address), '') IS NOT NULL)
+           OR (pan IS NULL AND NEW.donor_pan IS NOT NULL));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to run after assign_ticket_sale_campaign
+DROP TRIGGER IF EXISTS link_ticket_devotee ON ticket_sales;
+CREATE TRIGGER link_ticket_devotee
+BEFORE INSERT OR UPDATE OF devotee_id, purchaser_name, purchaser_contact ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION link_ticket_devotee();
+
+-- 5. Create devotees for the existing tickets, one per phone and name (including closed campaigns)
+INSERT INTO devotees (full_name, phone, address, pan, created_at)
+SELECT DISTINCT ON (normalize_phone(purchaser_contact), LOWER(TRIM(purchaser_name)))
+       TRIM(purchaser_name), normalize_phone(purchaser_contact), NULLIF(TRIM(purchaser_address), ''), donor_pan, created_at
+FROM ticket_sales t
+WHERE devotee_id IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM devotees d
+      WHERE d.phone IS NOT DISTINCT FROM normalize_phone(t.purchaser_contact)
+        AND LOWER(TRIM(d.full_name)) = LOWER(TRIM(t.purchaser_name))
+  )
+ORDER BY normalize_phone(purchaser_contact), LOWER(TRIM(purchaser_name)), created_at DESC;
+
+UPDATE ticket_sales t
+SET devotee_id = (
+    SELECT d.id FROM devotees d
+    WHERE d.phone IS NOT DISTINCT FROM normalize_phone(t.purchaser_contact)
+      AND LOWER(TRIM(d.full_name)) = LOWER(TRIM(t.purchaser_name))
+    ORDER BY d.created_at
+    LIMIT 1
+)
+WHERE devotee_id IS NULL;
+
+-- 6. Tickets and amount per devotee across all campaigns
+CREATE OR REPLACE VIEW devotee_summaries
+WITH (security_invoker = true) AS
+SELECT d.*,
+       COUNT(t.id)::INTEGER AS ticket_count,
+       COALESCE(SUM(t.amount_paid), 0) AS total_amount,
+       COUNT(DISTINCT t.campaign_id)::INTEGER AS campaign_count,
+       MAX(t.purchase_date) AS last_purchase_date
+FROM devotees d
+LEFT JOIN ticket_sales t ON t.devotee_id = d.id
+GROUP BY d.id;
+
+-- 7. Merge duplicates into one devotee: tickets move over, missing details are copied, and the
+-- duplicates are deleted (kept in the audit log)
+CREATE OR REPLACE FUNCTION merge_devotees(p_keep_id UUID, p_merge_ids UUID[])
+RETURNS devotees AS $$
+DECLARE
+    v_merge_ids UUID[] := array_remove(p_merge_ids, p_keep_id);
+    v_devotee devotees%ROWTYPE;
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RAISE EXCEPTION 'Only admins and clerks can merge devotees';
+    END IF;
+
+    SELECT * INTO v_devotee FROM devotees WHERE id = p_keep_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Devotee % not found', p_keep_id;
+    END IF;
+
+    IF COALESCE(array_length(v_merge_ids, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'Select at least one devotee to merge';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM devotees WHERE id = ANY(v_merge_ids)) <> array_length(v_merge_ids, 1) THEN
+        RAISE EXCEPTION 'Some of the devotees to merge no longer exist';
+    END IF;
+
+    UPDATE ticket_sales SET devotee_id = p_keep_id WHERE devotee_id = ANY(v_merge_ids);
+
+    UPDATE devotees d
+    SET phone = COALESCE(d.phone, m.phone),
+        address = COALESCE(d.address, m.address),
+        pan = COALESCE(d.pan, m.pan),
+        notes = CASE
+            WHEN m.notes IS NULL THEN d.notes
+            WHEN d.notes IS NULL THEN m.notes
+            ELSE d.notes || E'\n' || m.notes
+        END
+    FROM (
+        SELECT (ARRAY_AGG(phone ORDER BY created_at) FILTER (WHERE phone IS NOT NULL))[1] AS phone,
+               (ARRAY_AGG(address ORDER BY created_at) FILTER (WHERE address IS NOT NULL))[1] AS address,
+               (ARRAY_AGG(pan ORDER BY created_at) FILTER (WHERE pan IS NOT NULL))[1] AS pan,
+               STRING_AGG(notes, E'\n' ORDER BY created_at) AS notes
+        FROM devotees
+        WHERE id = ANY(v_merge_ids)
+    ) m
+    WHERE d.id = p_keep_id
+    RETURNING d.* INTO v_devotee;
+
+    DELETE FROM devotees WHERE id = ANY(v_merge_ids);
+
+    RETURN v_devotee;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION merge_devotees(UUID, UUID[]) TO authenticated;
+
+-- 8. Audit devotees like the other tables
+DROP TRIGGER IF EXISTS audit_devotees ON devotees;
+CREATE TRIGGER audit_devotees AFTER INSERT OR UPDATE OR DELETE ON devotees FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- 9. Access
+ALTER TABLE devotees ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read devotees" ON devotees;
+CREATE POLICY "Staff can read devotees" ON devotees
+  FOR SELECT USING (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can add devotees" ON devotees;
+CREATE POLICY "Clerks can add devotees" ON devotees
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can edit devotees" ON devotees;
+CREATE POLICY "Clerks can edit devotees" ON devotees
+  FOR UPDATE USING (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Admins can delete devotees" ON devotees;
+CREATE POLICY "Admins can delete devotees" ON devotees
+  FOR DELETE USING (current_app_role() = 'admin');
@@ -0,0 +1,357 @@
+-- Diary Returns
+-- Setting an allotment to returned used to only flip its status. A diary is now returned with
+-- return_diary, which records which tickets were sold before the return (and the amount the
+-- issuer owes for them) and which came back unsold. The returned allotment's expected amount
+-- becomes the amount due, so its payments settle against the sold tickets only, and the
+-- diary can be allotted again for the unsold tickets.
+-- Run this in Supabase SQL Editor after create_devotees.sql
+
+-- 1. Expected amount per allotment
+-- NULL means the diary's expected amount. Returned allotments owe only for the tickets they
+-- sold, and a diary allotted again after a return is expected to bring in its unsold tickets.
+ALTER TABLE diary_allotments ADD COLUMN IF NOT EXISTS expected_amount DECIMAL(10,2) CHECK (expected_amount >= 0);
+
+-- 2. Return records
+CREATE TABLE IF NOT EXISTS diary_returns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    allotment_id UUID NOT NULL UNIQUE REFERENCES diary_allotments(id) ON DELETE CASCADE,
+    campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+    diary_id UUID NOT NULL REFERENCES diaries(id) ON DELETE CASCADE,
+    issuer_id UUID NOT NULL REFERENCES issuers(id) ON DELETE RESTRICT,
+    sold_lottery_numbers INTEGER[] NOT NULL DEFAULT '{}',
+    unsold_lottery_numbers INTEGER[] NOT NULL DEFAULT '{}',
+    amount_due DECIMAL(10,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    returned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    returned_by_email VARCHAR(255),
+    returned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_diary_returns_diary_id ON diary_returns(diary_id);
+CREATE INDEX IF NOT EXISTS idx_diary_returns_campaign_id ON diary_returns(campaign_id);
+
+-- 3. Payments settle against the allotment's own expected amount
+CREATE OR REPLACE FUNCTION sync_allotment_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_allotment_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.allotment_id ELSE NEW.allotment_id END;
+    v_collected DECIMAL(10,2);
+    v_expected DECIMAL(10,2);
+    v_total INTEGER;
+    v_diary_id UUID;
+BEGIN
+    SELECT COALESCE(SUM(amount), 0) INTO v_collected FROM allotment_payments WHERE allotment_id = v_allotment_id;
+
+    SELECT d.id, COALESCE(da.expected_amount, d.expected_amount), d.total_tickets INTO v_diary_id, v_expected, v_total
+    FROM diary_allotments da
+    JOIN diaries d ON d.id = da.diary_id
+    WHERE da.id = v_allotment_id;
+
+    PERFORM set_config('app.allotment_payment_sync', 'on', true);
+
+    -- A paid allotment whose payments were corrected below the expected amount goes back to
+    -- allotted / fully_sold, whichever matches the tickets entered
+    UPDATE diary_allotments
+    SET amount_collected = v_collected,
+        status = CASE
+            WHEN v_collected >= v_expected AND status IN ('allotted', 'fully_sold') THEN 'paid'::diary_status
+            WHEN v_collected < v_expected AND status = 'paid' THEN
+                CASE WHEN diary_tickets_sold(v_diary_id) >= v_total THEN 'fully_sold'::diary_status ELSE 'allotted'::diary_status END
+            ELSE status
+        END
+    WHERE id = v_allotment_id;
+
+    PERFORM set_config('app.allotment_payment_sync', 'off', true);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_allotment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_expected DECIMAL(10,2);
+BEGIN
+    IF COALESCE(current_setting('app.allotment_payment_sync', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.amount_collected IS DISTINCT FROM OLD.amount_collected THEN
+        RAISE EXCEPTION 'The amount collected is the sum of the recorded payments. Record a payment instead.';
+    END IF;
+
+    IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+        SELECT COALESCE(NEW.expected_amount, expected_amount) INTO v_expected FROM diaries WHERE id = NEW.diary_id;
+        IF NEW.amount_collected < v_expected THEN
+            RAISE EXCEPTION 'Only ₹% of ₹% is paid. The diary becomes paid automatically when its payments reach the expected amount.',
+                NEW.amount_collected, v_expected;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Returned is only set and cleared by return_diary / undo_diary_return (and kept when
+-- restore_deleted_record brings back a returned allotment), and the expected amount of an
+-- allotment is not edited by hand
+CREATE OR REPLACE FUNCTION check_allotment_return()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(current_setting('app.diary_return', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status = 'returned' THEN
+            RAISE EXCEPTION 'A diary can only be returned from an existing allotment. Use the Return action instead.';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND (NEW.status = 'returned' OR OLD.status = 'returned') THEN
+        RAISE EXCEPTION 'Use the Return action to return a diary. It records the tickets sold and the amount due.';
+    END IF;
+
+    IF NEW.expected_amount IS DISTINCT FROM OLD.expected_amount THEN
+        RAISE EXCEPTION 'The expected amount of an allotment follows from its diary and returns and cannot be changed by hand';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_diary_allotment_return ON diary_allotments;
+CREATE TRIGGER check_diary_allotment_return
+BEFORE INSERT OR UPDATE OF status, expected_amount ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION check_allotment_return();
+
+-- 5. A diary allotted again after a return is expected to bring in its unsold tickets only
+CREATE OR REPLACE FUNCTION set_reallotment_expected_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_unsold INTEGER;
+BEGIN
+    SELECT COALESCE(cardinality(r.unsold_lottery_numbers), 0) INTO v_unsold
+    FROM diary_returns r
+    WHERE r.diary_id = NEW.diary_id
+    ORDER BY r.returned_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT ROUND(d.expected_amount * v_unsold / NULLIF(d.total_tickets, 0), 2) INTO NEW.expected_amount
+        FROM diaries d
+        WHERE d.id = NEW.diary_id;
+    ELSE
+        NEW.expected_amount := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_reallotment_expected_amount ON diary_allotments;
+CREATE TRIGGER set_reallotment_expected_amount
+BEFORE INSERT ON diary_allotments
+FOR EACH ROW
+EXECUTE FUNCTION set_reallotment_expected_amount();
+
+-- 6. Return a diary (admins and clerks)
+-- Sold tickets are the diary's tickets not already settled by an earlier return; the amount
+-- due is what their purchasers paid. Every ticket number without a sale is returned stock.
+CREATE OR REPLACE FUNCTION return_diary(p_allotment_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS diary_returns AS $$
+DECLARE
+    v_allotment diary_allotments%ROWTYPE;
+    v_diary diaries%ROWTYPE;
+    v_sold INTEGER[];
+    v_unsold INTEGER[];
+    v_amount_due DECIMAL(10,2);
+    v_return diary_returns%ROWTYPE;
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RAISE EXCEPTION 'Only admins and clerks can return diaries';
+    END IF;
+
+    SELECT * INTO v_allotment FROM diary_allotments WHERE id = p_allotment_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Allotment % not found', p_allotment_id;
+    END IF;
+
+    IF v_allotment.status NOT IN ('allotted', 'fully_sold') THEN
+        RAISE EXCEPTION 'Only diaries that are allotted or fully sold can be returned (this one is %)', v_allotment.status;
+    END IF;
+
+    IF v_allotment.is_locked THEN
+        RAISE EXCEPTION 'Diary allotment is locked (%). An admin must unlock it first.', v_allotment.lock_reason
+            USING ERRCODE = 'P0001', HINT = 'allotment_locked';
+    END IF;
+
+    SELECT * INTO v_diary FROM diaries WHERE id = v_allotment.diary_id;
+
+    SELECT COALESCE(ARRAY_AGG(ts.lottery_number ORDER BY ts.lottery_number), '{}'), COALESCE(SUM(ts.amount_paid), 0)
+    INTO v_sold, v_amount_due
+    FROM ticket_sales ts
+    WHERE ts.diary_id = v_diary.id
+      AND NOT EXISTS (
+          SELECT 1 FROM diary_returns r
+          WHERE r.diary_id = v_diary.id AND ts.lottery_number = ANY(r.sold_lottery_numbers)
+      );
+
+    SELECT COALESCE(ARRAY_AGG(n ORDER BY n), '{}') INTO v_unsold
+    FROM generate_series(v_diary.ticket_start_range, v_diary.ticket_end_range) AS n
+    WHERE NOT EXISTS (SELECT 1 FROM ticket_sales ts WHERE ts.diary_id = v_diary.id AND ts.lottery_number = n);
+
+    INSERT INTO diary_returns (
+        allotment_id, campaign_id, diary_id, issuer_id, sold_lottery_numbers, unsold_lottery_numbers,
+        amount_due, notes, returned_by, returned_by_email
+    )
+    VALUES (
+        v_allotment.id, v_allotment.campaign_id, v_diary.id, v_allotment.issuer_id, v_sold, v_unsold,
+        v_amount_due, NULLIF(TRIM(p_notes), ''), auth.uid(), auth.jwt() ->> 'email'
+    )
+    RETURNING * INTO v_return;
+
+    PERFORM set_config('app.diary_return', 'on', true);
+
+    UPDATE diary_allotments
+    SET status = 'returned',
+        expected_amount = v_amount_due
+    WHERE id = v_allotment.id;
+
+    PERFORM set_config('app.diary_return', 'off', true);
+
+    RETURN v_return;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Undo a return entered by mistake (admins only), as long as the diary was not allotted again
+CREATE OR REPLACE FUNCTION undo_diary_return(p_allotment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_return diary_returns%ROWTYPE;
+    v_allotment diary_allotments%ROWTYPE;
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can undo a diary return';
+    END IF;
+
+    SELECT * INTO v_allotment FROM diary_allotments WHERE id = p_allotment_id FOR UPDATE;
+    SELECT * INTO v_return FROM diary_returns WHERE allotment_id = p_allotment_id;
+
+    IF NOT FOUND OR v_allotment.status IS DISTINCT FROM 'returned' THEN
+        RAISE EXCEPTION 'This allotment has not been returned';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM diary_allotments
+        WHERE diary_id = v_allotment.diary_id AND id <> v_allotment.id AND created_at > v_return.returned_at
+    ) THEN
+        RAISE EXCEPTION 'The diary has been allotted again since it was returned, so the return cannot be undone';
+    END IF;
+
+    DELETE FROM diary_returns WHERE id = v_return.id;
+
+    PERFORM set_config('app.diary_return', 'on', true);
+
+    -- check_allotment_status corrects allotted to fully_sold when every ticket is entered
+    UPDATE diary_allotments
+    SET status = CASE WHEN diary_tickets_sold(diary_id) >= (SELECT total_tickets FROM diaries WHERE id = diary_id)
+                      THEN 'fully_sold'::diary_status ELSE 'allotted'::diary_status END,
+        expected_amount = (
+            SELECT CASE WHEN prev.unsold IS NULL THEN NULL
+                        ELSE ROUND(d.expected_amount * prev.unsold / NULLIF(d.total_tickets, 0), 2) END
+            FROM diaries d
+            LEFT JOIN LATERAL (
+                SELECT cardinality(r.unsold_lottery_numbers) AS unsold
+                FROM diary_returns r
+                WHERE r.diary_id = d.id AND r.returned_at < v_allotment.created_at
+                ORDER BY r.returned_at DESC
+                LIMIT 1
+            ) prev ON TRUE
+            WHERE d.id = v_allotment.diary_id
+        )
+    WHERE id = v_allotment.id;
+
+    PERFORM set_config('app.diary_return', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 8. Returned stock stays with the office until the diary is allotted again
+CREATE OR REPLACE FUNCTION check_ticket_returned_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_diary_number INTEGER;
+BEGIN
+    SELECT d.diary_number INTO v_diary_number
+    FROM diary_returns r
+    JOIN diaries d ON d.id = r.diary_id
+    WHERE r.diary_id = NEW.diary_id
+      AND NEW.lottery_number = ANY(r.unsold_lottery_numbers)
+      AND NOT EXISTS (
+          SELECT 1 FROM diary_allotments da
+          WHERE da.diary_id = r.diary_id AND da.status <> 'returned'
+      )
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Ticket % was returned unsold with diary %. Allot the diary again before entering a sale for it.',
+            NEW.lottery_number, v_diary_number;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_ticket_returned_stock ON ticket_sales;
+CREATE TRIGGER check_ticket_returned_stock
+BEFORE INSERT OR UPDATE OF lottery_number, diary_id ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION check_ticket_returned_stock();
+
+-- 9. Allotments already marked returned get a return record for the tickets entered so far
+INSERT INTO diary_returns (allotment_id, campaign_id, diary_id, issuer_id, sold_lottery_numbers, unsold_lottery_numbers, amount_due, notes, returned_at)
+SELECT da.id, da.campaign_id, d.id, da.issuer_id,
+       COALESCE((SELECT ARRAY_AGG(ts.lottery_number ORDER BY ts.lottery_number) FROM ticket_sales ts WHERE ts.diary_id = d.id), '{}'),
+       COALESCE((SELECT ARRAY_AGG(n ORDER BY n) FROM generate_series(d.ticket_start_range, d.ticket_end_range) AS n
+                 WHERE NOT EXISTS (SELECT 1 FROM ticket_sales ts WHERE ts.diary_id = d.id AND ts.lottery_number = n)), '{}'),
+       COALESCE((SELECT SUM(ts.amount_paid) FROM ticket_sales ts WHERE ts.diary_id = d.id), 0),
+       'Marked as returned before the return workflow',
+       COALESCE(da.updated_at, NOW())
+FROM diary_allotments da
+JOIN diaries d ON d.id = da.diary_id
+WHERE da.status = 'returned'
+  AND NOT EXISTS (SELECT 1 FROM diary_returns r WHERE r.allotment_id = da.id);
+
+ALTER TABLE diary_allotments DISABLE TRIGGER assign_diary_allotment_campaign;
+ALTER TABLE diary_allotments DISABLE TRIGGER enforce_diary_allotment_lock;
+ALTER TABLE diary_allotments DISABLE TRIGGER check_diary_allotment_return;
+
+UPDATE diary_allotments da
+SET expected_amount = r.amount_due
+FROM diary_returns r
+WHERE r.allotment_id = da.id
+  AND da.expected_amount IS NULL;
+
+ALTER TABLE diary_allotments ENABLE TRIGGER check_diary_allotment_return;
+ALTER TABLE diary_allotments ENABLE TRIGGER enforce_diary_allotment_lock;
+ALTER TABLE diary_allotments ENABLE TRIGGER assign_diary_allotment_campaign;
+
+-- 10. Audit returns like the other tables
+DROP TRIGGER IF EXISTS audit_diary_returns ON diary_returns;
+CREATE TRIGGER audit_diary_returns AFTER INSERT OR UPDATE OR DELETE ON diary_returns FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- 11. Access: returns are only written by the functions above; issuers see their own
+ALTER TABLE diary_returns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read diary_returns" ON diary_returns;
+CREATE POLICY "Staff can read diary_returns" ON diary_returns
+  FOR SELECT USING (
+    current_app_role() IN ('admin', 'clerk')
+    OR (current_app_role() = 'issuer' AND issuer_id = current_issuer_id())
+  );
+
+GRANT EXECUTE ON FUNCTION return_diary(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_diary_return(UUID) TO authenticated;
@@ -0,0 +1,300 @@
+-- Random Draw Engine (commit-reveal)
+-- A draw starts by committing to a secret seed: only its SHA-256 hash (and a hash of the sold
+-- ticket pool) is published. The seed is generated in the database and nobody can read it until
+-- it is revealed. Each pick is made by draw_next_winner from the seed and the pick sequence, so
+-- the operator has no say in the result and cannot see the next number in advance. After the
+-- draw the seed is revealed and anyone can replay every pick. Winners are registered through
+-- register_winner like any other winner.
+-- Run this in Supabase SQL Editor after create_prize_management.sql
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. Draws (one open draw per campaign)
+CREATE TABLE IF NOT EXISTS draws (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+    seed_hash CHAR(64) NOT NULL,
+    -- Revealed when the draw is closed
+    seed TEXT,
+    pool_size INTEGER NOT NULL,
+    pool_hash CHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'revealed')),
+    committed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    committed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revealed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- The committed pool itself, so a revealed draw can still be replayed after later sale changes
+ALTER TABLE draws ADD COLUMN IF NOT EXISTS pool_numbers INTEGER[];
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_draws_one_open_per_campaign ON draws(campaign_id) WHERE status = 'committed';
+
+-- The secret seed is kept apart until it is revealed, so the public cannot read it early
+CREATE TABLE IF NOT EXISTS draw_secrets (
+    draw_id UUID PRIMARY KEY REFERENCES draws(id) ON DELETE CASCADE,
+    seed TEXT NOT NULL
+);
+
+-- 2. Picks made in a draw
+CREATE TABLE IF NOT EXISTS draw_picks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    draw_id UUID NOT NULL REFERENCES draws(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    prize_category VARCHAR(255) NOT NULL,
+    lottery_number INTEGER NOT NULL,
+    -- Numbers still eligible when the pick was made
+    eligible_count INTEGER NOT NULL,
+    winner_id UUID REFERENCES lottery_winners(id) ON DELETE SET NULL,
+    picked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    picked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT draw_picks_draw_sequence_key UNIQUE (draw_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_draw_picks_draw_id ON draw_picks(draw_id);
+
+-- 3. Start a draw (admins only): generates the seed, stores it and publishes its hash and the
+-- hash of the sold ticket pool ("1,2,5,...", ascending) in one step
+DROP FUNCTION IF EXISTS start_draw(UUID, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION start_draw(p_campaign_id UUID)
+RETURNS draws AS $$
+DECLARE
+    v_draw draws%ROWTYPE;
+    v_seed TEXT;
+    v_pool_size INTEGER;
+    v_pool TEXT;
+    v_pool_numbers INTEGER[];
+    v_incomplete INTEGER;
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can start a draw';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = p_campaign_id AND is_active) THEN
+        RAISE EXCEPTION 'Draws can only be started in the active campaign';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM draws WHERE campaign_id = p_campaign_id AND status = 'committed') THEN
+        RAISE EXCEPTION 'This campaign already has an open draw. Reveal its seed first.';
+    END IF;
+
+    SELECT COUNT(*), STRING_AGG(lottery_number::TEXT, ',' ORDER BY lottery_number), ARRAY_AGG(lottery_number ORDER BY lottery_number)
+    INTO v_pool_size, v_pool, v_pool_numbers
+    FROM ticket_sales
+    WHERE campaign_id = p_campaign_id;
+
+    IF v_pool_size = 0 THEN
+        RAISE EXCEPTION 'No tickets have been sold in this campaign';
+    END IF;
+
+    -- A drawn ticket without these cannot be registered, and its pick could not be skipped
+    SELECT COUNT(*) INTO v_incomplete
+    FROM ticket_sales
+    WHERE campaign_id = p_campaign_id
+      AND (LENGTH(TRIM(COALESCE(purchaser_name, ''))) = 0 OR LENGTH(TRIM(COALESCE(purchaser_contact, ''))) = 0);
+
+    IF v_incomplete > 0 THEN
+        RAISE EXCEPTION '% sold tickets have no purchaser name or contact. Complete them before starting a draw.', v_incomplete;
+    END IF;
+
+    v_seed := encode(extensions.gen_random_bytes(32), 'hex');
+
+    INSERT INTO draws (campaign_id, seed_hash, pool_size, pool_hash, pool_numbers, committed_by)
+    VALUES (
+        p_campaign_id,
+        encode(extensions.digest(v_seed, 'sha256'), 'hex'),
+        v_pool_size,
+        encode(extensions.digest(v_pool, 'sha256'), 'hex'),
+        v_pool_numbers,
+        auth.uid()
+    )
+    RETURNING * INTO v_draw;
+
+    INSERT INTO draw_secrets (draw_id, seed) VALUES (v_draw.id, v_seed);
+
+    RETURN v_draw;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Draw the next winner (admins and clerks)
+-- The draw row is locked, so picks of one draw are made one at a time. Pick n uses
+-- h = SHA-256("<seed>:<n>"): the eligible numbers are the pool, ascending, minus every number
+-- that has already won in the campaign, and the winner is eligible[h mod count]. The winner is
+-- registered with register_winner and the pick is recorded in the same transaction. The prize
+-- is checked before the number is picked, and any failure after the pick raises, so nothing
+-- is recorded and the number drawn is never shown: the operator cannot learn the next number
+-- and then choose its prize.
+CREATE OR REPLACE FUNCTION draw_next_winner(p_draw_id UUID, p_prize_category TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_draw draws%ROWTYPE;
+    v_seed TEXT;
+    v_pool TEXT;
+    v_sequence INTEGER;
+    v_eligible_count INTEGER;
+    v_hash TEXT;
+    v_index BIGINT := 0;
+    v_ticket_id UUID;
+    v_lottery_number INTEGER;
+    v_prize prize_categories%ROWTYPE;
+    v_used INTEGER;
+    v_result JSONB;
+    v_pick draw_picks%ROWTYPE;
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RAISE EXCEPTION 'Only admins and clerks can draw winners';
+    END IF;
+
+    SELECT * INTO v_draw FROM draws WHERE id = p_draw_id FOR UPDATE;
+
+    IF v_draw.id IS NULL THEN
+        RAISE EXCEPTION 'Draw % not found', p_draw_id;
+    END IF;
+
+    IF v_draw.status <> 'committed' THEN
+        RAISE EXCEPTION 'The seed of this draw has been revealed, so no more picks can be made with it';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = v_draw.campaign_id AND is_active) THEN
+        RAISE EXCEPTION 'This draw belongs to a closed campaign';
+    END IF;
+
+    -- Same lock as register_winner; the prize must have one left before a number is drawn
+    SELECT * INTO v_prize
+    FROM prize_categories
+    WHERE campaign_id = v_draw.campaign_id AND category_name = TRIM(p_prize_category)
+    FOR UPDATE;
+
+    IF v_prize.id IS NULL THEN
+        RAISE EXCEPTION 'Prize category "%" does not exist in this campaign', p_prize_category;
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM lottery_winners
+    WHERE campaign_id = v_draw.campaign_id AND prize_category = v_prize.category_name;
+
+    IF v_used >= v_prize.total_quantity THEN
+        RAISE EXCEPTION 'All % % prizes have already been won', v_prize.total_quantity, v_prize.category_name;
+    END IF;
+
+    -- The pool must be exactly the one committed to, otherwise the draw cannot be replayed
+    SELECT STRING_AGG(lottery_number::TEXT, ',' ORDER BY lottery_number) INTO v_pool
+    FROM ticket_sales
+    WHERE campaign_id = v_draw.campaign_id;
+
+    IF encode(extensions.digest(COALESCE(v_pool, ''), 'sha256'), 'hex') <> v_draw.pool_hash THEN
+        RAISE EXCEPTION 'Ticket sales have changed since this draw was started. Reveal its seed and start a new draw.';
+    END IF;
+
+    SELECT COALESCE(MAX(sequence), 0) + 1 INTO v_sequence FROM draw_picks WHERE draw_id = p_draw_id;
+
+    SELECT COUNT(*) INTO v_eligible_count
+    FROM ticket_sales ts
+    WHERE ts.campaign_id = v_draw.campaign_id
+      AND NOT EXISTS (
+          SELECT 1 FROM lottery_winners lw
+          WHERE lw.campaign_id = ts.campaign_id AND lw.lottery_number = ts.lottery_number
+      );
+
+    IF v_eligible_count = 0 THEN
+        RAISE EXCEPTION 'No eligible lottery numbers left to draw';
+    END IF;
+
+    SELECT seed INTO v_seed FROM draw_secrets WHERE draw_id = p_draw_id;
+
+    -- h mod count, one hex digit at a time
+    v_hash := encode(extensions.digest(v_seed || ':' || v_sequence, 'sha256'), 'hex');
+    FOR i IN 1..LENGTH(v_hash) LOOP
+        v_index := (v_index * 16 + POSITION(SUBSTR(v_hash, i, 1) IN '0123456789abcdef') - 1) % v_eligible_count;
+    END LOOP;
+
+    SELECT ts.id, ts.lottery_number INTO v_ticket_id, v_lottery_number
+    FROM ticket_sales ts
+    WHERE ts.campaign_id = v_draw.campaign_id
+      AND NOT EXISTS (
+          SELECT 1 FROM lottery_winners lw
+          WHERE lw.campaign_id = ts.campaign_id AND lw.lottery_number = ts.lottery_number
+      )
+    ORDER BY ts.lottery_number
+    OFFSET v_index
+    LIMIT 1;
+
+    v_result := register_winner(v_ticket_id, v_prize.category_name, 'Random draw pick #' || v_sequence);
+
+    IF NOT (v_result ->> 'success')::BOOLEAN THEN
+        -- Only the code: some messages name the ticket, which would give the number away
+        RAISE EXCEPTION 'The drawn ticket could not be registered (%). No pick was made.', v_result ->> 'error_code';
+    END IF;
+
+    INSERT INTO draw_picks (draw_id, sequence, prize_category, lottery_number, eligible_count, winner_id, picked_by)
+    VALUES (
+        p_draw_id,
+        v_sequence,
+        v_result -> 'winner' ->> 'prize_category',
+        v_lottery_number,
+        v_eligible_count,
+        (v_result -> 'winner' ->> 'id')::UUID,
+        auth.uid()
+    )
+    RETURNING * INTO v_pick;
+
+    RETURN v_result || jsonb_build_object('lottery_number', v_lottery_number, 'pick', to_jsonb(v_pick));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION draw_next_winner(UUID, TEXT) TO authenticated;
+
+-- 5. Reveal the seed (admins only); the seed must match the committed hash
+CREATE OR REPLACE FUNCTION reveal_draw_seed(p_draw_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_draw draws%ROWTYPE;
+    v_seed TEXT;
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can reveal a draw seed';
+    END IF;
+
+    SELECT * INTO v_draw FROM draws WHERE id = p_draw_id FOR UPDATE;
+
+    IF v_draw.id IS NULL THEN
+        RAISE EXCEPTION 'Draw % not found', p_draw_id;
+    END IF;
+
+    IF v_draw.status = 'revealed' THEN
+        RAISE EXCEPTION 'The seed of this draw has already been revealed';
+    END IF;
+
+    SELECT seed INTO v_seed FROM draw_secrets WHERE draw_id = p_draw_id;
+
+    IF v_seed IS NULL OR encode(extensions.digest(v_seed, 'sha256'), 'hex') != v_draw.seed_hash THEN
+        RAISE EXCEPTION 'Stored seed does not match the committed hash';
+    END IF;
+
+    UPDATE draws
+    SET seed = v_seed,
+        status = 'revealed',
+        revealed_at = NOW()
+    WHERE id = p_draw_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Access
+ALTER TABLE draws ENABLE ROW LEVEL SECURITY;
+ALTER TABLE draw_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE draw_picks ENABLE ROW LEVEL SECURITY;
+
+-- Commitments and picks are public so the draw can be verified by anyone. Draws, secrets and
+-- picks are only written by start_draw, draw_next_winner and reveal_draw_seed, and nobody can
+-- read a secret (the seed is copied to draws when it is revealed).
+DROP POLICY IF EXISTS "Allow public read access to draws" ON draws;
+CREATE POLICY "Allow public read access to draws" ON draws
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Staff can read draw_secrets" ON draw_secrets;
+
+DROP POLICY IF EXISTS "Allow public read access to draw_picks" ON draw_picks;
+CREATE POLICY "Allow public read access to draw_picks" ON draw_picks
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Clerks can record draw_picks" ON draw_picks;
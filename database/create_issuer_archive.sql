@@ -0,0 +1,40 @@
+-- Issuer Archive
+-- Deleting an issuer used to cascade to every ticket they sold and every diary allotted to
+-- them. Issuers are now archived instead: archived issuers are hidden from the pickers but
+-- keep their history, and an issuer with sales or allotments can no longer be deleted.
+-- Run this in Supabase SQL Editor after create_restore_deleted.sql
+
+-- 1. Archive flag
+ALTER TABLE issuers ADD COLUMN IF NOT EXISTS is_archived BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE issuers ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_issuers_is_archived ON issuers(is_archived);
+
+-- 2. Block deletes that would remove sales or allotments (was ON DELETE CASCADE)
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_issuer_id_fkey;
+ALTER TABLE ticket_sales
+    ADD CONSTRAINT ticket_sales_issuer_id_fkey
+    FOREIGN KEY (issuer_id) REFERENCES issuers(id) ON DELETE RESTRICT;
+
+ALTER TABLE diary_allotments DROP CONSTRAINT IF EXISTS diary_allotments_issuer_id_fkey;
+ALTER TABLE diary_allotments
+    ADD CONSTRAINT diary_allotments_issuer_id_fkey
+    FOREIGN KEY (issuer_id) REFERENCES issuers(id) ON DELETE RESTRICT;
+
+-- 3. Keep archived_at in step with the flag
+CREATE OR REPLACE FUNCTION set_issuer_archived_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_archived AND NOT COALESCE(OLD.is_archived, FALSE) THEN
+        NEW.archived_at = NOW();
+    ELSIF NOT NEW.is_archived THEN
+        NEW.archived_at = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_issuer_archived_at ON issuers;
+CREATE TRIGGER set_issuer_archived_at
+    BEFORE INSERT OR UPDATE OF is_archived ON issuers
+    FOR EACH ROW EXECUTE FUNCTION set_issuer_archived_at();
@@ -56,35 +56,4 @@ CREATE TABLE IF NOT EXISTS prize_categories (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Insert prize categories
-INSERT INTO prize_categories (category_name, total_quantity) VALUES
-('THAR CAR', 1),
-('SWIFT CAR', 1),
-('E-Rickshaw', 1),
-('Bullet Bike', 1),
-('HF delux Bike', 5),
-('Electric Bike', 3),
-('AC 1Ton', 1),
-('Laptop', 3),
-('32 Inch LED TV', 5),
-('Fridge', 5),
-('Washing Machine', 5),
-('Sewing Machine', 5),
-('Sports Cycle', 5),
-('5G Mobile', 11),
-('Cooler', 11),
-('Child EV Bike', 10),
-('Home Theater', 5),
-('Electric Water Heater', 5),
-('Battery Spray Pump', 27),
-('Mixer', 10),
-('Induction stove', 10),
-('Ceiling Fan', 10),
-('Smart Watch', 11),
-('Gas Stove', 27),
-('Helmet', 54),
-('Silver Coin', 54),
-('Wall Clock', 108),
-('Photo Frame', 108)
-ON CONFLICT (category_name) DO NOTHING;
-
+-- The prize list is seeded for the active campaign by create_prize_management.sql and edited on the Prizes page
@@ -0,0 +1,72 @@
+-- Draw-Stage Presenter
+-- The presenter console writes what the public winners screen should show (announce a prize,
+-- reveal the winning number digit by digit, then the winner card) into presenter_state. The
+-- public page follows the row through its existing realtime channel.
+-- Run this in Supabase SQL Editor after create_draws.sql
+
+-- 1. One row per campaign
+CREATE TABLE IF NOT EXISTS presenter_state (
+    campaign_id UUID PRIMARY KEY REFERENCES campaigns(id) ON DELETE CASCADE,
+    stage VARCHAR(20) NOT NULL DEFAULT 'idle' CHECK (stage IN ('idle', 'announce', 'reveal', 'winner')),
+    prize_category VARCHAR(255),
+    winner_id UUID REFERENCES lottery_winners(id) ON DELETE SET NULL,
+    lottery_number INTEGER,
+    revealed_digits INTEGER NOT NULL DEFAULT 0 CHECK (revealed_digits BETWEEN 0 AND 5),
+    -- Winners registered after the announcement stay hidden on the public page until revealed
+    announced_at TIMESTAMP WITH TIME ZONE,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_presenter_state_updated_at ON presenter_state;
+CREATE TRIGGER update_presenter_state_updated_at BEFORE UPDATE ON presenter_state FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Winners are compared with announced_at on the public page using the server's registered_at,
+-- so the announcement time is taken from the server clock too, never from the browser
+CREATE OR REPLACE FUNCTION set_presenter_announced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.stage = 'idle' THEN
+        NEW.announced_at := NULL;
+    ELSIF NEW.stage = 'announce'
+       OR (NEW.stage = 'reveal' AND (TG_OP = 'INSERT' OR OLD.stage NOT IN ('announce', 'reveal'))) THEN
+        NEW.announced_at := NOW();
+    ELSIF TG_OP = 'UPDATE' THEN
+        NEW.announced_at := OLD.announced_at;
+    ELSE
+        NEW.announced_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_presenter_state_announced_at ON presenter_state;
+CREATE TRIGGER set_presenter_state_announced_at BEFORE INSERT OR UPDATE ON presenter_state FOR EACH ROW EXECUTE FUNCTION set_presenter_announced_at();
+
+-- 2. Realtime (lottery_winners is usually enabled from the dashboard already)
+DO $$ BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE presenter_state;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lottery_winners;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 3. Access
+ALTER TABLE presenter_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access to presenter_state" ON presenter_state;
+CREATE POLICY "Allow public read access to presenter_state" ON presenter_state
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Clerks can add presenter_state" ON presenter_state;
+CREATE POLICY "Clerks can add presenter_state" ON presenter_state
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can drive presenter_state" ON presenter_state;
+CREATE POLICY "Clerks can drive presenter_state" ON presenter_state
+  FOR UPDATE USING (current_app_role() IN ('admin', 'clerk'));
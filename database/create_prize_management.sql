@@ -0,0 +1,325 @@
+-- Prize Management
+-- prize_categories becomes the only list of prizes: each campaign has its own prizes with an
+-- English name, Hindi name (shown on the public winners page), quantity, display order and
+-- image. Prizes are edited from the Prizes page; Search, Winners and the public winners page
+-- read them from here.
+-- Run this in Supabase SQL Editor after create_register_winner_function.sql
+
+-- 1. New columns
+ALTER TABLE prize_categories ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE;
+ALTER TABLE prize_categories ADD COLUMN IF NOT EXISTS hindi_name VARCHAR(255);
+ALTER TABLE prize_categories ADD COLUMN IF NOT EXISTS display_order INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE prize_categories ADD COLUMN IF NOT EXISTS image_url TEXT;
+ALTER TABLE prize_categories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- 2. Existing prizes belong to the campaign their winners were drawn in (or the active one)
+UPDATE prize_categories pc
+SET campaign_id = COALESCE(
+    (SELECT lw.campaign_id FROM lottery_winners lw WHERE lw.prize_category = pc.category_name LIMIT 1),
+    get_active_campaign_id()
+)
+WHERE pc.campaign_id IS NULL;
+
+ALTER TABLE prize_categories ALTER COLUMN campaign_id SET NOT NULL;
+
+-- Prize names are unique per campaign
+ALTER TABLE prize_categories DROP CONSTRAINT IF EXISTS prize_categories_category_name_key;
+ALTER TABLE prize_categories DROP CONSTRAINT IF EXISTS prize_categories_campaign_category_name_key;
+ALTER TABLE prize_categories ADD CONSTRAINT prize_categories_campaign_category_name_key UNIQUE (campaign_id, category_name);
+
+ALTER TABLE prize_categories DROP CONSTRAINT IF EXISTS prize_categories_total_quantity_check;
+ALTER TABLE prize_categories ADD CONSTRAINT prize_categories_total_quantity_check CHECK (total_quantity > 0);
+
+CREATE INDEX IF NOT EXISTS idx_prize_categories_campaign_id ON prize_categories(campaign_id, display_order);
+
+DROP TRIGGER IF EXISTS update_prize_categories_updated_at ON prize_categories;
+CREATE TRIGGER update_prize_categories_updated_at BEFORE UPDATE ON prize_categories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. The original prize list (previously hard-coded in the app and seeded by create_lottery_winners.sql)
+DROP TABLE IF EXISTS original_prizes;
+CREATE TEMP TABLE original_prizes (category_name, hindi_name, total_quantity, display_order) AS
+VALUES
+    ('THAR CAR', 'थार कार', 1, 1),
+    ('SWIFT CAR', 'स्विफ्ट कार', 1, 2),
+    ('E-Rickshaw', 'ई-रिक्शा', 1, 3),
+    ('Bullet Bike', 'बुलेट बाइक', 1, 4),
+    ('HF delux Bike', 'एचएफ डीलक्स बाइक', 5, 5),
+    ('Electric Bike', 'इलेक्ट्रिक बाइक', 3, 6),
+    ('AC 1Ton', 'एसी 1 टन', 1, 7),
+    ('Laptop', 'लैपटॉप', 3, 8),
+    ('32 Inch LED TV', '32 इंच एलईडी टीवी', 5, 9),
+    ('Fridge', 'फ्रिज', 5, 10),
+    ('Washing Machine', 'वाशिंग मशीन', 5, 11),
+    ('Sewing Machine', 'सिलाई मशीन', 5, 12),
+    ('Sports Cycle', 'स्पोर्ट्स साइकिल', 5, 13),
+    ('5G Mobile', '5जी मोबाइल', 11, 14),
+    ('Cooler', 'कूलर', 11, 15),
+    ('Child EV Bike', 'चाइल्ड ईवी बाइक', 10, 16),
+    ('Home Theater', 'होम थिएटर', 5, 17),
+    ('Electric Water Heater', 'इलेक्ट्रिक वॉटर हीटर', 5, 18),
+    ('Battery Spray Pump', 'बैटरी स्प्रे पंप', 27, 19),
+    ('Mixer', 'मिक्सर', 10, 20),
+    ('Induction stove', 'इंडक्शन स्टोव', 10, 21),
+    ('Ceiling Fan', 'सीलिंग फैन', 10, 22),
+    ('Smart Watch', 'स्मार्ट वॉच', 11, 23),
+    ('Gas Stove', 'गैस स्टोव', 27, 24),
+    ('Helmet', 'हेलमेट', 54, 25),
+    ('Silver Coin', 'सिल्वर कॉइन', 54, 26),
+    ('Wall Clock', 'वॉल क्लॉक', 108, 27),
+    ('Photo Frame', 'फोटो फ्रेम', 108, 28);
+
+-- Existing prizes get their Hindi name and order
+UPDATE prize_categories pc
+SET hindi_name = COALESCE(pc.hindi_name, op.hindi_name),
+    display_order = op.display_order
+FROM original_prizes op
+WHERE pc.category_name = op.category_name AND pc.display_order = 0;
+
+-- A new database gets the list for its first campaign (prizes deleted later are not brought back)
+INSERT INTO prize_categories (campaign_id, category_name, hindi_name, total_quantity, display_order)
+SELECT get_active_campaign_id(), category_name, hindi_name, total_quantity, display_order
+FROM original_prizes
+WHERE get_active_campaign_id() IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM prize_categories WHERE campaign_id = get_active_campaign_id())
+ON CONFLICT (campaign_id, category_name) DO NOTHING;
+
+DROP TABLE original_prizes;
+
+-- 4. Protect prizes that already have winners
+-- Winners store the prize name, so a won prize cannot be renamed, moved or deleted, and its
+-- quantity cannot drop below the number already won. Prizes of closed campaigns are read-only.
+CREATE OR REPLACE FUNCTION check_prize_category_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_campaign UUID;
+    won_count INTEGER;
+BEGIN
+    target_campaign := CASE WHEN TG_OP = 'DELETE' THEN OLD.campaign_id ELSE NEW.campaign_id END;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = target_campaign AND is_active) THEN
+        RAISE EXCEPTION 'Campaign % is closed and read-only', target_campaign;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COUNT(*) INTO won_count
+    FROM lottery_winners
+    WHERE campaign_id = OLD.campaign_id AND prize_category = OLD.category_name;
+
+    IF won_count > 0 THEN
+        IF TG_OP = 'DELETE' THEN
+            RAISE EXCEPTION 'Prize "%" already has % winner(s) and cannot be deleted', OLD.category_name, won_count;
+        END IF;
+
+        IF NEW.category_name IS DISTINCT FROM OLD.category_name OR NEW.campaign_id IS DISTINCT FROM OLD.campaign_id THEN
+            RAISE EXCEPTION 'Prize "%" already has winners and cannot be renamed', OLD.category_name;
+        END IF;
+
+        IF NEW.total_quantity < won_count THEN
+            RAISE EXCEPTION 'Prize "%" already has % winner(s); quantity cannot be less than that', OLD.category_name, won_count;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_prize_category_change ON prize_categories;
+CREATE TRIGGER check_prize_category_change
+BEFORE INSERT OR UPDATE OR DELETE ON prize_categories
+FOR EACH ROW
+EXECUTE FUNCTION check_prize_category_change();
+
+-- 5. Winner registration looks the prize up in the ticket's campaign
+CREATE OR REPLACE FUNCTION register_winner(
+    p_ticket_sale_id UUID,
+    p_prize_category TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_ticket ticket_sales%ROWTYPE;
+    v_prize prize_categories%ROWTYPE;
+    v_diary_number INTEGER;
+    v_existing lottery_winners%ROWTYPE;
+    v_used INTEGER;
+    v_winner lottery_winners%ROWTYPE;
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'message', 'Only admins and clerks can register winners'
+        );
+    END IF;
+
+    SELECT * INTO v_ticket FROM ticket_sales WHERE id = p_ticket_sale_id;
+
+    IF v_ticket.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'TICKET_NOT_FOUND',
+            'message', 'Ticket not found. Only sold tickets can win a prize.'
+        );
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = v_ticket.campaign_id AND is_active) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'CAMPAIGN_CLOSED',
+            'message', 'This ticket belongs to a closed campaign'
+        );
+    END IF;
+
+    IF LENGTH(TRIM(COALESCE(v_ticket.purchaser_name, ''))) = 0
+       OR LENGTH(TRIM(COALESCE(v_ticket.purchaser_contact, ''))) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'MISSING_WINNER_DETAILS',
+            'message', 'Ticket purchaser name or contact is missing. Update the ticket before registering the winner.'
+        );
+    END IF;
+
+    -- Lock the prize row: concurrent registrations for the same prize wait here
+    SELECT * INTO v_prize
+    FROM prize_categories
+    WHERE campaign_id = v_ticket.campaign_id AND category_name = TRIM(p_prize_category)
+    FOR UPDATE;
+
+    IF v_prize.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'PRIZE_NOT_FOUND',
+            'message', format('Prize category "%s" does not exist in this campaign', p_prize_category)
+        );
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM lottery_winners
+    WHERE campaign_id = v_ticket.campaign_id AND lottery_number = v_ticket.lottery_number;
+
+    IF v_existing.id IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'ALREADY_WON',
+            'message', format('Lottery number %s has already won %s', LPAD(v_ticket.lottery_number::TEXT, 5, '0'), v_existing.prize_category),
+            'existing_prize', v_existing.prize_category
+        );
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM lottery_winners
+    WHERE campaign_id = v_ticket.campaign_id AND prize_category = v_prize.category_name;
+
+    IF v_used >= v_prize.total_quantity THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'PRIZE_EXHAUSTED',
+            'message', format('All %s %s prizes have already been won', v_prize.total_quantity, v_prize.category_name),
+            'remaining', 0
+        );
+    END IF;
+
+    SELECT diary_number INTO v_diary_number FROM diaries WHERE id = v_ticket.diary_id;
+
+    INSERT INTO lottery_winners (
+        campaign_id,
+        lottery_number,
+        ticket_sale_id,
+        prize_category,
+        prize_quantity,
+        winner_name,
+        winner_contact,
+        winner_address,
+        diary_number,
+        registered_by,
+        notes
+    ) VALUES (
+        v_ticket.campaign_id,
+        v_ticket.lottery_number,
+        v_ticket.id,
+        v_prize.category_name,
+        v_prize.total_quantity,
+        TRIM(v_ticket.purchaser_name),
+        TRIM(v_ticket.purchaser_contact),
+        NULLIF(TRIM(COALESCE(v_ticket.purchaser_address, '')), ''),
+        v_diary_number,
+        auth.uid(),
+        NULLIF(TRIM(COALESCE(p_notes, '')), '')
+    )
+    RETURNING * INTO v_winner;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('%s won %s', v_winner.winner_name, v_winner.prize_category),
+        'winner', to_jsonb(v_winner),
+        'remaining', v_prize.total_quantity - v_used - 1
+    );
+EXCEPTION
+    -- Safety net for a winner inserted outside this function at the same moment
+    WHEN unique_violation THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'ALREADY_WON',
+            'message', format('Lottery number %s has already won a prize', LPAD(v_ticket.lottery_number::TEXT, 5, '0'))
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Moving a winner to another prize checks the prize of the winner's campaign
+CREATE OR REPLACE FUNCTION check_winner_prize_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_prize prize_categories%ROWTYPE;
+    v_used INTEGER;
+BEGIN
+    IF NEW.prize_category IS NOT DISTINCT FROM OLD.prize_category
+       AND NEW.campaign_id IS NOT DISTINCT FROM OLD.campaign_id THEN
+        RETURN NEW;
+    END IF;
+
+    -- Same lock as register_winner, so an edit and a registration cannot both take the last prize
+    SELECT * INTO v_prize
+    FROM prize_categories
+    WHERE campaign_id = NEW.campaign_id AND category_name = TRIM(NEW.prize_category)
+    FOR UPDATE;
+
+    IF v_prize.id IS NULL THEN
+        RAISE EXCEPTION 'Prize category "%" does not exist in this campaign', NEW.prize_category;
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM lottery_winners
+    WHERE campaign_id = NEW.campaign_id AND prize_category = v_prize.category_name AND id <> NEW.id;
+
+    IF v_used >= v_prize.total_quantity THEN
+        RAISE EXCEPTION 'All % % prizes have already been won', v_prize.total_quantity, v_prize.category_name;
+    END IF;
+
+    NEW.prize_category := v_prize.category_name;
+    NEW.prize_quantity := v_prize.total_quantity;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Prize images (public bucket, uploaded by admins)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('prize-images', 'prize-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Public can view prize images" ON storage.objects;
+CREATE POLICY "Public can view prize images" ON storage.objects
+  FOR SELECT USING (bucket_id = 'prize-images');
+
+DROP POLICY IF EXISTS "Admins can upload prize images" ON storage.objects;
+CREATE POLICY "Admins can upload prize images" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'prize-images' AND current_app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete prize images" ON storage.objects;
+CREATE POLICY "Admins can delete prize images" ON storage.objects
+  FOR DELETE USING (bucket_id = 'prize-images' AND current_app_role() = 'admin');
@@ -0,0 +1,188 @@
+-- Atomic Winner Registration
+-- Registers a winner in one transaction: the prize category row is locked (FOR UPDATE) so two
+-- operators cannot both take the last prize, the remaining quantity is checked against
+-- prize_categories, and the winner is inserted. Problems are returned as a structured result
+-- ({ success, error_code, message, ... }) instead of an exception so the UI can show them.
+-- Run this in Supabase SQL Editor after create_allotment_locks.sql
+
+CREATE OR REPLACE FUNCTION register_winner(
+    p_ticket_sale_id UUID,
+    p_prize_category TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_ticket ticket_sales%ROWTYPE;
+    v_prize prize_categories%ROWTYPE;
+    v_diary_number INTEGER;
+    v_existing lottery_winners%ROWTYPE;
+    v_used INTEGER;
+    v_winner lottery_winners%ROWTYPE;
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'message', 'Only admins and clerks can register winners'
+        );
+    END IF;
+
+    SELECT * INTO v_ticket FROM ticket_sales WHERE id = p_ticket_sale_id;
+
+    IF v_ticket.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'TICKET_NOT_FOUND',
+            'message', 'Ticket not found. Only sold tickets can win a prize.'
+        );
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = v_ticket.campaign_id AND is_active) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'CAMPAIGN_CLOSED',
+            'message', 'This ticket belongs to a closed campaign'
+        );
+    END IF;
+
+    IF LENGTH(TRIM(COALESCE(v_ticket.purchaser_name, ''))) = 0
+       OR LENGTH(TRIM(COALESCE(v_ticket.purchaser_contact, ''))) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'MISSING_WINNER_DETAILS',
+            'message', 'Ticket purchaser name or contact is missing. Update the ticket before registering the winner.'
+        );
+    END IF;
+
+    -- Lock the prize row: concurrent registrations for the same prize wait here
+    SELECT * INTO v_prize
+    FROM prize_categories
+    WHERE category_name = TRIM(p_prize_category)
+    FOR UPDATE;
+
+    IF v_prize.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'PRIZE_NOT_FOUND',
+            'message', format('Prize category "%s" does not exist', p_prize_category)
+        );
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM lottery_winners
+    WHERE campaign_id = v_ticket.campaign_id AND lottery_number = v_ticket.lottery_number;
+
+    IF v_existing.id IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'ALREADY_WON',
+            'message', format('Lottery number %s has already won %s', LPAD(v_ticket.lottery_number::TEXT, 5, '0'), v_existing.prize_category),
+            'existing_prize', v_existing.prize_category
+        );
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM lottery_winners
+    WHERE campaign_id = v_ticket.campaign_id AND prize_category = v_prize.category_name;
+
+    IF v_used >= v_prize.total_quantity THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'PRIZE_EXHAUSTED',
+            'message', format('All %s %s prizes have already been won', v_prize.total_quantity, v_prize.category_name),
+            'remaining', 0
+        );
+    END IF;
+
+    SELECT diary_number INTO v_diary_number FROM diaries WHERE id = v_ticket.diary_id;
+
+    INSERT INTO lottery_winners (
+        campaign_id,
+        lottery_number,
+        ticket_sale_id,
+        prize_category,
+        prize_quantity,
+        winner_name,
+        winner_contact,
+        winner_address,
+        diary_number,
+        registered_by,
+        notes
+    ) VALUES (
+        v_ticket.campaign_id,
+        v_ticket.lottery_number,
+        v_ticket.id,
+        v_prize.category_name,
+        v_prize.total_quantity,
+        TRIM(v_ticket.purchaser_name),
+        TRIM(v_ticket.purchaser_contact),
+        NULLIF(TRIM(COALESCE(v_ticket.purchaser_address, '')), ''),
+        v_diary_number,
+        auth.uid(),
+        NULLIF(TRIM(COALESCE(p_notes, '')), '')
+    )
+    RETURNING * INTO v_winner;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('%s won %s', v_winner.winner_name, v_winner.prize_category),
+        'winner', to_jsonb(v_winner),
+        'remaining', v_prize.total_quantity - v_used - 1
+    );
+EXCEPTION
+    -- Safety net for a winner inserted outside this function at the same moment
+    WHEN unique_violation THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error_code', 'ALREADY_WON',
+            'message', format('Lottery number %s has already won a prize', LPAD(v_ticket.lottery_number::TEXT, 5, '0'))
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION register_winner(UUID, TEXT, TEXT) TO authenticated;
+
+-- Winners are only added through register_winner, so the quantity check cannot be bypassed
+DROP POLICY IF EXISTS "Clerks can register lottery_winners" ON lottery_winners;
+
+-- Moving a winner to another prize goes through the same quantity check
+CREATE OR REPLACE FUNCTION check_winner_prize_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_prize prize_categories%ROWTYPE;
+    v_used INTEGER;
+BEGIN
+    IF NEW.prize_category IS NOT DISTINCT FROM OLD.prize_category
+       AND NEW.campaign_id IS NOT DISTINCT FROM OLD.campaign_id THEN
+        RETURN NEW;
+    END IF;
+
+    -- Same lock as register_winner, so an edit and a registration cannot both take the last prize
+    SELECT * INTO v_prize
+    FROM prize_categories
+    WHERE category_name = TRIM(NEW.prize_category)
+    FOR UPDATE;
+
+    IF v_prize.id IS NULL THEN
+        RAISE EXCEPTION 'Prize category "%" does not exist', NEW.prize_category;
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM lottery_winners
+    WHERE campaign_id = NEW.campaign_id AND prize_category = v_prize.category_name AND id <> NEW.id;
+
+    IF v_used >= v_prize.total_quantity THEN
+        RAISE EXCEPTION 'All % % prizes have already been won', v_prize.total_quantity, v_prize.category_name;
+    END IF;
+
+    NEW.prize_category := v_prize.category_name;
+    NEW.prize_quantity := v_prize.total_quantity;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_lottery_winner_prize_change ON lottery_winners;
+CREATE TRIGGER check_lottery_winner_prize_change
+BEFORE UPDATE OF prize_category, campaign_id ON lottery_winners
+FOR EACH ROW
+EXECUTE FUNCTION check_winner_prize_change();
@@ -0,0 +1,76 @@
+-- Restore Deleted Records
+-- Deleted tickets, allotments, issuers and winners can be restored by an admin from the
+-- audit trail: the row is re-inserted from audit_logs.old_values with its original id, so
+-- everything that pointed at it lines up again.
+-- Run this in Supabase SQL Editor after create_audit_users.sql
+
+CREATE OR REPLACE FUNCTION restore_deleted_record(p_audit_log_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_log audit_logs%ROWTYPE;
+    v_columns TEXT;
+    v_won INTEGER;
+    v_quantity INTEGER;
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can restore deleted records';
+    END IF;
+
+    SELECT * INTO v_log FROM audit_logs WHERE id = p_audit_log_id;
+
+    IF v_log.id IS NULL OR v_log.action != 'DELETE' OR v_log.old_values IS NULL THEN
+        RAISE EXCEPTION 'Audit entry % is not a deletion', p_audit_log_id;
+    END IF;
+
+    IF v_log.table_name NOT IN ('ticket_sales', 'diary_allotments', 'issuers', 'lottery_winners') THEN
+        RAISE EXCEPTION 'Records from % cannot be restored', v_log.table_name;
+    END IF;
+
+    IF v_log.table_name = 'lottery_winners' THEN
+        -- A replacement winner may have been drawn for the prize in the meantime
+        SELECT COUNT(*) INTO v_won
+        FROM lottery_winners
+        WHERE campaign_id = (v_log.old_values ->> 'campaign_id')::UUID
+          AND prize_category = v_log.old_values ->> 'prize_category';
+
+        SELECT total_quantity INTO v_quantity
+        FROM prize_categories
+        WHERE campaign_id = (v_log.old_values ->> 'campaign_id')::UUID
+          AND category_name = v_log.old_values ->> 'prize_category';
+
+        IF v_quantity IS NOT NULL AND v_won >= v_quantity THEN
+            RAISE EXCEPTION 'All % prizes have been won since this winner was deleted', v_log.old_values ->> 'prize_category';
+        END IF;
+    END IF;
+
+    -- Only the columns that were saved (older entries predate some columns, which keep their defaults)
+    SELECT string_agg(quote_ident(column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_log.table_name
+      AND is_generated = 'NEVER'
+      AND v_log.old_values ? column_name;
+
+    -- A returned allotment comes back returned; only the return functions may otherwise insert one
+    IF v_log.table_name = 'diary_allotments' THEN
+        PERFORM set_config('app.diary_return', 'on', true);
+    END IF;
+
+    BEGIN
+        EXECUTE format(
+            'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1)',
+            v_log.table_name, v_columns, v_columns, v_log.table_name
+        ) USING v_log.old_values;
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'This record (or another one with the same lottery number) already exists';
+        WHEN foreign_key_violation THEN
+            RAISE EXCEPTION 'A related record (issuer, diary or ticket) no longer exists. Restore it first.';
+    END;
+
+    PERFORM set_config('app.diary_return', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION restore_deleted_record(UUID) TO authenticated;
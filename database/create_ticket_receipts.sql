@@ -0,0 +1,103 @@
+-- Ticket Receipts
+-- Every ticket sale gets a receipt number, sequential within its campaign, that is printed on
+-- the purchaser's donation receipt. Numbers are assigned by the database when the ticket is
+-- entered and never change; a restored ticket keeps its original number. The last number
+-- used is kept per campaign in ticket_receipt_counters, so the number of a deleted ticket is
+-- never handed out again.
+-- Run this in Supabase SQL Editor after create_allotment_payments.sql
+
+-- 1. Receipt number column
+ALTER TABLE ticket_sales ADD COLUMN IF NOT EXISTS receipt_number INTEGER;
+
+-- 2. Number the existing tickets in the order they were entered (including closed campaigns)
+ALTER TABLE ticket_sales DISABLE TRIGGER assign_ticket_sale_campaign;
+
+WITH numbered AS (
+    SELECT id,
+           COALESCE((SELECT MAX(receipt_number) FROM ticket_sales t2 WHERE t2.campaign_id = t.campaign_id), 0)
+             + ROW_NUMBER() OVER (PARTITION BY campaign_id ORDER BY created_at, lottery_number) AS receipt_number
+    FROM ticket_sales t
+    WHERE receipt_number IS NULL
+)
+UPDATE ticket_sales t
+SET receipt_number = numbered.receipt_number
+FROM numbered
+WHERE numbered.id = t.id;
+
+ALTER TABLE ticket_sales ENABLE TRIGGER assign_ticket_sale_campaign;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_sales_campaign_receipt_number
+    ON ticket_sales(campaign_id, receipt_number);
+
+-- 3. Last receipt number used per campaign
+-- Only the trigger below writes it, so no policies are needed.
+CREATE TABLE IF NOT EXISTS ticket_receipt_counters (
+    campaign_id UUID PRIMARY KEY REFERENCES campaigns(id) ON DELETE CASCADE,
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE ticket_receipt_counters ENABLE ROW LEVEL SECURITY;
+
+-- Start after every number already printed, including those of deleted tickets
+INSERT INTO ticket_receipt_counters (campaign_id, last_number)
+SELECT campaign_id, MAX(receipt_number)
+FROM (
+    SELECT campaign_id, receipt_number FROM ticket_sales
+    UNION ALL
+    SELECT (old_values ->> 'campaign_id')::UUID, (old_values ->> 'receipt_number')::INTEGER
+    FROM audit_logs
+    WHERE table_name = 'ticket_sales' AND action = 'DELETE' AND old_values ? 'receipt_number'
+) used
+WHERE campaign_id IS NOT NULL AND receipt_number IS NOT NULL
+  AND EXISTS (SELECT 1 FROM campaigns c WHERE c.id = used.campaign_id)
+GROUP BY campaign_id
+ON CONFLICT (campaign_id) DO UPDATE
+SET last_number = GREATEST(ticket_receipt_counters.last_number, EXCLUDED.last_number);
+
+-- 4. Assign the next number on insert
+-- The counter row is locked by the UPDATE, so concurrent inserts of one campaign take turns.
+CREATE OR REPLACE FUNCTION assign_ticket_receipt_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO ticket_receipt_counters (campaign_id)
+    VALUES (NEW.campaign_id)
+    ON CONFLICT (campaign_id) DO NOTHING;
+
+    IF NEW.receipt_number IS NULL THEN
+        UPDATE ticket_receipt_counters
+        SET last_number = last_number + 1
+        WHERE campaign_id = NEW.campaign_id
+        RETURNING last_number INTO NEW.receipt_number;
+    ELSE
+        -- A restored ticket keeps its number; the counter never falls behind it
+        UPDATE ticket_receipt_counters
+        SET last_number = GREATEST(last_number, NEW.receipt_number)
+        WHERE campaign_id = NEW.campaign_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to run after assign_ticket_sale_campaign, which sets campaign_id
+DROP TRIGGER IF EXISTS set_ticket_receipt_number ON ticket_sales;
+CREATE TRIGGER set_ticket_receipt_number
+BEFORE INSERT ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION assign_ticket_receipt_number();
+
+-- 5. Receipt numbers are permanent
+CREATE OR REPLACE FUNCTION keep_ticket_receipt_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.receipt_number IS DISTINCT FROM OLD.receipt_number THEN
+        RAISE EXCEPTION 'The receipt number of a ticket cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_ticket_receipt_number ON ticket_sales;
+CREATE TRIGGER keep_ticket_receipt_number
+BEFORE UPDATE OF receipt_number ON ticket_sales
+FOR EACH ROW
+EXECUTE FUNCTION keep_ticket_receipt_number();
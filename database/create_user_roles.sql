@@ -0,0 +1,237 @@
+-- Role-Based Access Control
+-- Every login gets one role:
+--   admin  - full access, including deletes, campaigns and user roles
+--   clerk  - data entry: add and edit tickets, allotments, issuers and winners (no deletes)
+--   issuer - sees only their own allotments and ticket sales (linked via issuer_id)
+--   viewer - read-only, Dashboard totals only (no purchaser, issuer or allotment rows)
+-- New logins have no role until an admin gives them one.
+-- Replaces the "any authenticated user can do anything" policies from setup_auth_user.sql.
+-- Run this in Supabase SQL Editor after create_campaign_isolation.sql
+
+-- 1. Roles table
+DO $$ BEGIN
+    CREATE TYPE app_role AS ENUM ('admin', 'clerk', 'issuer', 'viewer');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    -- NULL until an admin grants access
+    role app_role,
+    -- Only used for the issuer role; deleting the issuer removes the login's role with it
+    issuer_id UUID REFERENCES issuers(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT user_roles_issuer_link CHECK (role != 'issuer' OR issuer_id IS NOT NULL)
+);
+
+-- Was ON DELETE SET NULL, which the issuer link check rejects when an issuer with a login is deleted
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_issuer_id_fkey;
+ALTER TABLE user_roles
+    ADD CONSTRAINT user_roles_issuer_id_fkey
+    FOREIGN KEY (issuer_id) REFERENCES issuers(id) ON DELETE CASCADE;
+
+-- Was NOT NULL DEFAULT 'viewer', which let anyone who signed up read the dashboard
+ALTER TABLE user_roles ALTER COLUMN role DROP NOT NULL;
+ALTER TABLE user_roles ALTER COLUMN role DROP DEFAULT;
+
+DROP TRIGGER IF EXISTS update_user_roles_updated_at ON user_roles;
+CREATE TRIGGER update_user_roles_updated_at BEFORE UPDATE ON user_roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Existing logins keep full access; new logins wait for an admin to give them a role
+INSERT INTO user_roles (user_id, email, role)
+SELECT id, email, 'admin' FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.user_roles (user_id, email, role)
+    VALUES (NEW.id, NEW.email, NULL)
+    ON CONFLICT (user_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION handle_new_auth_user();
+
+-- 3. Role helpers used by the policies (SECURITY DEFINER so they can read user_roles)
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS app_role AS $$
+    SELECT role FROM public.user_roles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_issuer_id()
+RETURNS UUID AS $$
+    SELECT issuer_id FROM public.user_roles WHERE user_id = auth.uid() AND role = 'issuer';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. Replace the blanket policies
+DROP POLICY IF EXISTS "Allow authenticated users to access ticket_sales" ON ticket_sales;
+DROP POLICY IF EXISTS "Allow authenticated users to access diary_allotments" ON diary_allotments;
+DROP POLICY IF EXISTS "Allow authenticated users to access issuers" ON issuers;
+DROP POLICY IF EXISTS "Allow authenticated users to access diaries" ON diaries;
+DROP POLICY IF EXISTS "Allow authenticated users to access audit_logs" ON audit_logs;
+DROP POLICY IF EXISTS "Allow authenticated users to access campaigns" ON campaigns;
+
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lottery_winners ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prize_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Ticket Sales (viewers only see the totals, through get_dashboard_stats)
+DROP POLICY IF EXISTS "Staff can read ticket_sales" ON ticket_sales;
+CREATE POLICY "Staff can read ticket_sales" ON ticket_sales
+  FOR SELECT USING (
+    current_app_role() IN ('admin', 'clerk')
+    OR (current_app_role() = 'issuer' AND issuer_id = current_issuer_id())
+  );
+
+DROP POLICY IF EXISTS "Clerks can add ticket_sales" ON ticket_sales;
+CREATE POLICY "Clerks can add ticket_sales" ON ticket_sales
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can edit ticket_sales" ON ticket_sales;
+CREATE POLICY "Clerks can edit ticket_sales" ON ticket_sales
+  FOR UPDATE USING (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Admins can delete ticket_sales" ON ticket_sales;
+CREATE POLICY "Admins can delete ticket_sales" ON ticket_sales
+  FOR DELETE USING (current_app_role() = 'admin');
+
+-- Diary Allotments
+DROP POLICY IF EXISTS "Staff can read diary_allotments" ON diary_allotments;
+CREATE POLICY "Staff can read diary_allotments" ON diary_allotments
+  FOR SELECT USING (
+    current_app_role() IN ('admin', 'clerk')
+    OR (current_app_role() = 'issuer' AND issuer_id = current_issuer_id())
+  );
+
+DROP POLICY IF EXISTS "Clerks can add diary_allotments" ON diary_allotments;
+CREATE POLICY "Clerks can add diary_allotments" ON diary_allotments
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can edit diary_allotments" ON diary_allotments;
+CREATE POLICY "Clerks can edit diary_allotments" ON diary_allotments
+  FOR UPDATE USING (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Admins can delete diary_allotments" ON diary_allotments;
+CREATE POLICY "Admins can delete diary_allotments" ON diary_allotments
+  FOR DELETE USING (current_app_role() = 'admin');
+
+-- Issuers
+DROP POLICY IF EXISTS "Staff can read issuers" ON issuers;
+CREATE POLICY "Staff can read issuers" ON issuers
+  FOR SELECT USING (
+    current_app_role() IN ('admin', 'clerk')
+    OR (current_app_role() = 'issuer' AND id = current_issuer_id())
+  );
+
+DROP POLICY IF EXISTS "Clerks can add issuers" ON issuers;
+CREATE POLICY "Clerks can add issuers" ON issuers
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can edit issuers" ON issuers;
+CREATE POLICY "Clerks can edit issuers" ON issuers
+  FOR UPDATE USING (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Admins can delete issuers" ON issuers;
+CREATE POLICY "Admins can delete issuers" ON issuers
+  FOR DELETE USING (current_app_role() = 'admin');
+
+-- Diaries (generated per campaign, so only read access is needed)
+DROP POLICY IF EXISTS "Users with a role can read diaries" ON diaries;
+CREATE POLICY "Users with a role can read diaries" ON diaries
+  FOR SELECT USING (current_app_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can manage diaries" ON diaries;
+CREATE POLICY "Admins can manage diaries" ON diaries
+  FOR ALL USING (current_app_role() = 'admin');
+
+-- Lottery Winners (the public winners page reads without logging in)
+DROP POLICY IF EXISTS "Allow public read access to lottery_winners" ON lottery_winners;
+CREATE POLICY "Allow public read access to lottery_winners" ON lottery_winners
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Clerks can register lottery_winners" ON lottery_winners;
+CREATE POLICY "Clerks can register lottery_winners" ON lottery_winners
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Clerks can edit lottery_winners" ON lottery_winners;
+CREATE POLICY "Clerks can edit lottery_winners" ON lottery_winners
+  FOR UPDATE USING (current_app_role() IN ('admin', 'clerk'));
+
+DROP POLICY IF EXISTS "Admins can delete lottery_winners" ON lottery_winners;
+CREATE POLICY "Admins can delete lottery_winners" ON lottery_winners
+  FOR DELETE USING (current_app_role() = 'admin');
+
+-- Prize Categories
+DROP POLICY IF EXISTS "Allow public read access to prize_categories" ON prize_categories;
+CREATE POLICY "Allow public read access to prize_categories" ON prize_categories
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage prize_categories" ON prize_categories;
+CREATE POLICY "Admins can manage prize_categories" ON prize_categories
+  FOR ALL USING (current_app_role() = 'admin');
+
+-- Campaigns (public read access was added in create_campaign_isolation.sql)
+DROP POLICY IF EXISTS "Admins can manage campaigns" ON campaigns;
+CREATE POLICY "Admins can manage campaigns" ON campaigns
+  FOR ALL USING (current_app_role() = 'admin');
+
+-- Audit Logs (written by the audit triggers on behalf of clerks and admins)
+DROP POLICY IF EXISTS "Admins can read audit_logs" ON audit_logs;
+CREATE POLICY "Admins can read audit_logs" ON audit_logs
+  FOR SELECT USING (current_app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Clerks can write audit_logs" ON audit_logs;
+CREATE POLICY "Clerks can write audit_logs" ON audit_logs
+  FOR INSERT WITH CHECK (current_app_role() IN ('admin', 'clerk'));
+
+-- User Roles
+DROP POLICY IF EXISTS "Users can read their own role" ON user_roles;
+CREATE POLICY "Users can read their own role" ON user_roles
+  FOR SELECT USING (user_id = auth.uid() OR current_app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can manage user_roles" ON user_roles;
+CREATE POLICY "Admins can manage user_roles" ON user_roles
+  FOR ALL USING (current_app_role() = 'admin');
+
+-- 5. Campaign switching is an admin action
+CREATE OR REPLACE FUNCTION set_active_campaign(p_campaign_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF current_app_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can change the active campaign';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM campaigns WHERE id = p_campaign_id) THEN
+        RAISE EXCEPTION 'Campaign % not found', p_campaign_id;
+    END IF;
+
+    UPDATE campaigns SET is_active = FALSE WHERE is_active AND id != p_campaign_id;
+    UPDATE campaigns SET is_active = TRUE WHERE id = p_campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Dashboard totals for every staff role
+-- dashboard_stats applies the reader's RLS, and viewers cannot read the rows behind it, so the
+-- totals are read here as the function owner.
+CREATE OR REPLACE FUNCTION get_dashboard_stats(p_campaign_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+    IF COALESCE(current_app_role()::TEXT, '') NOT IN ('admin', 'clerk', 'viewer') THEN
+        RAISE EXCEPTION 'Only staff can read the dashboard';
+    END IF;
+
+    RETURN (SELECT to_jsonb(s) FROM dashboard_stats s WHERE s.campaign_id = p_campaign_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_stats(UUID) TO authenticated;
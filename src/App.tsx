@@ -1,7 +1,8 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
-import { AuthProvider } from './contexts/AuthContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { CampaignProvider } from './contexts/CampaignContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
@@ -9,7 +10,26 @@ import TicketSales from './pages/TicketSales';
 import DiaryManagement from './pages/DiaryManagement';
 import Search from './pages/Search';
 import Winners from './pages/Winners';
+import Draw from './pages/Draw';
+import Presenter from './pages/Presenter';
 import PublicWinners from './pages/PublicWinners';
+import Prizes from './pages/Prizes';
+import Campaigns from './pages/Campaigns';
+import Users from './pages/Users';
+import Audit from './pages/Audit';
+import RecentlyDeleted from './pages/RecentlyDeleted';
+import Certificates from './pages/Certificates';
+import Devotees from './pages/Devotees';
+import DevoteeProfile from './pages/DevoteeProfile';
+import IssuerPortal from './pages/IssuerPortal';
+import DuesAgeing from './pages/DuesAgeing';
+import { STAFF_ROLES } from './lib/supabase';
+
+// Issuer logins land on their own portal instead of the campaign dashboard
+const Home: React.FC = () => {
+  const { hasRole } = useAuth();
+  return hasRole('issuer') ? <Navigate to="/portal" replace /> : <Dashboard />;
+};
 
 function App() {
   return (
@@ -25,15 +45,29 @@ function App() {
               path="/*"
               element={
                 <ProtectedRoute>
-                  <Layout>
-                    <Routes>
-                      <Route path="/" element={<Dashboard />} />
-                      <Route path="/tickets" element={<TicketSales />} />
-                      <Route path="/diaries" element={<DiaryManagement />} />
-                      <Route path="/search" element={<Search />} />
-                      <Route path="/winners" element={<Winners />} />
-                    </Routes>
-                  </Layout>
+                  <CampaignProvider>
+                    <Layout>
+                      <Routes>
+                        <Route path="/" element={<Home />} />
+                        <Route path="/portal" element={<ProtectedRoute roles={['issuer']}><IssuerPortal /></ProtectedRoute>} />
+                        <Route path="/tickets" element={<ProtectedRoute roles={STAFF_ROLES}><TicketSales /></ProtectedRoute>} />
+                        <Route path="/diaries" element={<ProtectedRoute roles={STAFF_ROLES}><DiaryManagement /></ProtectedRoute>} />
+                        <Route path="/dues" element={<ProtectedRoute roles={['admin', 'clerk']}><DuesAgeing /></ProtectedRoute>} />
+                        <Route path="/search" element={<ProtectedRoute roles={STAFF_ROLES}><Search /></ProtectedRoute>} />
+                        <Route path="/draw" element={<ProtectedRoute roles={STAFF_ROLES}><Draw /></ProtectedRoute>} />
+                        <Route path="/presenter" element={<ProtectedRoute roles={STAFF_ROLES}><Presenter /></ProtectedRoute>} />
+                        <Route path="/winners" element={<ProtectedRoute roles={STAFF_ROLES}><Winners /></ProtectedRoute>} />
+                        <Route path="/certificates" element={<ProtectedRoute roles={STAFF_ROLES}><Certificates /></ProtectedRoute>} />
+                        <Route path="/devotees" element={<ProtectedRoute roles={STAFF_ROLES}><Devotees /></ProtectedRoute>} />
+                        <Route path="/devotees/:id" element={<ProtectedRoute roles={STAFF_ROLES}><DevoteeProfile /></ProtectedRoute>} />
+                        <Route path="/prizes" element={<ProtectedRoute roles={['admin']}><Prizes /></ProtectedRoute>} />
+                        <Route path="/campaigns" element={<ProtectedRoute roles={['admin']}><Campaigns /></ProtectedRoute>} />
+                        <Route path="/users" element={<ProtectedRoute roles={['admin']}><Users /></ProtectedRoute>} />
+                        <Route path="/audit" element={<ProtectedRoute roles={['admin']}><Audit /></ProtectedRoute>} />
+                        <Route path="/deleted" element={<ProtectedRoute roles={['admin']}><RecentlyDeleted /></ProtectedRoute>} />
+                      </Routes>
+                    </Layout>
+                  </CampaignProvider>
                 </ProtectedRoute>
               }
             />
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { supabase, DiaryAllotment, AllotmentPayment, PaymentMode, PAYMENT_MODES, getAllotmentExpectedAmount } from '../lib/supabase';
+import { useCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Wallet,
+  Plus,
+  Trash2,
+  X,
+  Lock
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AllotmentPaymentsProps {
+  allotment: DiaryAllotment;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface PaymentFormData {
+  amount: number;
+  payment_date: string;
+  payment_mode: PaymentMode;
+  receipt_number: string;
+  received_by: string;
+  notes: string;
+}
+
+// Payment ledger of one allotment. The database adds the payments up into amount_collected
+// and marks the allotment paid once they reach its expected amount (for a returned diary, the
+// amount due for the tickets sold before the return).
+const AllotmentPayments: React.FC<AllotmentPaymentsProps> = ({ allotment, onClose, onChanged }) => {
+  const { isReadOnly } = useCampaign();
+  const { user, hasRole } = useAuth();
+  const [payments, setPayments] = useState<AllotmentPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const expectedAmount = getAllotmentExpectedAmount(allotment);
+  const collected = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const outstanding = Math.max(0, expectedAmount - collected);
+  // Locked (e.g. paid) allotments need an admin unlock before payments can be corrected
+  const canAdd = !isReadOnly && !allotment.is_locked && hasRole('admin', 'clerk');
+  const canDelete = !isReadOnly && !allotment.is_locked && hasRole('admin');
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<PaymentFormData>();
+
+  useEffect(() => {
+    fetchPayments();
+  }, [allotment.id]);
+
+  const resetForm = (remaining: number) => {
+    reset({
+      amount: remaining,
+      payment_date: new Date().toISOString().split('T')[0],
+      payment_mode: 'cash',
+      receipt_number: '',
+      received_by: user?.email || '',
+      notes: '',
+    });
+  };
+
+  const fetchPayments = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('allotment_payments')
+        .select('*')
+        .eq('allotment_id', allotment.id)
+        .order('payment_date')
+        .order('created_at');
+
+      if (error) throw error;
+      setPayments(data || []);
+      resetForm(Math.max(0, expectedAmount - (data || []).reduce((sum, payment) => sum + Number(payment.amount), 0)));
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      toast.error('Failed to fetch payments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSubmit = async (data: PaymentFormData) => {
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('allotment_payments')
+        .insert([{
+          allotment_id: allotment.id,
+          amount: Number(data.amount),
+          payment_date: data.payment_date,
+          payment_mode: data.payment_mode,
+          receipt_number: data.receipt_number.trim() || null,
+          received_by: data.received_by.trim(),
+          notes: data.notes.trim() || null,
+        }]);
+
+      if (error) throw error;
+
+      const newCollected = collected + Number(data.amount);
+      if (newCollected < expectedAmount) {
+        toast.success(`Payment recorded - ₹${(expectedAmount - newCollected).toLocaleString()} outstanding`);
+      } else {
+        // Returned diaries stay returned once their sold tickets are paid for
+        toast.success(allotment.status === 'returned'
+          ? 'Payment recorded - returned diary is settled'
+          : 'Payment recorded - diary is fully paid and locked');
+      }
+      fetchPayments();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      if (error.code === '23505') {
+        toast.error('This receipt number is already used');
+      } else {
+        toast.error(`Failed to record payment: ${error?.message || 'Unknown error'}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: AllotmentPayment) => {
+    if (!window.confirm(`Delete the payment of ₹${Number(payment.amount).toLocaleString()} from ${new Date(payment.payment_date).toLocaleDateString('en-IN')}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('allotment_payments')
+        .delete()
+        .eq('id', payment.id);
+
+      if (error) throw error;
+      toast.success('Payment deleted');
+      fetchPayments();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error deleting payment:', error);
+      toast.error(`Failed to delete payment: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  const getModeLabel = (mode: PaymentMode) => PAYMENT_MODES.find(m => m.value === mode)?.label || mode;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Wallet className="h-5 w-5 mr-2" />
+                Payments - Diary {allotment.diary?.diary_number} ({allotment.issuer?.issuer_name})
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div className="bg-secondary-50 rounded-lg p-3">
+                <p className="text-sm text-secondary-600">Expected</p>
+                <p className="text-xl font-bold text-secondary-900">₹{expectedAmount.toLocaleString()}</p>
+              </div>
+              <div className="bg-success-50 rounded-lg p-3">
+                <p className="text-sm text-secondary-600">Collected</p>
+                <p className="text-xl font-bold text-success-700">₹{collected.toLocaleString()}</p>
+              </div>
+              <div className={`${outstanding > 0 ? 'bg-warning-50' : 'bg-success-50'} rounded-lg p-3`}>
+                <p className="text-sm text-secondary-600">Outstanding</p>
+                <p className={`text-xl font-bold ${outstanding > 0 ? 'text-warning-700' : 'text-success-700'}`}>
+                  ₹{outstanding.toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : payments.length > 0 ? (
+              <div className="overflow-x-auto mb-4">
+                <table className="table">
+                  <thead className="table-header">
+                    <tr>
+                      <th className="table-header-cell">Date</th>
+                      <th className="table-header-cell">Amount</th>
+                      <th className="table-header-cell">Mode</th>
+                      <th className="table-header-cell">Receipt No.</th>
+                      <th className="table-header-cell">Received By</th>
+                      <th className="table-header-cell">Notes</th>
+                      {canDelete && <th className="table-header-cell"></th>}
+                    </tr>
+                  </thead>
+                  <tbody className="table-body">
+                    {payments.map((payment) => (
+                      <tr key={payment.id} className="table-row">
+                        <td className="table-cell whitespace-nowrap">{new Date(payment.payment_date).toLocaleDateString('en-IN')}</td>
+                        <td className="table-cell font-medium">₹{Number(payment.amount).toLocaleString()}</td>
+                        <td className="table-cell">{getModeLabel(payment.payment_mode)}</td>
+                        <td className="table-cell font-mono">{payment.receipt_number || '-'}</td>
+                        <td className="table-cell">{payment.received_by}</td>
+                        <td className="table-cell text-sm text-secondary-600">{payment.notes || '-'}</td>
+                        {canDelete && (
+                          <td className="table-cell">
+                            <button
+                              onClick={() => handleDelete(payment)}
+                              className="text-danger-600 hover:text-danger-800"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-secondary-500 mb-4">No payments recorded yet.</p>
+            )}
+
+            {allotment.is_locked && (
+              <p className="text-sm text-warning-700 flex items-center">
+                <Lock className="h-4 w-4 mr-1" />
+                This allotment is locked. An admin must unlock it before payments can be changed.
+              </p>
+            )}
+
+            {canAdd && (
+              <form onSubmit={handleSubmit(onSubmit)} className="border-t border-secondary-200 pt-4">
+                <h4 className="text-sm font-medium text-secondary-900 mb-3">Record Payment</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Amount (₹) *
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      {...register('amount', {
+                        required: 'Amount is required',
+                        min: { value: 0.01, message: 'Amount must be positive' }
+                      })}
+                      className="input"
+                    />
+                    {errors.amount && (
+                      <p className="mt-1 text-sm text-danger-600">{errors.amount.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Date *
+                    </label>
+                    <input
+                      type="date"
+                      {...register('payment_date', { required: 'Date is required' })}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Mode *
+                    </label>
+                    <select {...register('payment_mode')} className="input">
+                      {PAYMENT_MODES.map((mode) => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Receipt No.
+                    </label>
+                    <input
+                      type="text"
+                      {...register('receipt_number')}
+                      className="input"
+                      placeholder="e.g. R-0042"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Received By *
+                    </label>
+                    <input
+                      type="text"
+                      {...register('received_by', { required: 'Received by is required' })}
+                      className="input"
+                    />
+                    {errors.received_by && (
+                      <p className="mt-1 text-sm text-danger-600">{errors.received_by.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Notes
+                    </label>
+                    <input
+                      type="text"
+                      {...register('notes')}
+                      className="input"
+                    />
+                  </div>
+                </div>
+                <div className="mt-4 flex justify-end">
+                  <button type="submit" disabled={saving} className="btn btn-primary">
+                    <Plus className="h-4 w-4 mr-2" />
+                    {saving ? 'Saving...' : 'Record Payment'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AllotmentPayments;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AuditLog } from '../lib/supabase';
+import { getAuditChanges, formatAuditValue } from '../lib/audit';
+
+// Field-level diff of one audit entry
+const AuditChanges: React.FC<{ log: AuditLog }> = ({ log }) => {
+  const changes = getAuditChanges(log);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-secondary-500">No field changes</p>;
+  }
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-secondary-500 uppercase">
+          <th className="py-1 pr-4 font-medium">Field</th>
+          {log.action !== 'INSERT' && <th className="py-1 pr-4 font-medium">{log.action === 'DELETE' ? 'Value' : 'Before'}</th>}
+          {log.action !== 'DELETE' && <th className="py-1 font-medium">{log.action === 'INSERT' ? 'Value' : 'After'}</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="align-top">
+            <td className="py-1 pr-4 font-mono text-xs text-secondary-700">{change.field}</td>
+            {log.action !== 'INSERT' && (
+              <td className={`py-1 pr-4 break-all ${log.action === 'UPDATE' ? 'text-danger-700 line-through' : 'text-secondary-900'}`}>
+                {formatAuditValue(change.oldValue)}
+              </td>
+            )}
+            {log.action !== 'DELETE' && (
+              <td className={`py-1 break-all ${log.action === 'UPDATE' ? 'text-success-700' : 'text-secondary-900'}`}>
+                {formatAuditValue(change.newValue)}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default AuditChanges;
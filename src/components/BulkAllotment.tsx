@@ -0,0 +1,340 @@
+import React, { useState } from 'react';
+import { supabase, DiaryAllotment, Diary, Issuer, formatLotteryNumber, getTotalDiaries } from '../lib/supabase';
+import { parseDiaryNumbers, formatDiaryNumbers, downloadAllotmentSlip } from '../lib/bulkAllotment';
+import { useSelectedCampaign } from '../contexts/CampaignContext';
+import {
+  Layers,
+  Eye,
+  CheckCircle,
+  AlertCircle,
+  Download,
+  X
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface BulkAllotmentProps {
+  issuers: Issuer[];
+  onClose: () => void;
+  onAllotted: () => void;
+}
+
+interface PreviewRow {
+  diaryNumber: number;
+  diary?: Diary;
+  // Active allotment of the diary, if any
+  allotment?: DiaryAllotment;
+}
+
+// Allot a range or list of diaries ("501-530, 545") to one issuer. The preview shows which
+// diaries are free; only those are allotted, and the issuer signs the allotment slip.
+const BulkAllotment: React.FC<BulkAllotmentProps> = ({ issuers, onClose, onAllotted }) => {
+  const campaign = useSelectedCampaign();
+  const [issuerId, setIssuerId] = useState('');
+  const [allotmentDate, setAllotmentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState('');
+  const [diaryInput, setDiaryInput] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [created, setCreated] = useState<DiaryAllotment[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const issuerOptions = issuers.filter(issuer => !issuer.is_archived);
+  const issuer = issuerOptions.find(i => i.id === issuerId);
+  const available = (preview || []).filter(row => row.diary && !row.allotment);
+
+  const handlePreview = async () => {
+    const parsed = parseDiaryNumbers(diaryInput, getTotalDiaries(campaign));
+    setErrors(parsed.errors);
+    setPreview(null);
+    if (parsed.errors.length > 0 || parsed.numbers.length === 0) {
+      if (parsed.numbers.length === 0 && parsed.errors.length === 0) {
+        setErrors(['Enter the diary numbers to allot, e.g. 501-530, 545']);
+      }
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data: diaryData, error: diaryError } = await supabase
+        .from('diaries')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .in('diary_number', parsed.numbers);
+
+      if (diaryError) throw diaryError;
+
+      const diaryIds = (diaryData || []).map((diary: Diary) => diary.id);
+      const { data: allotmentData, error: allotmentError } = diaryIds.length > 0
+        ? await supabase
+            .from('diary_allotments')
+            .select(`
+              *,
+              issuer:issuers(*)
+            `)
+            .in('diary_id', diaryIds)
+            .neq('status', 'returned')
+        : { data: [], error: null };
+
+      if (allotmentError) throw allotmentError;
+
+      const diariesByNumber = new Map((diaryData || []).map((diary: Diary) => [diary.diary_number, diary]));
+      const allotmentsByDiary = new Map((allotmentData || []).map((allotment: DiaryAllotment) => [allotment.diary_id, allotment]));
+
+      setPreview(parsed.numbers.map(diaryNumber => {
+        const diary = diariesByNumber.get(diaryNumber);
+        return {
+          diaryNumber,
+          diary,
+          allotment: diary ? allotmentsByDiary.get(diary.id) : undefined,
+        };
+      }));
+    } catch (error: any) {
+      console.error('Error previewing bulk allotment:', error);
+      toast.error(`Failed to check diaries: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAllot = async () => {
+    if (!issuer) {
+      toast.error('Choose the issuer to allot the diaries to');
+      return;
+    }
+    if (available.length === 0) return;
+
+    const skipped = (preview || []).length - available.length;
+    if (!window.confirm(`Allot ${available.length} diaries to ${issuer.issuer_name}?${skipped > 0 ? ` ${skipped} diaries that are not available will be skipped.` : ''}`)) return;
+
+    try {
+      setSaving(true);
+      const { data, error } = await supabase
+        .from('diary_allotments')
+        .insert(available.map(row => ({
+          diary_id: row.diary!.id,
+          issuer_id: issuer.id,
+          allotment_date: allotmentDate,
+          notes: notes.trim() || null,
+          campaign_id: campaign.id,
+          status: 'allotted',
+          amount_collected: 0,
+        })))
+        .select(`
+          *,
+          diary:diaries(*),
+          issuer:issuers(*)
+        `);
+
+      if (error) throw error;
+
+      const allotted: DiaryAllotment[] = data || [];
+      setCreated(allotted);
+      toast.success(`${allotted.length} diaries allotted to ${issuer.issuer_name}`);
+      downloadAllotmentSlip(allotted, issuer, campaign);
+      onAllotted();
+    } catch (error: any) {
+      console.error('Error in bulk allotment:', error);
+      if (error.code === '23505') {
+        toast.error('Some of these diaries were allotted in the meantime. Preview again.');
+      } else {
+        toast.error(`Failed to allot diaries: ${error?.message || 'Unknown error'}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getRowStatus = (row: PreviewRow) => {
+    if (!row.diary) {
+      return <span className="badge badge-danger">Not in this campaign</span>;
+    }
+    if (row.allotment) {
+      return <span className="badge badge-warning">Allotted to {row.allotment.issuer?.issuer_name}</span>;
+    }
+    return <span className="badge badge-success">Available</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Layers className="h-5 w-5 mr-2" />
+                Bulk Allotment
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {created && issuer ? (
+              <div className="text-center py-8">
+                <CheckCircle className="h-12 w-12 text-success-500 mx-auto mb-4" />
+                <p className="text-lg font-semibold text-secondary-900">
+                  {created.length} diaries allotted to {issuer.issuer_name}
+                </p>
+                <p className="mt-1 text-sm text-secondary-600">
+                  Diaries {formatDiaryNumbers(created.map(a => a.diary?.diary_number || 0).sort((a, b) => a - b))}
+                </p>
+                <button
+                  onClick={() => downloadAllotmentSlip(created, issuer, campaign)}
+                  className="btn btn-primary mt-4"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Allotment Slip
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Issuer *
+                    </label>
+                    <select
+                      value={issuerId}
+                      onChange={(e) => setIssuerId(e.target.value)}
+                      className="input"
+                    >
+                      <option value="">Select issuer</option>
+                      {issuerOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.issuer_name} - {option.contact_number}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Allotment Date *
+                    </label>
+                    <input
+                      type="date"
+                      value={allotmentDate}
+                      onChange={(e) => setAllotmentDate(e.target.value)}
+                      className="input"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Diaries *
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={diaryInput}
+                        onChange={(e) => {
+                          setDiaryInput(e.target.value);
+                          setPreview(null);
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handlePreview();
+                        }}
+                        className="input font-mono"
+                        placeholder="e.g. 501-530, 545"
+                      />
+                      <button
+                        type="button"
+                        onClick={handlePreview}
+                        disabled={loading}
+                        className="btn btn-secondary whitespace-nowrap"
+                      >
+                        <Eye className="h-4 w-4 mr-2" />
+                        {loading ? 'Checking...' : 'Preview'}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Notes
+                    </label>
+                    <input
+                      type="text"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="input"
+                    />
+                  </div>
+                </div>
+
+                {errors.length > 0 && (
+                  <div className="mt-4 space-y-1">
+                    {errors.map((message) => (
+                      <p key={message} className="text-sm text-danger-600 flex items-center">
+                        <AlertCircle className="h-4 w-4 mr-1" />
+                        {message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {preview && (
+                  <div className="mt-4">
+                    <p className="text-sm text-secondary-700 mb-2">
+                      <span className="font-medium text-success-700">{available.length} available</span>
+                      {preview.length > available.length && (
+                        <span className="text-warning-700">, {preview.length - available.length} will be skipped</span>
+                      )}
+                      {' '}of {preview.length} diaries
+                    </p>
+                    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                      <table className="table">
+                        <thead className="table-header">
+                          <tr>
+                            <th className="table-header-cell">Diary</th>
+                            <th className="table-header-cell">Tickets</th>
+                            <th className="table-header-cell">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="table-body">
+                          {preview.map((row) => (
+                            <tr key={row.diaryNumber} className="table-row">
+                              <td className="table-cell font-medium">Diary {row.diaryNumber}</td>
+                              <td className="table-cell font-mono text-sm">
+                                {row.diary
+                                  ? `${formatLotteryNumber(row.diary.ticket_start_range)}-${formatLotteryNumber(row.diary.ticket_end_range)}`
+                                  : '-'}
+                              </td>
+                              <td className="table-cell">{getRowStatus(row)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            {!created && (
+              <button
+                onClick={handleAllot}
+                disabled={saving || !issuer || available.length === 0}
+                className="btn btn-primary sm:ml-3 sm:w-auto"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                {saving ? 'Allotting...' : `Allot ${available.length} Diaries`}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary sm:w-auto"
+            >
+              {created ? 'Close' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkAllotment;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { supabase, DevoteeSummary } from '../lib/supabase';
+import { Merge, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DevoteeMergeProps {
+  devotees: DevoteeSummary[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+// Merge two or more devotee records into the one chosen to keep. The database moves their
+// tickets over, copies details the kept record is missing and deletes the others.
+const DevoteeMerge: React.FC<DevoteeMergeProps> = ({ devotees, onClose, onMerged }) => {
+  // Keep the record with the most tickets by default
+  const [keepId, setKeepId] = useState(
+    [...devotees].sort((a, b) => b.ticket_count - a.ticket_count)[0].id
+  );
+  const [merging, setMerging] = useState(false);
+
+  const keep = devotees.find(devotee => devotee.id === keepId)!;
+  const others = devotees.filter(devotee => devotee.id !== keepId);
+  const totalTickets = devotees.reduce((sum, devotee) => sum + devotee.ticket_count, 0);
+
+  const handleMerge = async () => {
+    if (!window.confirm(`Merge ${others.length} ${others.length === 1 ? 'record' : 'records'} into ${keep.full_name}? Their ${totalTickets - keep.ticket_count} tickets move to ${keep.full_name} and the records are deleted.`)) return;
+
+    try {
+      setMerging(true);
+      const { error } = await supabase.rpc('merge_devotees', {
+        p_keep_id: keepId,
+        p_merge_ids: others.map(devotee => devotee.id),
+      });
+
+      if (error) throw error;
+      toast.success(`Merged into ${keep.full_name} (${totalTickets} tickets)`);
+      onMerged();
+    } catch (error: any) {
+      console.error('Error merging devotees:', error);
+      toast.error(`Failed to merge devotees: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Merge className="h-5 w-5 mr-2" />
+                Merge Devotees
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-secondary-600 mb-4">
+              Choose the record to keep. Tickets of the other records move to it and details it is missing
+              (phone, address, PAN) are copied over. The names typed on the tickets stay unchanged.
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Keep</th>
+                    <th className="table-header-cell">Name</th>
+                    <th className="table-header-cell">Phone</th>
+                    <th className="table-header-cell">Address</th>
+                    <th className="table-header-cell">PAN</th>
+                    <th className="table-header-cell">Tickets</th>
+                    <th className="table-header-cell">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {devotees.map((devotee) => (
+                    <tr
+                      key={devotee.id}
+                      onClick={() => setKeepId(devotee.id)}
+                      className={`table-row cursor-pointer ${devotee.id === keepId ? 'bg-primary-50' : ''}`}
+                    >
+                      <td className="table-cell">
+                        <input
+                          type="radio"
+                          checked={devotee.id === keepId}
+                          onChange={() => setKeepId(devotee.id)}
+                        />
+                      </td>
+                      <td className="table-cell font-medium">{devotee.full_name}</td>
+                      <td className="table-cell font-mono">{devotee.phone || '-'}</td>
+                      <td className="table-cell text-sm">{devotee.address || '-'}</td>
+                      <td className="table-cell font-mono">{devotee.pan || '-'}</td>
+                      <td className="table-cell">{devotee.ticket_count}</td>
+                      <td className="table-cell">₹{Number(devotee.total_amount).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              onClick={handleMerge}
+              disabled={merging}
+              className="btn btn-primary sm:ml-3 sm:w-auto"
+            >
+              <Merge className="h-4 w-4 mr-2" />
+              {merging ? 'Merging...' : `Merge into ${keep.full_name}`}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary sm:w-auto"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DevoteeMerge;
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Diary, DiaryAllotment, DiaryReturn, formatLotteryNumber, getAllotmentExpectedAmount } from '../lib/supabase';
+import { Route, ArrowRightLeft, Undo2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DiaryCustodyProps {
+  diary: Diary;
+  onClose: () => void;
+}
+
+// Chain of custody of one diary: every allotment in order, with what each issuer sold,
+// returned and paid, and whether the diary was returned to the office or transferred on.
+const DiaryCustody: React.FC<DiaryCustodyProps> = ({ diary, onClose }) => {
+  const [allotments, setAllotments] = useState<DiaryAllotment[]>([]);
+  const [returns, setReturns] = useState<DiaryReturn[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCustody();
+  }, [diary.id]);
+
+  const fetchCustody = async () => {
+    try {
+      setLoading(true);
+      const [allotmentsResult, returnsResult] = await Promise.all([
+        supabase
+          .from('diary_allotments')
+          .select(`
+            *,
+            diary:diaries(*),
+            issuer:issuers(*)
+          `)
+          .eq('diary_id', diary.id)
+          .order('created_at'),
+        supabase
+          .from('diary_returns')
+          .select('*')
+          .eq('diary_id', diary.id)
+      ]);
+
+      if (allotmentsResult.error) throw allotmentsResult.error;
+      if (returnsResult.error) throw returnsResult.error;
+
+      setAllotments(allotmentsResult.data || []);
+      setReturns(returnsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching chain of custody:', error);
+      toast.error('Failed to load the diary history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const returnsByAllotment = new Map(returns.map(r => [r.allotment_id, r]));
+  const transferredTo = new Map(
+    allotments.filter(a => a.transferred_from).map(a => [a.transferred_from as string, a])
+  );
+
+  const getStatusBadge = (status: DiaryAllotment['status']) => {
+    switch (status) {
+      case 'paid':
+        return <span className="badge badge-success">Paid</span>;
+      case 'fully_sold':
+        return <span className="badge badge-warning">Fully Sold</span>;
+      case 'returned':
+        return <span className="badge badge-danger">Returned</span>;
+      default:
+        return <span className="badge badge-secondary">Allotted</span>;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Route className="h-5 w-5 mr-2" />
+                Chain of Custody - Diary {diary.diary_number}
+                <span className="ml-2 text-sm font-normal text-secondary-500 font-mono">
+                  ({formatLotteryNumber(diary.ticket_start_range)}-{formatLotteryNumber(diary.ticket_end_range)})
+                </span>
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : allotments.length > 0 ? (
+              <ol className="space-y-3">
+                {allotments.map((allotment, index) => {
+                  const diaryReturn = returnsByAllotment.get(allotment.id);
+                  const nextAllotment = transferredTo.get(allotment.id);
+                  return (
+                    <li key={allotment.id} className="border border-secondary-200 rounded-lg p-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="text-secondary-500 mr-2">{index + 1}.</span>
+                          <span className="font-medium text-secondary-900">{allotment.issuer?.issuer_name}</span>
+                          <span className="text-sm text-secondary-500 ml-2 font-mono">{allotment.issuer?.contact_number}</span>
+                        </div>
+                        {getStatusBadge(allotment.status)}
+                      </div>
+                      <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-secondary-600">
+                        <div>Allotted: {new Date(allotment.allotment_date).toLocaleDateString('en-IN')}</div>
+                        <div>Expected: ₹{getAllotmentExpectedAmount(allotment).toLocaleString()}</div>
+                        <div>Paid: ₹{Number(allotment.amount_collected || 0).toLocaleString()}</div>
+                        {diaryReturn && (
+                          <div>Returned: {new Date(diaryReturn.returned_at).toLocaleDateString('en-IN')}</div>
+                        )}
+                      </div>
+                      {diaryReturn && (
+                        <p className="mt-2 text-sm text-secondary-600 flex items-center">
+                          {nextAllotment ? (
+                            <ArrowRightLeft className="h-4 w-4 mr-1 text-primary-600" />
+                          ) : (
+                            <Undo2 className="h-4 w-4 mr-1 text-secondary-500" />
+                          )}
+                          {diaryReturn.sold_lottery_numbers.length} sold, {diaryReturn.unsold_lottery_numbers.length} handed
+                          {nextAllotment ? ` to ${nextAllotment.issuer?.issuer_name}` : ' back to the office'}
+                          {diaryReturn.returned_by_email && ` (${diaryReturn.returned_by_email})`}
+                        </p>
+                      )}
+                      {allotment.notes && (
+                        <p className="mt-1 text-xs text-secondary-500">{allotment.notes}</p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            ) : (
+              <p className="text-sm text-secondary-500">This diary has never been allotted.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiaryCustody;
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { supabase, Issuer, Diary, DiaryAllotment, TicketSale, formatLotteryNumber, getTicketRangeForDiary } from '../lib/supabase';
+import { useSelectedCampaign } from '../contexts/CampaignContext';
+import {
+  BookOpen,
+  Search,
+  Save,
+  X,
+  CheckCircle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DiaryEntryGridProps {
+  issuers: Issuer[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface EntryRow {
+  lottery_number: number;
+  purchaser_name: string;
+  purchaser_contact: string;
+  purchaser_address: string;
+  // Already sold tickets are shown but not editable
+  sold?: TicketSale;
+}
+
+// Enter a whole diary on one screen: one row per lottery number, issuer taken from the allotment
+const DiaryEntryGrid: React.FC<DiaryEntryGridProps> = ({ issuers, onClose, onSaved }) => {
+  const campaign = useSelectedCampaign();
+  const [diaryNumberInput, setDiaryNumberInput] = useState('');
+  const [diary, setDiary] = useState<Diary | null>(null);
+  const [allotment, setAllotment] = useState<DiaryAllotment | null>(null);
+  const [issuerId, setIssuerId] = useState('');
+  const [rows, setRows] = useState<EntryRow[]>([]);
+  const [purchaseDate, setPurchaseDate] = useState(new Date().toISOString().split('T')[0]);
+  const [amountPaid, setAmountPaid] = useState(campaign.ticket_price);
+  const [loadingDiary, setLoadingDiary] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadDiary = async () => {
+    const diaryNumber = parseInt(diaryNumberInput, 10);
+    if (isNaN(diaryNumber)) {
+      toast.error('Please enter a diary number');
+      return;
+    }
+
+    try {
+      setLoadingDiary(true);
+
+      const { data: diaryData, error: diaryError } = await supabase
+        .from('diaries')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .eq('diary_number', diaryNumber)
+        .maybeSingle();
+
+      if (diaryError) throw diaryError;
+      if (!diaryData) {
+        toast.error(`Diary ${diaryNumber} not found`);
+        return;
+      }
+
+      const { data: allotmentData, error: allotmentError } = await supabase
+        .from('diary_allotments')
+        .select(`
+          *,
+          issuer:issuers(*)
+        `)
+        .eq('diary_id', diaryData.id)
+        .neq('status', 'returned')
+        .maybeSingle();
+
+      if (allotmentError) throw allotmentError;
+
+      const { data: soldData, error: soldError } = await supabase
+        .from('ticket_sales')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .eq('diary_id', diaryData.id);
+
+      if (soldError) throw soldError;
+
+      const soldByNumber = new Map((soldData || []).map(ticket => [ticket.lottery_number, ticket]));
+      const range = getTicketRangeForDiary(diaryData.diary_number, campaign);
+      const entryRows: EntryRow[] = [];
+      for (let lotteryNumber = range.start; lotteryNumber <= range.end; lotteryNumber++) {
+        const sold = soldByNumber.get(lotteryNumber);
+        entryRows.push({
+          lottery_number: lotteryNumber,
+          purchaser_name: sold?.purchaser_name || '',
+          purchaser_contact: sold?.purchaser_contact || '',
+          purchaser_address: sold?.purchaser_address || '',
+          sold,
+        });
+      }
+
+      setDiary(diaryData);
+      setAllotment(allotmentData);
+      setIssuerId(allotmentData?.issuer_id || '');
+      setRows(entryRows);
+
+      if (!allotmentData) {
+        toast.error(`Diary ${diaryNumber} is not allotted to any issuer. Please select an issuer.`);
+      }
+    } catch (error) {
+      console.error('Error loading diary:', error);
+      toast.error('Failed to load diary');
+    } finally {
+      setLoadingDiary(false);
+    }
+  };
+
+  const updateRow = (index: number, field: 'purchaser_name' | 'purchaser_contact' | 'purchaser_address', value: string) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const newRows = rows.filter(row => !row.sold && (row.purchaser_name.trim() || row.purchaser_contact.trim()));
+  const soldCount = rows.filter(row => row.sold).length;
+
+  const handleSave = async () => {
+    if (!diary) return;
+
+    const incomplete = newRows.find(row => !row.purchaser_name.trim() || !row.purchaser_contact.trim());
+    if (incomplete) {
+      toast.error(`Ticket ${formatLotteryNumber(incomplete.lottery_number)} needs both a name and a contact number`);
+      return;
+    }
+    if (newRows.length === 0) {
+      toast.error('Please enter at least one ticket');
+      return;
+    }
+    if (!issuerId) {
+      toast.error('Please select an issuer');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('ticket_sales')
+        .insert(newRows.map(row => ({
+          campaign_id: campaign.id,
+          lottery_number: row.lottery_number,
+          purchaser_name: row.purchaser_name.trim(),
+          purchaser_contact: row.purchaser_contact.trim(),
+          purchaser_address: row.purchaser_address.trim() || null,
+          issuer_id: issuerId,
+          diary_id: diary.id,
+          purchase_date: purchaseDate,
+          amount_paid: amountPaid,
+        })));
+
+      if (error) throw error;
+
+      // The database marks the allotment fully sold once every ticket of the diary is entered
+      const diaryComplete = soldCount + newRows.length === rows.length;
+
+      toast.success(`Saved ${newRows.length} tickets of diary ${diary.diary_number}${diaryComplete ? ' - diary fully sold' : ''}`);
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving diary tickets:', error);
+      if (error.code === '23505') {
+        toast.error('Some of these lottery numbers were sold meanwhile. Nothing was saved, please reload the diary.');
+      } else {
+        toast.error(`Failed to save tickets: ${error?.message || 'Unknown error'}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-5xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <BookOpen className="h-5 w-5 mr-2" />
+                Enter Diary
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">
+                    Diary Number *
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={diaryNumberInput}
+                      onChange={(e) => setDiaryNumberInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') loadDiary();
+                      }}
+                      className="input"
+                      placeholder="e.g. 125"
+                      autoFocus
+                    />
+                    <button
+                      type="button"
+                      onClick={loadDiary}
+                      disabled={loadingDiary}
+                      className="btn btn-secondary"
+                      title="Load diary"
+                    >
+                      <Search className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">
+                    Issuer *
+                  </label>
+                  {allotment?.issuer ? (
+                    <div className="input bg-secondary-50">{allotment.issuer.issuer_name}</div>
+                  ) : (
+                    <select
+                      value={issuerId}
+                      onChange={(e) => setIssuerId(e.target.value)}
+                      disabled={!diary}
+                      className="input"
+                    >
+                      <option value="">Select issuer</option>
+                      {issuers.filter(issuer => !issuer.is_archived).map(issuer => (
+                        <option key={issuer.id} value={issuer.id}>
+                          {issuer.issuer_name} ({issuer.contact_number})
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">
+                    Purchase Date
+                  </label>
+                  <input
+                    type="date"
+                    value={purchaseDate}
+                    onChange={(e) => setPurchaseDate(e.target.value)}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">
+                    Amount per Ticket (₹)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={amountPaid}
+                    onChange={(e) => setAmountPaid(Number(e.target.value))}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              {loadingDiary && (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                </div>
+              )}
+
+              {!loadingDiary && diary && (
+                <>
+                  <p className="text-sm text-secondary-600">
+                    Diary {diary.diary_number}: {soldCount} of {rows.length} tickets already entered, {newRows.length} new
+                  </p>
+                  <div className="overflow-x-auto max-h-[28rem] border border-secondary-200 rounded-md">
+                    <table className="table">
+                      <thead className="table-header">
+                        <tr>
+                          <th className="table-header-cell">Number</th>
+                          <th className="table-header-cell">Purchaser Name</th>
+                          <th className="table-header-cell">Contact</th>
+                          <th className="table-header-cell">Address</th>
+                        </tr>
+                      </thead>
+                      <tbody className="table-body">
+                        {rows.map((row, index) => (
+                          <tr key={row.lottery_number} className={row.sold ? 'bg-success-50' : ''}>
+                            <td className="px-3 py-1 font-mono text-sm whitespace-nowrap">
+                              {formatLotteryNumber(row.lottery_number)}
+                              {row.sold && <CheckCircle className="h-4 w-4 inline ml-1 text-success-600" />}
+                            </td>
+                            <td className="px-3 py-1">
+                              <input
+                                type="text"
+                                value={row.purchaser_name}
+                                onChange={(e) => updateRow(index, 'purchaser_name', e.target.value)}
+                                disabled={!!row.sold}
+                                className="input py-1"
+                              />
+                            </td>
+                            <td className="px-3 py-1">
+                              <input
+                                type="tel"
+                                value={row.purchaser_contact}
+                                onChange={(e) => updateRow(index, 'purchaser_contact', e.target.value)}
+                                disabled={!!row.sold}
+                                className="input py-1 font-mono"
+                              />
+                            </td>
+                            <td className="px-3 py-1">
+                              <input
+                                type="text"
+                                value={row.purchaser_address}
+                                onChange={(e) => updateRow(index, 'purchaser_address', e.target.value)}
+                                disabled={!!row.sold}
+                                className="input py-1"
+                              />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              onClick={handleSave}
+              disabled={saving || !diary || newRows.length === 0}
+              className="btn btn-primary sm:ml-3 sm:w-auto"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : `Save ${newRows.length} Tickets`}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary sm:w-auto"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiaryEntryGrid;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, DiaryAllotment, DiaryReturn as DiaryReturnRecord, TicketSale, formatLotteryNumber } from '../lib/supabase';
+import { useCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Undo2,
+  RotateCcw,
+  X
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DiaryReturnProps {
+  allotment: DiaryAllotment;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type TicketState = 'sold' | 'unsold' | 'settled';
+
+// Return of one allotted diary. Lists every ticket number of the diary as sold (the issuer
+// owes what the purchaser paid), unsold (returned stock) or settled by an earlier return.
+// return_diary records the split and frees the diary to be allotted again. A returned
+// allotment shows its stored return record instead.
+const DiaryReturn: React.FC<DiaryReturnProps> = ({ allotment, onClose, onChanged }) => {
+  const { isReadOnly } = useCampaign();
+  const { hasRole } = useAuth();
+  const [tickets, setTickets] = useState<TicketSale[]>([]);
+  const [earlierReturns, setEarlierReturns] = useState<DiaryReturnRecord[]>([]);
+  const [record, setRecord] = useState<DiaryReturnRecord | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const isReturned = allotment.status === 'returned';
+  const canReturn = !isReadOnly && !isReturned && !allotment.is_locked && hasRole('admin', 'clerk');
+  const canUndo = !isReadOnly && isReturned && hasRole('admin');
+
+  useEffect(() => {
+    fetchReturnData();
+  }, [allotment.id]);
+
+  const fetchReturnData = async () => {
+    try {
+      setLoading(true);
+      const [ticketsResult, returnsResult] = await Promise.all([
+        supabase
+          .from('ticket_sales')
+          .select('*')
+          .eq('diary_id', allotment.diary_id)
+          .order('lottery_number'),
+        supabase
+          .from('diary_returns')
+          .select('*')
+          .eq('diary_id', allotment.diary_id)
+          .order('returned_at')
+      ]);
+
+      if (ticketsResult.error) throw ticketsResult.error;
+      if (returnsResult.error) throw returnsResult.error;
+
+      const returns: DiaryReturnRecord[] = returnsResult.data || [];
+      setTickets(ticketsResult.data || []);
+      setRecord(returns.find(r => r.allotment_id === allotment.id) || null);
+      setEarlierReturns(returns.filter(r => r.allotment_id !== allotment.id));
+    } catch (error) {
+      console.error('Error fetching diary return:', error);
+      toast.error('Failed to load the diary tickets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ticketsByNumber = new Map(tickets.map(ticket => [ticket.lottery_number, ticket]));
+  const settledNumbers = new Set(earlierReturns.flatMap(r => r.sold_lottery_numbers));
+
+  // A returned allotment is shown as recorded; otherwise as it would be recorded now
+  const getTicketState = (lotteryNumber: number): TicketState => {
+    if (record) {
+      if (record.sold_lottery_numbers.includes(lotteryNumber)) return 'sold';
+      if (record.unsold_lottery_numbers.includes(lotteryNumber)) return 'unsold';
+      return 'settled';
+    }
+    if (!ticketsByNumber.has(lotteryNumber)) return 'unsold';
+    return settledNumbers.has(lotteryNumber) ? 'settled' : 'sold';
+  };
+
+  const numbers: number[] = [];
+  if (allotment.diary) {
+    for (let n = allotment.diary.ticket_start_range; n <= allotment.diary.ticket_end_range; n++) {
+      numbers.push(n);
+    }
+  }
+
+  const soldNumbers = numbers.filter(n => getTicketState(n) === 'sold');
+  const unsoldCount = numbers.filter(n => getTicketState(n) === 'unsold').length;
+  const amountDue = record
+    ? Number(record.amount_due)
+    : soldNumbers.reduce((sum, n) => sum + Number(ticketsByNumber.get(n)?.amount_paid || 0), 0);
+  const collected = Number(allotment.amount_collected || 0);
+  const balance = Math.max(0, amountDue - collected);
+
+  const handleReturn = async () => {
+    if (!window.confirm(`Return diary ${allotment.diary?.diary_number} from ${allotment.issuer?.issuer_name}? ${soldNumbers.length} tickets are sold (₹${amountDue.toLocaleString()} due) and ${unsoldCount} come back unsold.`)) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc('return_diary', {
+        p_allotment_id: allotment.id,
+        p_notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+      toast.success(`Diary ${allotment.diary?.diary_number} returned - ₹${balance.toLocaleString()} still due from the issuer`);
+      onChanged();
+      onClose();
+    } catch (error: any) {
+      console.error('Error returning diary:', error);
+      toast.error(`Failed to return diary: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!window.confirm(`Undo the return of diary ${allotment.diary?.diary_number}? It goes back to ${allotment.issuer?.issuer_name} as allotted.`)) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc('undo_diary_return', { p_allotment_id: allotment.id });
+
+      if (error) throw error;
+      toast.success('Return undone');
+      onChanged();
+      onClose();
+    } catch (error: any) {
+      console.error('Error undoing diary return:', error);
+      toast.error(`Failed to undo return: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getTicketClass = (state: TicketState) => {
+    switch (state) {
+      case 'sold':
+        return 'border-success-300 bg-success-50';
+      case 'unsold':
+        return 'border-secondary-300 bg-secondary-50';
+      default:
+        return 'border-secondary-200 bg-white text-secondary-400';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Undo2 className="h-5 w-5 mr-2" />
+                {isReturned ? 'Returned' : 'Return'} - Diary {allotment.diary?.diary_number} ({allotment.issuer?.issuer_name})
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div className="bg-success-50 rounded-lg p-3">
+                <p className="text-sm text-secondary-600">Sold</p>
+                <p className="text-xl font-bold text-success-700">{soldNumbers.length}</p>
+              </div>
+              <div className="bg-secondary-50 rounded-lg p-3">
+                <p className="text-sm text-secondary-600">Returned Unsold</p>
+                <p className="text-xl font-bold text-secondary-900">{unsoldCount}</p>
+              </div>
+              <div className="bg-secondary-50 rounded-lg p-3">
+                <p className="text-sm text-secondary-600">Amount Due</p>
+                <p className="text-xl font-bold text-secondary-900">₹{amountDue.toLocaleString()}</p>
+                <p className="text-xs text-secondary-500">₹{collected.toLocaleString()} paid</p>
+              </div>
+              <div className={`${balance > 0 ? 'bg-warning-50' : 'bg-success-50'} rounded-lg p-3`}>
+                <p className="text-sm text-secondary-600">Balance</p>
+                <p className={`text-xl font-bold ${balance > 0 ? 'text-warning-700' : 'text-success-700'}`}>
+                  ₹{balance.toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+                  {numbers.map((lotteryNumber) => {
+                    const state = getTicketState(lotteryNumber);
+                    const ticket = ticketsByNumber.get(lotteryNumber);
+                    return (
+                      <div key={lotteryNumber} className={`border rounded-md px-2 py-1 text-sm ${getTicketClass(state)}`}>
+                        <div className="flex items-center justify-between">
+                          <span className="font-mono font-medium">{formatLotteryNumber(lotteryNumber)}</span>
+                          {state === 'sold' && ticket && <span className="text-xs">₹{ticket.amount_paid}</span>}
+                        </div>
+                        <p className="text-xs truncate">
+                          {state === 'sold'
+                            ? ticket?.purchaser_name || 'Sold'
+                            : state === 'unsold' ? 'Returned stock' : 'Settled earlier'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {record ? (
+                  <div className="text-sm text-secondary-600 border-t border-secondary-200 pt-4">
+                    <p>
+                      Returned on {new Date(record.returned_at).toLocaleDateString('en-IN')}
+                      {record.returned_by_email && ` by ${record.returned_by_email}`}
+                    </p>
+                    {record.notes && <p className="mt-1">Notes: {record.notes}</p>}
+                  </div>
+                ) : canReturn ? (
+                  <div className="border-t border-secondary-200 pt-4">
+                    <label className="block text-sm font-medium text-secondary-700 mb-1">
+                      Notes
+                    </label>
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={2}
+                      className="input"
+                      placeholder="e.g. Issuer travelling, returned remaining tickets"
+                    />
+                    <p className="mt-2 text-xs text-secondary-500">
+                      The issuer keeps owing the amount due for the sold tickets. The unsold tickets
+                      can be sold again once the diary is allotted again.
+                    </p>
+                  </div>
+                ) : allotment.is_locked && (
+                  <p className="text-sm text-warning-700">
+                    This allotment is locked. An admin must unlock it before the diary can be returned.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          {(canReturn || canUndo) && !loading && (
+            <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              {canReturn && (
+                <button
+                  onClick={handleReturn}
+                  disabled={saving}
+                  className="btn btn-primary sm:ml-3 sm:w-auto"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  {saving ? 'Returning...' : 'Return Diary'}
+                </button>
+              )}
+              {canUndo && (
+                <button
+                  onClick={handleUndo}
+                  disabled={saving}
+                  className="btn btn-danger sm:ml-3 sm:w-auto"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {saving ? 'Undoing...' : 'Undo Return'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="btn btn-secondary sm:w-auto"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiaryReturn;
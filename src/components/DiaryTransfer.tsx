@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { supabase, DiaryAllotment, Issuer } from '../lib/supabase';
+import { ArrowRightLeft, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DiaryTransferProps {
+  allotment: DiaryAllotment;
+  issuers: Issuer[];
+  soldTickets: number;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Hand a diary from its current issuer to another. transfer_diary returns the current
+// allotment (the issuer keeps owing for the tickets sold so far) and allots the unsold
+// tickets to the new issuer in one step.
+const DiaryTransfer: React.FC<DiaryTransferProps> = ({ allotment, issuers, soldTickets, onClose, onChanged }) => {
+  const [toIssuerId, setToIssuerId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const issuerOptions = issuers.filter(issuer => !issuer.is_archived && issuer.id !== allotment.issuer_id);
+  const toIssuer = issuerOptions.find(issuer => issuer.id === toIssuerId);
+  const totalTickets = allotment.diary?.total_tickets || 0;
+
+  const handleTransfer = async () => {
+    if (!toIssuer) {
+      toast.error('Choose the issuer to transfer the diary to');
+      return;
+    }
+    if (!window.confirm(`Transfer diary ${allotment.diary?.diary_number} from ${allotment.issuer?.issuer_name} to ${toIssuer.issuer_name}?`)) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc('transfer_diary', {
+        p_allotment_id: allotment.id,
+        p_to_issuer_id: toIssuer.id,
+        p_notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+      toast.success(`Diary ${allotment.diary?.diary_number} transferred to ${toIssuer.issuer_name}`);
+      onChanged();
+      onClose();
+    } catch (error: any) {
+      console.error('Error transferring diary:', error);
+      toast.error(`Failed to transfer diary: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <ArrowRightLeft className="h-5 w-5 mr-2" />
+                Transfer Diary {allotment.diary?.diary_number}
+              </h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-secondary-600 mb-4">
+              {allotment.issuer?.issuer_name} has sold {soldTickets} of {totalTickets} tickets and keeps owing for them.
+              The {totalTickets - soldTickets} unsold tickets are allotted to the new issuer.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 mb-1">
+                  Transfer to *
+                </label>
+                <select
+                  value={toIssuerId}
+                  onChange={(e) => setToIssuerId(e.target.value)}
+                  className="input"
+                >
+                  <option value="">Select issuer</option>
+                  {issuerOptions.map((issuer) => (
+                    <option key={issuer.id} value={issuer.id}>
+                      {issuer.issuer_name} - {issuer.contact_number}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="input"
+                  placeholder="e.g. Issuer moved out of town"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              onClick={handleTransfer}
+              disabled={saving || !toIssuer}
+              className="btn btn-primary sm:ml-3 sm:w-auto"
+            >
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              {saving ? 'Transferring...' : 'Transfer'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary sm:w-auto"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiaryTransfer;
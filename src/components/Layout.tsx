@@ -10,11 +10,32 @@ import {
   Building2,
   LogOut,
   User,
-  Trophy
+  Trophy,
+  CalendarDays,
+  Lock,
+  Users,
+  Gift,
+  Dices,
+  Presentation,
+  ClipboardList,
+  ArchiveRestore,
+  Award,
+  UserRound,
+  Hourglass
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import { getTotalDiaries, AppRole, STAFF_ROLES } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: typeof LayoutDashboard;
+  // Roles that can open the page; every role when omitted
+  roles?: AppRole[];
+}
+
 interface LayoutProps {
   children: React.ReactNode;
 }
@@ -22,7 +43,9 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
-  const { user, signOut } = useAuth();
+  const { user, role, hasRole, signOut } = useAuth();
+  const campaign = useSelectedCampaign();
+  const { campaigns, isReadOnly, selectCampaign } = useCampaign();
 
   const handleLogout = async () => {
     try {
@@ -34,14 +57,27 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     }
   };
 
-  const navigation = [
-    { name: 'Dashboard', href: '/', icon: LayoutDashboard },
-    { name: 'Ticket Sales', href: '/tickets', icon: Ticket },
-    { name: 'Diary Management', href: '/diaries', icon: BookOpen },
-    { name: 'Search', href: '/search', icon: Search },
-    { name: 'Winners', href: '/winners', icon: Trophy },
+  const allNavigation: NavigationItem[] = [
+    { name: 'Dashboard', href: '/', icon: LayoutDashboard, roles: ['admin', 'clerk', 'viewer'] },
+    { name: 'My Diaries', href: '/portal', icon: BookOpen, roles: ['issuer'] },
+    { name: 'Ticket Sales', href: '/tickets', icon: Ticket, roles: STAFF_ROLES },
+    { name: 'Diary Management', href: '/diaries', icon: BookOpen, roles: STAFF_ROLES },
+    { name: 'Dues Ageing', href: '/dues', icon: Hourglass, roles: ['admin', 'clerk'] },
+    { name: 'Search', href: '/search', icon: Search, roles: STAFF_ROLES },
+    { name: 'Draw', href: '/draw', icon: Dices, roles: STAFF_ROLES },
+    { name: 'Presenter', href: '/presenter', icon: Presentation, roles: STAFF_ROLES },
+    { name: 'Winners', href: '/winners', icon: Trophy, roles: STAFF_ROLES },
+    { name: '80G Certificates', href: '/certificates', icon: Award, roles: STAFF_ROLES },
+    { name: 'Devotees', href: '/devotees', icon: UserRound, roles: STAFF_ROLES },
+    { name: 'Prizes', href: '/prizes', icon: Gift, roles: ['admin'] },
+    { name: 'Campaigns', href: '/campaigns', icon: CalendarDays, roles: ['admin'] },
+    { name: 'Users & Roles', href: '/users', icon: Users, roles: ['admin'] },
+    { name: 'Audit Log', href: '/audit', icon: ClipboardList, roles: ['admin'] },
+    { name: 'Recently Deleted', href: '/deleted', icon: ArchiveRestore, roles: ['admin'] },
   ];
 
+  const navigation = allNavigation.filter(item => !item.roles || hasRole(...item.roles));
+
   const isActive = (href: string) => {
     if (href === '/') {
       return location.pathname === '/';
@@ -112,8 +148,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
 
         <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-secondary-200">
           <div className="text-xs text-secondary-500 text-center">
-            <p>Total Tickets: 39,999</p>
-            <p>Total Diaries: 1,819</p>
+            <p className="font-medium text-secondary-700">{campaign.campaign_name}</p>
+            <p>Total Tickets: {campaign.total_tickets.toLocaleString()}</p>
+            <p>Total Diaries: {getTotalDiaries(campaign).toLocaleString()}</p>
           </div>
         </div>
       </div>
@@ -131,13 +168,37 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             </button>
             
             <div className="flex-1 flex items-center justify-center lg:justify-between">
-              <div className="hidden lg:block text-sm text-secondary-500">
-                {new Date().toLocaleDateString('en-IN', {
-                  weekday: 'long',
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
+              <div className="flex items-center space-x-4">
+                <div className="hidden lg:block text-sm text-secondary-500">
+                  {new Date().toLocaleDateString('en-IN', {
+                    weekday: 'long',
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric'
+                  })}
+                </div>
+
+                {/* Campaign selector */}
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={campaign.id}
+                    onChange={(e) => selectCampaign(e.target.value)}
+                    className="input py-1 text-sm"
+                    title="Campaign"
+                  >
+                    {campaigns.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.campaign_name}{c.is_active ? ' (Active)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {isReadOnly && (
+                    <span className="badge badge-secondary flex items-center whitespace-nowrap" title="Past campaigns cannot be changed">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Read-only
+                    </span>
+                  )}
+                </div>
               </div>
               
               {/* User info and logout */}
@@ -145,6 +206,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <div className="flex items-center space-x-2 text-sm text-secondary-600">
                   <User className="h-4 w-4" />
                   <span className="hidden sm:block">{user?.email}</span>
+                  {role && <span className="hidden sm:block badge badge-secondary capitalize">{role}</span>}
                 </div>
                 <button
                   onClick={handleLogout}
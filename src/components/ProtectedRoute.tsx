@@ -1,13 +1,17 @@
 import React from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { AppRole } from '../lib/supabase';
 import Login from '../pages/Login';
+import { ShieldAlert } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Roles allowed to see the page; any role when omitted
+  roles?: AppRole[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+  const { user, role, loading, hasRole, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -24,9 +28,39 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Login />;
   }
 
+  // Logged in, but an admin has not given this login a role yet
+  if (!role) {
+    return (
+      <div className="min-h-screen bg-secondary-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <ShieldAlert className="h-12 w-12 text-warning-500 mx-auto mb-4" />
+          <p className="text-lg font-semibold text-secondary-900">Access pending</p>
+          <p className="mt-2 text-sm text-secondary-600">
+            {user.email} does not have a role yet. Please ask an administrator to grant access.
+          </p>
+          <button onClick={signOut} className="btn btn-secondary mt-4">
+            Logout
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (roles && !hasRole(...roles)) {
+    return (
+      <div className="card">
+        <div className="card-content text-center py-12">
+          <ShieldAlert className="h-12 w-12 text-danger-500 mx-auto mb-4" />
+          <p className="text-lg font-semibold text-secondary-900">Access denied</p>
+          <p className="mt-2 text-sm text-secondary-600">
+            Your role ({role}) does not have access to this page.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
 export default ProtectedRoute;
-
-
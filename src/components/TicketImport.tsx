@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { supabase, Issuer, formatLotteryNumber } from '../lib/supabase';
+import { TicketImportRow, parseTicketImportFile, validateTicketImportRows, downloadTicketImportTemplate } from '../lib/ticketImport';
+import { useSelectedCampaign } from '../contexts/CampaignContext';
+import {
+  Upload,
+  Download,
+  X,
+  CheckCircle,
+  AlertCircle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface TicketImportProps {
+  issuers: Issuer[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface ImportSummary {
+  imported: number;
+  skipped: number;
+}
+
+// Import filled diaries from an .xlsx/.csv: validate every row, preview errors, then insert
+// the valid rows in one batch
+const TicketImport: React.FC<TicketImportProps> = ({ issuers, onClose, onImported }) => {
+  const campaign = useSelectedCampaign();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<TicketImportRow[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+  const visibleRows = showErrorsOnly ? invalidRows : rows;
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setValidating(true);
+      setFileName(file.name);
+      setSummary(null);
+      const parsedRows = await parseTicketImportFile(file);
+      setRows(await validateTicketImportRows(parsedRows, campaign, issuers));
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      toast.error(`Failed to read file: ${error?.message || 'Unknown error'}`);
+      setRows([]);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    try {
+      setImporting(true);
+      const { error } = await supabase
+        .from('ticket_sales')
+        .insert(validRows.map(row => ({
+          campaign_id: campaign.id,
+          lottery_number: row.lottery_number,
+          purchaser_name: row.purchaser_name,
+          purchaser_contact: row.purchaser_contact,
+          purchaser_address: row.purchaser_address || null,
+          issuer_id: row.issuer_id,
+          diary_id: row.diary_id,
+          purchase_date: row.purchase_date,
+          amount_paid: row.amount_paid,
+        })));
+
+      if (error) throw error;
+
+      setSummary({ imported: validRows.length, skipped: invalidRows.length });
+      toast.success(`Imported ${validRows.length} tickets`);
+      onImported();
+    } catch (error: any) {
+      console.error('Error importing tickets:', error);
+      if (error.code === '23505') {
+        toast.error('Some lottery numbers were sold while you were reviewing. Nothing was imported, please choose the file again.');
+      } else {
+        toast.error(`Failed to import tickets: ${error?.message || 'Unknown error'}`);
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-5xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-secondary-900">Import Tickets</h3>
+              <button onClick={onClose} className="text-secondary-400 hover:text-secondary-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {summary ? (
+              <div className="text-center py-8">
+                <CheckCircle className="mx-auto h-12 w-12 text-success-500" />
+                <h4 className="mt-2 text-lg font-medium text-secondary-900">
+                  {summary.imported} tickets imported
+                </h4>
+                {summary.skipped > 0 && (
+                  <p className="mt-1 text-sm text-secondary-500">
+                    {summary.skipped} rows with errors were skipped. Fix them in the file and import it again.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                  <label className="btn btn-secondary cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    {fileName ? 'Choose Another File' : 'Choose File'}
+                    <input
+                      type="file"
+                      accept=".xlsx,.xls,.csv"
+                      onChange={(e) => {
+                        handleFileChange(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                      className="hidden"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => downloadTicketImportTemplate(campaign)}
+                    className="btn btn-secondary"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Template
+                  </button>
+                  {fileName && <span className="text-sm text-secondary-600">{fileName}</span>}
+                </div>
+                <p className="text-sm text-secondary-500">
+                  One ticket per row. The diary and issuer are taken from the lottery number and its allotment;
+                  an Issuer column is only needed for diaries that are not allotted. Empty dates mean today, empty amounts ₹{campaign.ticket_price}.
+                </p>
+
+                {validating && (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                  </div>
+                )}
+
+                {!validating && rows.length > 0 && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4 text-sm">
+                        <span className="flex items-center text-success-700">
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          {validRows.length} valid
+                        </span>
+                        <span className="flex items-center text-danger-700">
+                          <AlertCircle className="h-4 w-4 mr-1" />
+                          {invalidRows.length} with errors
+                        </span>
+                      </div>
+                      <label className="flex items-center text-sm text-secondary-700">
+                        <input
+                          type="checkbox"
+                          checked={showErrorsOnly}
+                          onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                          className="mr-2"
+                        />
+                        Show errors only
+                      </label>
+                    </div>
+
+                    <div className="overflow-x-auto max-h-96 border border-secondary-200 rounded-md">
+                      <table className="table">
+                        <thead className="table-header">
+                          <tr>
+                            <th className="table-header-cell">Row</th>
+                            <th className="table-header-cell">Number</th>
+                            <th className="table-header-cell">Purchaser</th>
+                            <th className="table-header-cell">Diary</th>
+                            <th className="table-header-cell">Issuer</th>
+                            <th className="table-header-cell">Date</th>
+                            <th className="table-header-cell">Amount</th>
+                            <th className="table-header-cell">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="table-body">
+                          {visibleRows.map((row) => (
+                            <tr key={row.rowNumber} className={`table-row ${row.errors.length > 0 ? 'bg-danger-50' : ''}`}>
+                              <td className="table-cell text-secondary-500">{row.rowNumber}</td>
+                              <td className="table-cell font-mono">
+                                {row.lottery_number !== null ? formatLotteryNumber(row.lottery_number) : '-'}
+                              </td>
+                              <td className="table-cell">
+                                <div>{row.purchaser_name || '-'}</div>
+                                <div className="text-xs text-secondary-500 font-mono">{row.purchaser_contact}</div>
+                              </td>
+                              <td className="table-cell">{row.diary_number ?? '-'}</td>
+                              <td className="table-cell">{row.issuer_name || row.issuer || '-'}</td>
+                              <td className="table-cell whitespace-nowrap">{row.purchase_date}</td>
+                              <td className="table-cell">{row.amount_paid !== null ? `₹${row.amount_paid}` : '-'}</td>
+                              <td className="table-cell">
+                                {row.errors.length === 0 ? (
+                                  <span className="badge badge-success">OK</span>
+                                ) : (
+                                  <ul className="text-xs text-danger-700 list-disc pl-4">
+                                    {row.errors.map((error, index) => (
+                                      <li key={index}>{error}</li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            {!summary && (
+              <button
+                onClick={handleImport}
+                disabled={importing || validating || validRows.length === 0}
+                className="btn btn-primary sm:ml-3 sm:w-auto"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {importing ? 'Importing...' : `Import ${validRows.length} Tickets`}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary sm:w-auto"
+            >
+              {summary ? 'Close' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TicketImport;
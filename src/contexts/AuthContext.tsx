@@ -1,11 +1,16 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { supabase, AppRole } from '../lib/supabase';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  // Role from user_roles; null when the login has not been given access yet
+  role: AppRole | null;
+  // Issuer record linked to an issuer login
+  issuerId: string | null;
   loading: boolean;
+  hasRole: (...roles: AppRole[]) => boolean;
   signOut: () => Promise<void>;
 }
 
@@ -26,7 +31,11 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [issuerId, setIssuerId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  // User id the current role belongs to, so a fresh login waits for its own role
+  const [roleUserId, setRoleUserId] = useState<string | null>(null);
 
   useEffect(() => {
     // Get initial session
@@ -63,6 +72,40 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, []);
 
+  // Load the role whenever the logged-in user changes
+  useEffect(() => {
+    const fetchRole = async () => {
+      if (!user) {
+        setRole(null);
+        setIssuerId(null);
+        setRoleUserId(null);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('user_roles')
+          .select('role, issuer_id')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        setRole(data?.role ?? null);
+        setIssuerId(data?.issuer_id ?? null);
+      } catch (error) {
+        console.error('Error fetching user role:', error);
+        setRole(null);
+        setIssuerId(null);
+      } finally {
+        setRoleUserId(user.id);
+      }
+    };
+
+    fetchRole();
+  }, [user?.id]);
+
+  const hasRole = (...roles: AppRole[]) => role !== null && roles.includes(role);
+
   const signOut = async () => {
     try {
       setLoading(true);
@@ -82,7 +125,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value = {
     user,
     session,
-    loading,
+    role,
+    issuerId,
+    loading: loading || (user !== null && roleUserId !== user.id),
+    hasRole,
     signOut,
   };
 
@@ -0,0 +1,117 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { supabase, Campaign } from '../lib/supabase';
+
+interface CampaignContextType {
+  // The campaign whose data is being shown (chosen in the Layout selector)
+  campaign: Campaign | null;
+  // The campaign that currently accepts ticket sales, allotments and winners
+  activeCampaign: Campaign | null;
+  campaigns: Campaign[];
+  // Past campaigns are kept for reference only
+  isReadOnly: boolean;
+  loading: boolean;
+  selectCampaign: (campaignId: string) => void;
+  refreshCampaigns: () => Promise<void>;
+}
+
+const SELECTED_CAMPAIGN_KEY = 'selectedCampaignId';
+
+const CampaignContext = createContext<CampaignContextType | undefined>(undefined);
+
+export const useCampaign = () => {
+  const context = useContext(CampaignContext);
+  if (context === undefined) {
+    throw new Error('useCampaign must be used within a CampaignProvider');
+  }
+  return context;
+};
+
+// Convenience hook for pages that show the selected campaign's data
+export const useSelectedCampaign = (): Campaign => {
+  const { campaign } = useCampaign();
+  if (!campaign) {
+    throw new Error('useSelectedCampaign requires a campaign');
+  }
+  return campaign;
+};
+
+interface CampaignProviderProps {
+  children: React.ReactNode;
+}
+
+export const CampaignProvider: React.FC<CampaignProviderProps> = ({ children }) => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_CAMPAIGN_KEY)
+  );
+
+  const refreshCampaigns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setCampaigns(data || []);
+    } catch (error) {
+      console.error('Error fetching campaigns:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refreshCampaigns();
+  }, []);
+
+  const selectCampaign = (campaignId: string) => {
+    localStorage.setItem(SELECTED_CAMPAIGN_KEY, campaignId);
+    setSelectedCampaignId(campaignId);
+  };
+
+  const activeCampaign = campaigns.find(c => c.is_active) || null;
+  // Fall back to the active campaign when nothing (or a deleted campaign) was selected
+  const campaign = campaigns.find(c => c.id === selectedCampaignId) || activeCampaign || campaigns[0] || null;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-secondary-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+          <p className="text-secondary-600">Loading campaign...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="min-h-screen bg-secondary-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <p className="text-lg font-semibold text-secondary-900">No lottery campaign found</p>
+          <p className="mt-2 text-sm text-secondary-600">
+            Run <code>database/create_campaigns.sql</code> in the Supabase SQL Editor to set up the first campaign.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const value = {
+    campaign,
+    activeCampaign,
+    campaigns,
+    isReadOnly: !campaign.is_active,
+    loading,
+    selectCampaign,
+    refreshCampaigns,
+  };
+
+  return (
+    <CampaignContext.Provider value={value}>
+      {children}
+    </CampaignContext.Provider>
+  );
+};
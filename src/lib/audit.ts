@@ -0,0 +1,85 @@
+import { AuditLog, formatLotteryNumber } from './supabase';
+
+// Tables written to audit_logs by audit_trigger_function
+export const AUDITED_TABLES: { [tableName: string]: string } = {
+  ticket_sales: 'Ticket Sale',
+  diary_allotments: 'Diary Allotment',
+  issuers: 'Issuer',
+  lottery_winners: 'Winner',
+  prize_categories: 'Prize',
+  campaigns: 'Campaign',
+  user_roles: 'User Role',
+  allotment_payments: 'Payment',
+  donation_certificates: '80G Certificate',
+  devotees: 'Devotee',
+  diary_returns: 'Diary Return',
+};
+
+// Columns that change on every write and would only add noise to a diff
+const IGNORED_FIELDS = ['updated_at'];
+
+export interface AuditFieldChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+// Field-level changes of one audit entry. Inserts list every new value, deletes every old one.
+export function getAuditChanges(log: AuditLog): AuditFieldChange[] {
+  const oldValues = log.old_values || {};
+  const newValues = log.new_values || {};
+  const fields = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]))
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .sort();
+
+  return fields
+    .map(field => ({ field, oldValue: oldValues[field], newValue: newValues[field] }))
+    .filter(change => {
+      if (log.action === 'UPDATE') {
+        return JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue);
+      }
+      const value = log.action === 'INSERT' ? change.newValue : change.oldValue;
+      return value !== null && value !== undefined && value !== '';
+    });
+}
+
+export function formatAuditValue(value: any): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Who made the change: email of the logged-in user, or the stored id / database role
+export function describeAuditUser(log: AuditLog): string {
+  return log.user_email || log.user_id || 'unknown';
+}
+
+// Short human-readable label for the audited row, e.g. "Ticket 00123 (Ramesh)"
+export function describeAuditRecord(log: AuditLog): string {
+  const values = log.new_values || log.old_values || {};
+
+  switch (log.table_name) {
+    case 'ticket_sales':
+      return `Ticket ${values.lottery_number ? formatLotteryNumber(values.lottery_number) : ''}${values.purchaser_name ? ` (${values.purchaser_name})` : ''}`;
+    case 'diary_allotments':
+      return `Allotment ${values.status ? `(${values.status})` : ''}`.trim();
+    case 'issuers':
+      return `Issuer ${values.issuer_name || ''}`.trim();
+    case 'lottery_winners':
+      return `Winner ${values.lottery_number ? formatLotteryNumber(values.lottery_number) : ''}${values.prize_category ? ` (${values.prize_category})` : ''}`;
+    case 'prize_categories':
+      return `Prize ${values.category_name || ''}`.trim();
+    case 'campaigns':
+      return `Campaign ${values.campaign_name || ''}`.trim();
+    case 'user_roles':
+      return `Role of ${values.email || ''}`.trim();
+    case 'donation_certificates':
+      return `80G Certificate ${values.financial_year ? `${values.financial_year}/${values.certificate_number}` : ''}${values.donor_name ? ` (${values.donor_name})` : ''}`.trim();
+    case 'devotees':
+      return `Devotee ${values.full_name || ''}`.trim();
+    case 'allotment_payments':
+      return `Payment ${values.amount ? `₹${values.amount}` : ''}${values.receipt_number ? ` (${values.receipt_number})` : ''}`.trim();
+    default:
+      return AUDITED_TABLES[log.table_name] || log.table_name;
+  }
+}
@@ -0,0 +1,178 @@
+import jsPDF from 'jspdf';
+// @ts-ignore - jspdf-autotable extends jsPDF prototype
+import 'jspdf-autotable';
+import { Campaign, DiaryAllotment, Issuer, formatLotteryNumber, getAllotmentExpectedAmount } from './supabase';
+import { TRUST_NAME, formatPdfAmount } from './receipts';
+
+// More than this in one go is almost certainly a typo (e.g. "501-5300")
+export const MAX_BULK_DIARIES = 200;
+
+// Parse "501-530, 545" into sorted, unique diary numbers. Problems are collected per part so
+// the whole list can be corrected at once.
+export function parseDiaryNumbers(input: string, totalDiaries: number): { numbers: number[]; errors: string[] } {
+  const numbers = new Set<number>();
+  const errors: string[] = [];
+
+  input
+    .split(/[,;\s]+/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .forEach(part => {
+      const match = part.match(/^(\d+)(?:-(\d+))?$/);
+      if (!match) {
+        errors.push(`"${part}" is not a diary number or range`);
+        return;
+      }
+
+      const start = parseInt(match[1]);
+      const end = match[2] ? parseInt(match[2]) : start;
+      if (end < start) {
+        errors.push(`"${part}" runs backwards`);
+        return;
+      }
+      if (start < 1 || end > totalDiaries) {
+        errors.push(`"${part}" is outside diaries 1-${totalDiaries}`);
+        return;
+      }
+      if (end - start + 1 > MAX_BULK_DIARIES) {
+        errors.push(`"${part}" has more than ${MAX_BULK_DIARIES} diaries`);
+        return;
+      }
+
+      for (let n = start; n <= end; n++) {
+        numbers.add(n);
+      }
+    });
+
+  if (numbers.size > MAX_BULK_DIARIES) {
+    errors.push(`At most ${MAX_BULK_DIARIES} diaries can be allotted at once (${numbers.size} given)`);
+  }
+
+  return { numbers: [...numbers].sort((a, b) => a - b), errors };
+}
+
+// Sorted diary numbers back to the short form, e.g. [501, 502, 503, 545] -> "501-503, 545"
+export function formatDiaryNumbers(numbers: number[]): string {
+  const parts: string[] = [];
+  let i = 0;
+
+  while (i < numbers.length) {
+    let j = i;
+    while (j + 1 < numbers.length && numbers[j + 1] === numbers[j] + 1) {
+      j++;
+    }
+    parts.push(j > i ? `${numbers[i]}-${numbers[j]}` : `${numbers[i]}`);
+    i = j + 1;
+  }
+
+  return parts.join(', ');
+}
+
+// Allotment slip the issuer signs when taking the diaries; the allotments need their diary joined
+export function downloadAllotmentSlip(allotments: DiaryAllotment[], issuer: Issuer, campaign: Campaign) {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  let yPos = 20;
+
+  const sorted = [...allotments].sort((a, b) => (a.diary?.diary_number || 0) - (b.diary?.diary_number || 0));
+  const diaryNumbers = sorted.map(a => a.diary?.diary_number || 0);
+  const totalTickets = sorted.reduce((sum, a) => sum + (a.diary?.total_tickets || 0), 0);
+  const totalExpected = sorted.reduce((sum, a) => sum + getAllotmentExpectedAmount(a), 0);
+  const allotmentDate = sorted[0] ? new Date(sorted[0].allotment_date) : new Date();
+
+  // Header
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(TRUST_NAME, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 7;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Diary Allotment Slip - ${campaign.campaign_name}`, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 10;
+
+  // Issuer and totals
+  doc.setFontSize(11);
+  const rows: [string, string][] = [
+    ['Issuer', issuer.issuer_name],
+    ['Contact', issuer.contact_number],
+    ['Date', allotmentDate.toLocaleDateString('en-IN')],
+    ['Diaries', `${sorted.length} (${formatDiaryNumbers(diaryNumbers)})`],
+    ['Tickets', `${totalTickets}`],
+    ['Amount to deposit', formatPdfAmount(totalExpected)],
+  ];
+
+  rows.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${label}:`, margin, yPos);
+    doc.setFont('helvetica', 'bold');
+    const lines = doc.splitTextToSize(value, pageWidth - margin * 2 - 45);
+    doc.text(lines, margin + 45, yPos);
+    yPos += 7 * lines.length;
+  });
+  yPos += 4;
+
+  const body = sorted.map(allotment => [
+    `${allotment.diary?.diary_number ?? '-'}`,
+    allotment.diary
+      ? `${formatLotteryNumber(allotment.diary.ticket_start_range)} - ${formatLotteryNumber(allotment.diary.ticket_end_range)}`
+      : '-',
+    `${allotment.diary?.total_tickets ?? '-'}`,
+    formatPdfAmount(getAllotmentExpectedAmount(allotment))
+  ]);
+
+  if (typeof (doc as any).autoTable === 'function') {
+    (doc as any).autoTable({
+      startY: yPos,
+      head: [['Diary', 'Ticket Numbers', 'Tickets', 'Amount']],
+      body,
+      theme: 'striped',
+      headStyles: { fillColor: [59, 130, 246] },
+      styles: { fontSize: 9 },
+      margin: { left: margin, right: margin, bottom: 40 }
+    });
+    yPos = (doc as any).lastAutoTable.finalY + 10;
+  } else {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    body.forEach(row => {
+      if (yPos > pageHeight - 50) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.text(`Diary ${row[0]}: ${row[1]} (${row[2]} tickets, ${row[3]})`, margin, yPos);
+      yPos += 6;
+    });
+    yPos += 4;
+  }
+
+  // Acknowledgement and signatures
+  if (yPos > pageHeight - 45) {
+    doc.addPage();
+    yPos = 20;
+  }
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  const acknowledgement = doc.splitTextToSize(
+    `I have received the diaries listed above and will deposit the amount collected for the tickets sold, and return any unsold tickets, to ${TRUST_NAME}.`,
+    pageWidth - margin * 2
+  );
+  doc.text(acknowledgement, margin, yPos);
+
+  const signatureY = Math.max(yPos + 30, pageHeight - 30);
+  doc.line(margin, signatureY, margin + 60, signatureY);
+  doc.text('Issuer Signature', margin + 30, signatureY + 5, { align: 'center' });
+  doc.line(pageWidth - margin - 60, signatureY, pageWidth - margin, signatureY);
+  doc.text('Issued by (Office)', pageWidth - margin - 30, signatureY + 5, { align: 'center' });
+
+  const fileName = `Allotment_Slip_${issuer.issuer_name.replace(/[^a-z0-9]/gi, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
+  doc.save(fileName);
+}
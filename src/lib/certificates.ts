@@ -0,0 +1,122 @@
+import jsPDF from 'jspdf';
+import * as XLSX from 'xlsx';
+import { DonationCertificate } from './supabase';
+import { TRUST_NAME, formatPdfAmount } from './receipts';
+
+const TRUST_PAN = import.meta.env.VITE_TRUST_PAN || '';
+const TRUST_80G_REGISTRATION = import.meta.env.VITE_TRUST_80G_REGISTRATION || '';
+
+// Indian financial year (April-March) of a date, e.g. 15 Jan 2026 -> "2025-26"
+export function getFinancialYear(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// First and last day of a financial year as YYYY-MM-DD
+export function getFinancialYearRange(financialYear: string): { start: string; end: string } {
+  const startYear = parseInt(financialYear.slice(0, 4), 10);
+  return { start: `${startYear}-04-01`, end: `${startYear + 1}-03-31` };
+}
+
+// The current and the previous financial years, newest first
+export function getRecentFinancialYears(count: number): string[] {
+  const startYear = parseInt(getFinancialYear().slice(0, 4), 10);
+  return Array.from({ length: count }, (_, i) => getFinancialYear(new Date(startYear - i, 3, 1)));
+}
+
+// e.g. "80G/2025-26/0007"
+export function formatCertificateNumber(certificate: Pick<DonationCertificate, 'financial_year' | 'certificate_number'>): string {
+  return `80G/${certificate.financial_year}/${certificate.certificate_number.toString().padStart(4, '0')}`;
+}
+
+// Certificate PDF, A4 portrait
+export function downloadCertificatePDF(certificate: DonationCertificate) {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 20;
+  const textWidth = pageWidth - margin * 2;
+  let yPos = 25;
+
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(TRUST_NAME, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 7;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const trustDetails = [
+    TRUST_PAN && `PAN: ${TRUST_PAN}`,
+    TRUST_80G_REGISTRATION && `80G Registration: ${TRUST_80G_REGISTRATION}`,
+  ].filter(Boolean).join('   |   ');
+  if (trustDetails) {
+    doc.text(trustDetails, pageWidth / 2, yPos, { align: 'center' });
+    yPos += 6;
+  }
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 12;
+
+  doc.setFontSize(15);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Certificate of Donation under Section 80G of the Income Tax Act, 1961', pageWidth / 2, yPos, { align: 'center', maxWidth: textWidth });
+  yPos += 16;
+
+  doc.setFontSize(11);
+  doc.text(`Certificate No: ${formatCertificateNumber(certificate)}`, margin, yPos);
+  doc.text(`Date: ${new Date(certificate.issued_at).toLocaleDateString('en-IN')}`, pageWidth - margin, yPos, { align: 'right' });
+  yPos += 8;
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Financial Year: ${certificate.financial_year}`, margin, yPos);
+  yPos += 14;
+
+  const body = `This is to certify that ${certificate.donor_name} (PAN: ${certificate.donor_pan})` +
+    `${certificate.donor_address ? `, ${certificate.donor_address}` : ''} has donated a total of ` +
+    `${formatPdfAmount(certificate.total_amount, { minimumFractionDigits: 2 })} to ${TRUST_NAME} in ${certificate.donation_count} ` +
+    `${certificate.donation_count === 1 ? 'donation' : 'donations'} during the financial year ${certificate.financial_year}.`;
+  const bodyLines = doc.splitTextToSize(body, textWidth);
+  doc.text(bodyLines, margin, yPos);
+  yPos += bodyLines.length * 6 + 8;
+
+  const note = 'The donation is eligible for deduction under section 80G of the Income Tax Act, 1961, ' +
+    'subject to the conditions and limits laid down in that section.';
+  const noteLines = doc.splitTextToSize(note, textWidth);
+  doc.text(noteLines, margin, yPos);
+  yPos += noteLines.length * 6 + 30;
+
+  doc.line(pageWidth - margin - 60, yPos, pageWidth - margin, yPos);
+  doc.text('Authorised Signatory', pageWidth - margin - 30, yPos + 6, { align: 'center' });
+  doc.text(`For ${TRUST_NAME}`, pageWidth - margin - 30, yPos + 12, { align: 'center' });
+
+  doc.save(`80G_${certificate.financial_year}_${certificate.certificate_number.toString().padStart(4, '0')}_${certificate.donor_pan}.pdf`);
+}
+
+// Register of issued certificates for the trust's annual filing
+export function exportCertificateRegister(certificates: DonationCertificate[], financialYear: string) {
+  const sorted = [...certificates].sort((a, b) => a.certificate_number - b.certificate_number);
+  const wsData = [
+    [`${TRUST_NAME} - 80G Certificate Register ${financialYear}`],
+    [],
+    ['Certificate No.', 'Date', 'Donor Name', 'PAN', 'Contact', 'Address', 'Donations', 'Amount (₹)', 'Issued By'],
+    ...sorted.map(certificate => [
+      formatCertificateNumber(certificate),
+      new Date(certificate.issued_at).toLocaleDateString('en-IN'),
+      certificate.donor_name,
+      certificate.donor_pan,
+      certificate.donor_contact || '',
+      certificate.donor_address || '',
+      certificate.donation_count,
+      Number(certificate.total_amount),
+      certificate.issued_by_email || '',
+    ]),
+    [],
+    ['Total', '', '', '', '', '', sorted.reduce((sum, c) => sum + c.donation_count, 0), sorted.reduce((sum, c) => sum + Number(c.total_amount), 0), ''],
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(wsData);
+  ws['!cols'] = [{ wch: 20 }, { wch: 12 }, { wch: 25 }, { wch: 12 }, { wch: 14 }, { wch: 30 }, { wch: 10 }, { wch: 12 }, { wch: 25 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, '80G Register');
+  XLSX.writeFile(wb, `80G_Register_${financialYear}.xlsx`);
+}
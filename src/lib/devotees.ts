@@ -0,0 +1,51 @@
+import { DevoteeSummary } from './supabase';
+
+export interface DuplicateGroup {
+  key: string;
+  reason: 'Same phone' | 'Similar name';
+  devotees: DevoteeSummary[];
+}
+
+// Spelling-insensitive key of a name, so "Ramesh Patidar", "Ramesh Paatidar" and "Rames Patidaar" match
+export function getNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/h/g, '')
+    .replace(/(.)\1+/g, '$1');
+}
+
+// Groups of devotees that are probably the same person: same phone, or same name spelled
+// differently. A devotee can be in both kinds of group; groups with the same members are listed once.
+export function findLikelyDuplicates(devotees: DevoteeSummary[]): DuplicateGroup[] {
+  const byPhone = new Map<string, DevoteeSummary[]>();
+  const byName = new Map<string, DevoteeSummary[]>();
+
+  devotees.forEach(devotee => {
+    if (devotee.phone) {
+      byPhone.set(devotee.phone, [...(byPhone.get(devotee.phone) || []), devotee]);
+    }
+    const nameKey = getNameKey(devotee.full_name);
+    if (nameKey) {
+      byName.set(nameKey, [...(byName.get(nameKey) || []), devotee]);
+    }
+  });
+
+  const groups: DuplicateGroup[] = [];
+  const seen = new Set<string>();
+  const addGroups = (map: Map<string, DevoteeSummary[]>, reason: DuplicateGroup['reason']) => {
+    map.forEach((members, key) => {
+      const memberKey = members.map(devotee => devotee.id).sort().join(',');
+      if (members.length < 2 || seen.has(memberKey)) return;
+      seen.add(memberKey);
+      groups.push({ key: `${reason}:${key}`, reason, devotees: members });
+    });
+  };
+
+  addGroups(byPhone, 'Same phone');
+  addGroups(byName, 'Similar name');
+  return groups;
+}
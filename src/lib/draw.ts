@@ -0,0 +1,90 @@
+import { supabase, DrawPick, RegisterWinnerResult } from './supabase';
+
+// Commit-reveal draw
+//
+// 1. Before the draw the database generates a random seed and only SHA-256(seed) is published,
+//    together with SHA-256 of the sold ticket pool ("1,2,5,...", ascending).
+// 2. Pick n uses h = SHA-256("<seed>:<n>"). The eligible numbers are the pool, ascending, minus
+//    every number that had already won in the campaign; the winner is eligible[h mod count].
+//    Picks are made in the database by draw_next_winner, so nobody sees the next number in advance.
+// 3. After the draw the seed is revealed, so anyone can check the hash and replay every pick
+//    with the functions below.
+
+export interface SoldTicket {
+  id: string;
+  lottery_number: number;
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function hashTicketPool(lotteryNumbers: number[]): Promise<string> {
+  const sorted = [...lotteryNumbers].sort((a, b) => a - b);
+  return sha256Hex(sorted.join(','));
+}
+
+// Index into the eligible list for the given pick. The full 256-bit hash is reduced, so the
+// modulo bias is negligible for any realistic number of tickets.
+export async function getPickIndex(seed: string, sequence: number, eligibleCount: number): Promise<number> {
+  if (eligibleCount <= 0) {
+    throw new Error('No eligible lottery numbers left to draw');
+  }
+  const hash = await sha256Hex(`${seed}:${sequence}`);
+  return Number(BigInt(`0x${hash}`) % BigInt(eligibleCount));
+}
+
+export async function pickLotteryNumber(seed: string, sequence: number, eligibleNumbers: number[]): Promise<number> {
+  const sorted = [...eligibleNumbers].sort((a, b) => a - b);
+  const index = await getPickIndex(seed, sequence, sorted.length);
+  return sorted[index];
+}
+
+// Result of the draw_next_winner database function: register_winner's result plus the number drawn
+export interface DrawNextWinnerResult extends RegisterWinnerResult {
+  lottery_number?: number;
+  pick?: DrawPick;
+}
+
+// Draw, register and record the next winner of an open draw in one transaction
+export async function drawNextWinner(drawId: string, prizeCategory: string): Promise<DrawNextWinnerResult> {
+  const { data, error } = await supabase.rpc('draw_next_winner', {
+    p_draw_id: drawId,
+    p_prize_category: prizeCategory,
+  });
+
+  if (error) throw error;
+  return data as DrawNextWinnerResult;
+}
+
+// Every sold ticket of the campaign (the draw pool)
+export async function getSoldTickets(campaignId: string): Promise<SoldTicket[]> {
+  let allTickets: SoldTicket[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data: ticketsPage, error } = await supabase
+      .from('ticket_sales')
+      .select('id, lottery_number')
+      .eq('campaign_id', campaignId)
+      .order('lottery_number', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    if (ticketsPage && ticketsPage.length > 0) {
+      allTickets = [...allTickets, ...ticketsPage];
+      from += pageSize;
+      hasMore = ticketsPage.length === pageSize;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return allTickets;
+}
@@ -0,0 +1,253 @@
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+// @ts-ignore - jspdf-autotable extends jsPDF prototype
+import 'jspdf-autotable';
+import { supabase, Campaign, DiaryAllotment, Issuer, getAllotmentExpectedAmount } from './supabase';
+import { TRUST_NAME, formatPdfAmount } from './receipts';
+
+export type AgeingBucket = '0-15' | '15-30' | '30-60' | '60+';
+
+// Days since allotment; each bucket holds ages from its start up to (not including) the next
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string; minDays: number }[] = [
+  { key: '0-15', label: '0-15 days', minDays: 0 },
+  { key: '15-30', label: '15-30 days', minDays: 15 },
+  { key: '30-60', label: '30-60 days', minDays: 30 },
+  { key: '60+', label: '60+ days', minDays: 60 },
+];
+
+export type BucketAmounts = Record<AgeingBucket, number>;
+
+export interface DiaryDue {
+  allotment: DiaryAllotment;
+  expected: number;
+  collected: number;
+  outstanding: number;
+  days: number;
+  bucket: AgeingBucket;
+}
+
+export interface IssuerDues {
+  issuer: Issuer;
+  buckets: BucketAmounts;
+  total: number;
+  diaries: DiaryDue[];
+}
+
+const emptyBuckets = (): BucketAmounts => ({ '0-15': 0, '15-30': 0, '30-60': 0, '60+': 0 });
+
+export function getAgeingBucket(days: number): AgeingBucket {
+  return [...AGEING_BUCKETS].reverse().find(bucket => days >= bucket.minDays)?.key || '0-15';
+}
+
+// Whole days from the allotment date to asOf (both taken as calendar dates)
+export function getDaysOutstanding(allotmentDate: string, asOf: Date): number {
+  const start = new Date(`${allotmentDate.split('T')[0]}T00:00:00`);
+  const end = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 86400000));
+}
+
+// Every allotment of the campaign that is not paid yet, with its diary and issuer
+export async function fetchUnpaidAllotments(campaignId: string): Promise<DiaryAllotment[]> {
+  let allAllotments: DiaryAllotment[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('diary_allotments')
+      .select(`
+        *,
+        diary:diaries(*),
+        issuer:issuers(*)
+      `)
+      .eq('campaign_id', campaignId)
+      .neq('status', 'paid')
+      .order('allotment_date')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    allAllotments = [...allAllotments, ...(data || [])];
+    from += pageSize;
+    hasMore = (data?.length || 0) === pageSize;
+  }
+
+  return allAllotments;
+}
+
+// Outstanding (expected minus collected) per issuer, split by how long the diaries have been out.
+// Returned diaries count with the amount due for their sold tickets. Largest dues first.
+export function buildDuesAgeing(allotments: DiaryAllotment[], asOf: Date): IssuerDues[] {
+  const byIssuer = new Map<string, IssuerDues>();
+
+  allotments.forEach(allotment => {
+    if (!allotment.issuer) return;
+
+    const expected = getAllotmentExpectedAmount(allotment);
+    const collected = Number(allotment.amount_collected || 0);
+    const outstanding = Math.max(0, expected - collected);
+    if (outstanding <= 0) return;
+
+    const days = getDaysOutstanding(allotment.allotment_date, asOf);
+    const bucket = getAgeingBucket(days);
+
+    let dues = byIssuer.get(allotment.issuer_id);
+    if (!dues) {
+      dues = { issuer: allotment.issuer, buckets: emptyBuckets(), total: 0, diaries: [] };
+      byIssuer.set(allotment.issuer_id, dues);
+    }
+    dues.buckets[bucket] += outstanding;
+    dues.total += outstanding;
+    dues.diaries.push({ allotment, expected, collected, outstanding, days, bucket });
+  });
+
+  const result = [...byIssuer.values()];
+  result.forEach(dues => dues.diaries.sort((a, b) => b.days - a.days));
+  return result.sort((a, b) => b.total - a.total);
+}
+
+export function sumBuckets(dues: IssuerDues[]): BucketAmounts {
+  const totals = emptyBuckets();
+  dues.forEach(row => {
+    AGEING_BUCKETS.forEach(bucket => {
+      totals[bucket.key] += row.buckets[bucket.key];
+    });
+  });
+  return totals;
+}
+
+// Local date, like getDaysOutstanding, so an export made after midnight is not named for yesterday
+const getFileDate = (asOf: Date) =>
+  `${asOf.getFullYear()}-${String(asOf.getMonth() + 1).padStart(2, '0')}-${String(asOf.getDate()).padStart(2, '0')}`;
+
+// A summary sheet with one row per issuer, and a sheet with every diary behind the totals
+export function exportDuesAgeingToExcel(dues: IssuerDues[], campaign: Campaign, asOf: Date) {
+  const totals = sumBuckets(dues);
+
+  const summaryData: (string | number)[][] = [
+    ['Issuer Dues Ageing'],
+    ['Campaign:', campaign.campaign_name],
+    ['As of:', asOf.toLocaleDateString('en-IN')],
+    [''],
+    ['Issuer', 'Contact', 'Diaries', ...AGEING_BUCKETS.map(bucket => bucket.label), 'Total Outstanding'],
+    ...dues.map(row => [
+      row.issuer.issuer_name,
+      row.issuer.contact_number,
+      row.diaries.length,
+      ...AGEING_BUCKETS.map(bucket => row.buckets[bucket.key]),
+      row.total
+    ]),
+    [
+      'Total',
+      '',
+      dues.reduce((sum, row) => sum + row.diaries.length, 0),
+      ...AGEING_BUCKETS.map(bucket => totals[bucket.key]),
+      dues.reduce((sum, row) => sum + row.total, 0)
+    ]
+  ];
+
+  const diaryData: (string | number)[][] = [
+    ['Issuer', 'Diary', 'Allotted On', 'Days', 'Bucket', 'Status', 'Expected', 'Collected', 'Outstanding'],
+    ...dues.flatMap(row => row.diaries.map(due => [
+      row.issuer.issuer_name,
+      due.allotment.diary?.diary_number ?? '',
+      new Date(due.allotment.allotment_date).toLocaleDateString('en-IN'),
+      due.days,
+      due.bucket,
+      due.allotment.status,
+      due.expected,
+      due.collected,
+      due.outstanding
+    ]))
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summaryData), 'Ageing by Issuer');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(diaryData), 'Diaries');
+  XLSX.writeFile(wb, `Dues_Ageing_${getFileDate(asOf)}.xlsx`);
+}
+
+export function exportDuesAgeingToPDF(dues: IssuerDues[], campaign: Campaign, asOf: Date) {
+  const doc = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  if (typeof (doc as any).autoTable !== 'function') {
+    throw new Error('PDF table support is not available');
+  }
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const formatAmount = (amount: number) => amount > 0 ? formatPdfAmount(amount) : '-';
+  const totals = sumBuckets(dues);
+  // Numbered across both tables, which each start their own page count
+  const drawPageNumber = () => {
+    doc.setFontSize(9);
+    doc.text(`Page ${doc.getNumberOfPages()}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+  };
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`${TRUST_NAME} - Issuer Dues Ageing`, margin, 18);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${campaign.campaign_name} | As of ${asOf.toLocaleDateString('en-IN')}`, margin, 25);
+
+  (doc as any).autoTable({
+    startY: 30,
+    head: [['Issuer', 'Contact', 'Diaries', ...AGEING_BUCKETS.map(bucket => bucket.label), 'Total']],
+    body: dues.map(row => [
+      row.issuer.issuer_name,
+      row.issuer.contact_number,
+      row.diaries.length,
+      ...AGEING_BUCKETS.map(bucket => formatAmount(row.buckets[bucket.key])),
+      formatAmount(row.total)
+    ]),
+    foot: [[
+      'Total',
+      '',
+      dues.reduce((sum, row) => sum + row.diaries.length, 0),
+      ...AGEING_BUCKETS.map(bucket => formatAmount(totals[bucket.key])),
+      formatAmount(dues.reduce((sum, row) => sum + row.total, 0))
+    ]],
+    theme: 'striped',
+    headStyles: { fillColor: [59, 130, 246] },
+    footStyles: { fillColor: [229, 231, 235], textColor: 20 },
+    styles: { fontSize: 8 },
+    margin: { left: margin, right: margin },
+    didDrawPage: drawPageNumber
+  });
+
+  // Diary detail
+  doc.addPage();
+  doc.setFontSize(13);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Outstanding Diaries', margin, 18);
+  doc.setFont('helvetica', 'normal');
+
+  (doc as any).autoTable({
+    startY: 24,
+    head: [['Issuer', 'Diary', 'Allotted On', 'Days', 'Status', 'Expected', 'Collected', 'Outstanding']],
+    body: dues.flatMap(row => row.diaries.map(due => [
+      row.issuer.issuer_name,
+      due.allotment.diary?.diary_number ?? '-',
+      new Date(due.allotment.allotment_date).toLocaleDateString('en-IN'),
+      due.days,
+      due.allotment.status.replace('_', ' '),
+      formatAmount(due.expected),
+      formatAmount(due.collected),
+      formatAmount(due.outstanding)
+    ])),
+    theme: 'striped',
+    headStyles: { fillColor: [59, 130, 246] },
+    styles: { fontSize: 8 },
+    margin: { left: margin, right: margin },
+    didDrawPage: drawPageNumber
+  });
+
+  doc.save(`Dues_Ageing_${getFileDate(asOf)}.pdf`);
+}
@@ -0,0 +1,320 @@
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+// @ts-ignore - jspdf-autotable extends jsPDF prototype
+import 'jspdf-autotable';
+import { supabase, DiaryAllotment, Issuer, TicketSale, formatLotteryNumber, getAllotmentExpectedAmount } from './supabase';
+import { formatPdfAmount } from './receipts';
+
+// Tickets and allotments of one issuer in a campaign, as shown to admins in Diary Management
+// and to the issuer on their portal
+export interface IssuerReport {
+  tickets: TicketSale[];
+  allotments: DiaryAllotment[];
+  summary: {
+    totalTicketsSold: number;
+    totalDiariesIssued: number;
+    diariesAllotted: number[];
+    diariesPaid: number[];
+    // Expected minus collected per allotment; returned diaries only owe for their sold tickets
+    outstandingAmount: number;
+  };
+}
+
+export async function fetchIssuerReport(issuerId: string, campaignId: string): Promise<IssuerReport> {
+  // Fetch all tickets for this issuer (no limit - fetch all)
+  let allTickets: TicketSale[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data: ticketsPage, error: ticketsError } = await supabase
+      .from('ticket_sales')
+      .select(`
+        *,
+        issuer:issuers(*),
+        diary:diaries(*)
+      `)
+      .eq('issuer_id', issuerId)
+      .eq('campaign_id', campaignId)
+      .order('lottery_number', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (ticketsError) throw ticketsError;
+
+    if (ticketsPage && ticketsPage.length > 0) {
+      allTickets = [...allTickets, ...ticketsPage];
+      from += pageSize;
+      hasMore = ticketsPage.length === pageSize;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  // Fetch all allotments for this issuer
+  const { data: allotmentsData, error: allotmentsError } = await supabase
+    .from('diary_allotments')
+    .select(`
+      *,
+      diary:diaries(*)
+    `)
+    .eq('issuer_id', issuerId)
+    .eq('campaign_id', campaignId)
+    .order('allotment_date', { ascending: true });
+
+  if (allotmentsError) throw allotmentsError;
+
+  const allotments: DiaryAllotment[] = allotmentsData || [];
+
+  // Calculate summary
+  const diariesAllotted = allotments.map(a => a.diary?.diary_number).filter(Boolean) as number[];
+  const diariesPaid = allotments
+    .filter(a => a.status === 'paid')
+    .map(a => a.diary?.diary_number)
+    .filter(Boolean) as number[];
+
+  // Total diaries issued = diaries allotted + diaries paid (unique count)
+  const allDiariesIssued = [...new Set([...diariesAllotted, ...diariesPaid])];
+
+  const outstandingAmount = allotments
+    .reduce((sum, a) => sum + Math.max(0, getAllotmentExpectedAmount(a) - Number(a.amount_collected || 0)), 0);
+
+  return {
+    tickets: allTickets,
+    allotments,
+    summary: {
+      totalTicketsSold: allTickets.length,
+      totalDiariesIssued: allDiariesIssued.length,
+      diariesAllotted,
+      diariesPaid,
+      outstandingAmount
+    }
+  };
+}
+
+export function exportIssuerReportToExcel(report: IssuerReport, issuer: Issuer) {
+  const wsData: (string | number)[][] = [
+    ['Issuer Report'],
+    ['Issuer Name:', issuer.issuer_name],
+    ['Contact:', issuer.contact_number],
+    [''],
+    ['Summary'],
+    ['Total Tickets Sold:', report.summary.totalTicketsSold],
+    ['Total Diaries Issued:', report.summary.totalDiariesIssued],
+    ['Diaries Allotted:', report.summary.diariesAllotted.join(', ')],
+    ['Diaries Paid:', report.summary.diariesPaid.join(', ')],
+    ['Outstanding Amount:', `₹${report.summary.outstandingAmount}`],
+    [''],
+    ['Detailed Ticket Information'],
+    ['Lottery Number', 'Purchaser Name', 'Contact', 'Address', 'Diary Number', 'Purchase Date', 'Amount Paid']
+  ];
+
+  // Add ticket data
+  report.tickets.forEach(ticket => {
+    wsData.push([
+      formatLotteryNumber(ticket.lottery_number),
+      ticket.purchaser_name,
+      ticket.purchaser_contact,
+      ticket.purchaser_address || '',
+      ticket.diary?.diary_number?.toString() || '',
+      new Date(ticket.purchase_date).toLocaleDateString('en-IN'),
+      `₹${ticket.amount_paid}`
+    ]);
+  });
+
+  const ws = XLSX.utils.aoa_to_sheet(wsData);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Issuer Report');
+
+  const fileName = `${issuer.issuer_name}_Report_${new Date().toISOString().split('T')[0]}.xlsx`;
+  XLSX.writeFile(wb, fileName);
+}
+
+export function exportIssuerReportToPDF(report: IssuerReport, issuer: Issuer) {
+  // Initialize PDF document
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  let currentPage = 1;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let yPos = 20;
+  const margin = 14;
+  const lineHeight = 7;
+
+  // Helper function to add new page
+  const addNewPage = () => {
+    doc.addPage();
+    currentPage++;
+    yPos = 20;
+    // Add page number
+    doc.setFontSize(10);
+    doc.text(
+      `Page ${currentPage}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+    yPos = 20;
+  };
+
+  // Helper function to check if we need a new page
+  const checkPageBreak = (requiredSpace: number) => {
+    if (yPos + requiredSpace > pageHeight - 20) {
+      addNewPage();
+    }
+  };
+
+  // Title
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Issuer Report', margin, yPos);
+  yPos += 10;
+
+  // Issuer Info
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  checkPageBreak(15);
+  doc.text(`Issuer Name: ${issuer.issuer_name}`, margin, yPos);
+  yPos += lineHeight;
+  doc.text(`Contact: ${issuer.contact_number}`, margin, yPos);
+  yPos += 10;
+
+  // Summary Section
+  checkPageBreak(30);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Summary', margin, yPos);
+  yPos += 8;
+
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Total Tickets Sold: ${report.summary.totalTicketsSold}`, margin, yPos);
+  yPos += lineHeight;
+  doc.text(`Total Diaries Issued: ${report.summary.totalDiariesIssued}`, margin, yPos);
+  yPos += lineHeight;
+  doc.text(`Outstanding Amount: ${formatPdfAmount(report.summary.outstandingAmount)}`, margin, yPos);
+  yPos += lineHeight;
+
+  // Diaries Allotted
+  const allottedText = `Diaries Allotted: ${report.summary.diariesAllotted.length > 0 ? report.summary.diariesAllotted.join(', ') : 'None'}`;
+  const allottedLines = doc.splitTextToSize(allottedText, pageWidth - (margin * 2));
+
+  allottedLines.forEach((line: string) => {
+    checkPageBreak(lineHeight);
+    doc.text(line, margin, yPos);
+    yPos += lineHeight;
+  });
+
+  // Diaries Paid
+  const paidText = `Diaries Paid: ${report.summary.diariesPaid.length > 0 ? report.summary.diariesPaid.join(', ') : 'None'}`;
+  const paidLines = doc.splitTextToSize(paidText, pageWidth - (margin * 2));
+
+  paidLines.forEach((line: string) => {
+    checkPageBreak(lineHeight);
+    doc.text(line, margin, yPos);
+    yPos += lineHeight;
+  });
+
+  yPos += 10;
+
+  // Detailed Ticket Table
+  const ticketData = report.tickets.map(ticket => {
+    const address = (ticket.purchaser_address || 'N/A');
+    const truncatedAddress = address.length > 30 ? address.substring(0, 27) + '...' : address;
+
+    return [
+      formatLotteryNumber(ticket.lottery_number),
+      (ticket.purchaser_name || 'N/A').substring(0, 25),
+      (ticket.purchaser_contact || 'N/A').substring(0, 15),
+      truncatedAddress,
+      ticket.diary?.diary_number?.toString() || 'N/A',
+      new Date(ticket.purchase_date).toLocaleDateString('en-IN'),
+      `₹${ticket.amount_paid}`
+    ];
+  });
+
+  // Fallback when autoTable is missing or fails: one ticket per two lines
+  const writeTicketLines = () => {
+    checkPageBreak(20);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Detailed Ticket Information:', margin, yPos);
+    yPos += lineHeight;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+
+    ticketData.forEach((row) => {
+      checkPageBreak(lineHeight * 2);
+      doc.text(`Lottery #: ${row[0]}`, margin, yPos);
+      yPos += lineHeight;
+      doc.text(`Purchaser: ${row[1]} | Contact: ${row[2]} | Amount: ${row[6]}`, margin + 5, yPos);
+      yPos += lineHeight + 2;
+    });
+  };
+
+  if (ticketData.length > 0) {
+    checkPageBreak(30);
+
+    // Check if autoTable is available
+    if (typeof (doc as any).autoTable === 'function') {
+      try {
+        (doc as any).autoTable({
+          startY: yPos,
+          head: [['Lottery #', 'Purchaser', 'Contact', 'Address', 'Diary', 'Date', 'Amount']],
+          body: ticketData,
+          theme: 'striped',
+          headStyles: { fillColor: [59, 130, 246] },
+          styles: { fontSize: 7 },
+          margin: { left: margin, right: margin },
+          columnStyles: {
+            0: { cellWidth: 20 },
+            1: { cellWidth: 35 },
+            2: { cellWidth: 30 },
+            3: { cellWidth: 40 },
+            4: { cellWidth: 15 },
+            5: { cellWidth: 25 },
+            6: { cellWidth: 20 }
+          },
+          didDrawPage: (data: any) => {
+            // Add page number on each page
+            doc.setFontSize(10);
+            doc.text(
+              `Page ${data.pageNumber}`,
+              pageWidth / 2,
+              pageHeight - 10,
+              { align: 'center' }
+            );
+          }
+        });
+      } catch (tableError) {
+        console.error('Error creating ticket table:', tableError);
+        writeTicketLines();
+      }
+    } else {
+      console.warn('autoTable function not available, using fallback');
+      writeTicketLines();
+    }
+  } else {
+    checkPageBreak(lineHeight);
+    doc.setFontSize(11);
+    doc.text('No tickets found for this issuer', margin, yPos);
+  }
+
+  // Add page number to first page
+  doc.setPage(1);
+  doc.setFontSize(10);
+  doc.text(
+    'Page 1',
+    pageWidth / 2,
+    pageHeight - 10,
+    { align: 'center' }
+  );
+
+  // Save the PDF
+  const fileName = `${issuer.issuer_name.replace(/[^a-z0-9]/gi, '_')}_Report_${new Date().toISOString().split('T')[0]}.pdf`;
+  doc.save(fileName);
+}
@@ -0,0 +1,101 @@
+import jsPDF from 'jspdf';
+import { Campaign, TicketSale, formatLotteryNumber } from './supabase';
+
+export const TRUST_NAME = 'Temple Trust';
+
+// Amounts in PDFs use "Rs." because the built-in PDF fonts have no rupee sign
+export function formatPdfAmount(amount: number, options?: Intl.NumberFormatOptions): string {
+  return `Rs. ${Number(amount).toLocaleString('en-IN', options)}`;
+}
+
+// e.g. "R-000042"
+export function formatReceiptNumber(receiptNumber: number): string {
+  return `R-${receiptNumber.toString().padStart(6, '0')}`;
+}
+
+// Draw one receipt on the current page of an A5 landscape document
+function drawTicketReceipt(doc: jsPDF, ticket: TicketSale, campaign: Campaign) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  let yPos = 20;
+
+  doc.setDrawColor(59, 130, 246);
+  doc.setLineWidth(0.6);
+  doc.rect(margin / 2, margin / 2, pageWidth - margin, pageHeight - margin);
+
+  // Trust header
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(TRUST_NAME, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 7;
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Donation Receipt - ${campaign.campaign_name}`, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 9;
+
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Receipt No: ${formatReceiptNumber(ticket.receipt_number)}`, margin, yPos);
+  doc.text(`Date: ${new Date(ticket.purchase_date).toLocaleDateString('en-IN')}`, pageWidth - margin, yPos, { align: 'right' });
+  yPos += 12;
+
+  const rows: [string, string][] = [
+    ['Lottery Number', formatLotteryNumber(ticket.lottery_number)],
+    ['Received from', ticket.purchaser_name],
+    ['Contact', ticket.purchaser_contact],
+    ['Address', ticket.purchaser_address || '-'],
+    ['Amount', formatPdfAmount(ticket.amount_paid)],
+    ['Issued by', ticket.issuer?.issuer_name || '-'],
+    ['Diary', ticket.diary ? `${ticket.diary.diary_number}` : '-'],
+  ];
+
+  rows.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.text(`${label}:`, margin, yPos);
+    doc.setFont('helvetica', 'bold');
+    const lines = doc.splitTextToSize(value, pageWidth - margin * 2 - 40);
+    doc.text(lines, margin + 40, yPos);
+    yPos += 7 * lines.length;
+  });
+
+  // Signature and footer
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.line(pageWidth - margin - 50, pageHeight - 24, pageWidth - margin, pageHeight - 24);
+  doc.text('Authorised Signatory', pageWidth - margin - 25, pageHeight - 19, { align: 'center' });
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  doc.text('Thank you for your contribution.', margin, pageHeight - 12);
+  doc.setTextColor(0);
+}
+
+function createReceiptDocument() {
+  return new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a5'
+  });
+}
+
+// One receipt; the ticket needs its issuer and diary joined
+export function downloadTicketReceipt(ticket: TicketSale, campaign: Campaign) {
+  const doc = createReceiptDocument();
+  drawTicketReceipt(doc, ticket, campaign);
+  doc.save(`Receipt_${formatReceiptNumber(ticket.receipt_number)}_${formatLotteryNumber(ticket.lottery_number)}.pdf`);
+}
+
+// All receipts of a diary, one per page, in lottery number order
+export function downloadDiaryReceipts(tickets: TicketSale[], campaign: Campaign, diaryNumber: number) {
+  const doc = createReceiptDocument();
+  [...tickets]
+    .sort((a, b) => a.lottery_number - b.lottery_number)
+    .forEach((ticket, index) => {
+      if (index > 0) doc.addPage();
+      drawTicketReceipt(doc, ticket, campaign);
+    });
+  doc.save(`Receipts_Diary_${diaryNumber}.pdf`);
+}
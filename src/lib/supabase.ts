@@ -10,8 +10,21 @@ if (!supabaseUrl || !supabaseAnonKey) {
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // Database types
+export interface Campaign {
+  id: string;
+  campaign_name: string;
+  total_tickets: number;
+  tickets_per_diary: number;
+  ticket_price: number;
+  draw_date?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Diary {
   id: string;
+  campaign_id: string;
   diary_number: number;
   ticket_start_range: number;
   ticket_end_range: number;
@@ -26,18 +39,33 @@ export interface Issuer {
   issuer_name: string;
   contact_number: string;
   address?: string;
+  // Archived issuers are hidden from the pickers but keep their sales and allotments
+  is_archived: boolean;
+  archived_at?: string;
   created_at: string;
   updated_at: string;
 }
 
 export interface DiaryAllotment {
   id: string;
+  campaign_id: string;
   diary_id: string;
   issuer_id: string;
   allotment_date: string;
   status: 'allotted' | 'fully_sold' | 'paid' | 'returned';
   amount_collected: number;
+  // Set for returned allotments (amount due for the tickets sold) and for diaries allotted
+  // again after a return; otherwise the diary's expected amount applies
+  expected_amount?: number | null;
+  // The allotment this one replaced when the diary was transferred between issuers
+  transferred_from?: string | null;
   notes?: string;
+  // Locked allotments cannot be changed until an admin unlocks them
+  is_locked: boolean;
+  locked_by?: string;
+  locked_by_email?: string;
+  locked_at?: string;
+  lock_reason?: string;
   created_at: string;
   updated_at: string;
   // Joined data
@@ -45,8 +73,64 @@ export interface DiaryAllotment {
   issuer?: Issuer;
 }
 
+export const getAllotmentExpectedAmount = (allotment: DiaryAllotment): number =>
+  Number(allotment.expected_amount ?? allotment.diary?.expected_amount ?? 0);
+
+// Recorded by return_diary: the tickets sold before the return and the unsold ones that came back
+export interface DiaryReturn {
+  id: string;
+  allotment_id: string;
+  campaign_id: string;
+  diary_id: string;
+  issuer_id: string;
+  sold_lottery_numbers: number[];
+  unsold_lottery_numbers: number[];
+  amount_due: number;
+  notes?: string;
+  returned_by?: string;
+  returned_by_email?: string;
+  returned_at: string;
+}
+
+export interface AllotmentLockEvent {
+  id: string;
+  allotment_id: string;
+  action: 'LOCK' | 'UNLOCK';
+  reason: string;
+  performed_by?: string;
+  performed_by_email?: string;
+  performed_at: string;
+}
+
+export type PaymentMode = 'cash' | 'upi' | 'cheque' | 'bank_transfer' | 'other';
+
+export const PAYMENT_MODES: { value: PaymentMode; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'other', label: 'Other' },
+];
+
+// One instalment paid by an issuer; diary_allotments.amount_collected is their sum
+export interface AllotmentPayment {
+  id: string;
+  allotment_id: string;
+  campaign_id: string;
+  amount: number;
+  payment_date: string;
+  payment_mode: PaymentMode;
+  receipt_number?: string;
+  received_by: string;
+  notes?: string;
+  created_by?: string;
+  created_by_email?: string;
+  created_at: string;
+}
+
 export interface TicketSale {
   id: string;
+  campaign_id: string;
   lottery_number: number;
   purchaser_name: string;
   purchaser_contact: string;
@@ -55,13 +139,65 @@ export interface TicketSale {
   diary_id: string;
   purchase_date: string;
   amount_paid: number;
+  // Sequential within the campaign, assigned by the database
+  receipt_number: number;
+  // Donor PAN for 80G certificates
+  donor_pan?: string;
+  // Devotee master record; set by the database when the ticket is entered without one
+  devotee_id?: string;
   created_at: string;
   updated_at: string;
   // Joined data
   issuer?: Issuer;
   diary?: Diary;
+  devotee?: Devotee;
+  campaign?: Campaign;
 }
 
+// A person across tickets and campaigns
+export interface Devotee {
+  id: string;
+  full_name: string;
+  // Last 10 digits, see normalizePhone
+  phone?: string;
+  address?: string;
+  pan?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row of the devotee_summaries view
+export interface DevoteeSummary extends Devotee {
+  ticket_count: number;
+  total_amount: number;
+  campaign_count: number;
+  last_purchase_date?: string;
+}
+
+// Same as normalize_phone in the database: the last 10 digits of the number
+export const normalizePhone = (phone: string): string => phone.replace(/\D/g, '').slice(-10);
+
+// Issued 80G certificate, numbered per financial year (e.g. "2025-26")
+export interface DonationCertificate {
+  id: string;
+  financial_year: string;
+  certificate_number: number;
+  donor_pan: string;
+  donor_name: string;
+  donor_contact?: string;
+  donor_address?: string;
+  total_amount: number;
+  donation_count: number;
+  ticket_sale_ids: string[];
+  issued_by?: string;
+  issued_by_email?: string;
+  issued_at: string;
+}
+
+// PAN format: 5 letters, 4 digits, 1 letter (e.g. ABCDE1234F)
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
 export interface AuditLog {
   id: string;
   table_name: string;
@@ -69,11 +205,21 @@ export interface AuditLog {
   action: 'INSERT' | 'UPDATE' | 'DELETE';
   old_values?: any;
   new_values?: any;
+  // Supabase auth user id (or the database role for changes made outside the app)
   user_id?: string;
+  user_email?: string;
   timestamp: string;
 }
 
+// Tickets entered per diary, from the diary_ticket_counts view
+export interface DiaryTicketCount {
+  campaign_id: string;
+  diary_id: string;
+  tickets_sold: number;
+}
+
 export interface DashboardStats {
+  campaign_id: string;
   total_tickets_sold: number;
   total_revenue: number;
   diaries_allotted: number;
@@ -87,18 +233,21 @@ export interface DashboardStats {
 
 export interface IssuerPerformance {
   id: string;
+  campaign_id: string;
   issuer_name: string;
   contact_number: string;
   diaries_allotted: number;
   diaries_paid: number;
   tickets_sold: number;
   total_collected: number;
+  total_received: number;
   expected_amount: number;
   collection_percentage: number;
 }
 
 export interface LotteryWinner {
   id: string;
+  campaign_id: string;
   lottery_number: number;
   ticket_sale_id?: string;
   prize_category: string;
@@ -116,68 +265,147 @@ export interface LotteryWinner {
   ticket?: TicketSale;
 }
 
+export type AppRole = 'admin' | 'clerk' | 'issuer' | 'viewer';
+
+export interface UserRole {
+  user_id: string;
+  email: string;
+  // null until an admin grants access
+  role: AppRole | null;
+  issuer_id?: string;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  issuer?: Issuer;
+}
+
+// Roles allowed to add and edit tickets, allotments, issuers and winners
+export const STAFF_ROLES: AppRole[] = ['admin', 'clerk'];
+
 export interface PrizeCategory {
   id: string;
+  campaign_id: string;
   category_name: string;
+  hindi_name?: string;
   total_quantity: number;
+  display_order: number;
+  image_url?: string;
   created_at: string;
+  updated_at: string;
+}
+
+// Storage bucket for prize photos (see create_prize_management.sql)
+export const PRIZE_IMAGES_BUCKET = 'prize-images';
+
+// Prizes of a campaign in the order they are drawn and displayed
+export async function getPrizeCategories(campaignId: string): Promise<PrizeCategory[]> {
+  const { data, error } = await supabase
+    .from('prize_categories')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('display_order')
+    .order('category_name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Hindi name for the public winners page, falling back to the English name
+export function getPrizeHindiName(prizes: PrizeCategory[], prizeName: string): string {
+  const prize = prizes.find(p => p.category_name === prizeName);
+  return prize?.hindi_name || prizeName;
+}
+
+export interface Draw {
+  id: string;
+  campaign_id: string;
+  seed_hash: string;
+  seed?: string;
+  pool_size: number;
+  pool_hash: string;
+  pool_numbers?: number[];
+  status: 'committed' | 'revealed';
+  committed_by?: string;
+  committed_at: string;
+  revealed_at?: string;
+}
+
+export interface DrawPick {
+  id: string;
+  draw_id: string;
+  sequence: number;
+  prize_category: string;
+  lottery_number: number;
+  eligible_count: number;
+  winner_id?: string;
+  picked_by?: string;
+  picked_at: string;
 }
 
-// Prize categories with quantities
-export const PRIZE_CATEGORIES = [
-  { name: 'THAR CAR', quantity: 1 },
-  { name: 'SWIFT CAR', quantity: 1 },
-  { name: 'E-Rickshaw', quantity: 1 },
-  { name: 'Bullet Bike', quantity: 1 },
-  { name: 'HF delux Bike', quantity: 5 },
-  { name: 'Electric Bike', quantity: 3 },
-  { name: 'AC 1Ton', quantity: 1 },
-  { name: 'Laptop', quantity: 3 },
-  { name: '32 Inch LED TV', quantity: 5 },
-  { name: 'Fridge', quantity: 5 },
-  { name: 'Washing Machine', quantity: 5 },
-  { name: 'Sewing Machine', quantity: 5 },
-  { name: 'Sports Cycle', quantity: 5 },
-  { name: '5G Mobile', quantity: 11 },
-  { name: 'Cooler', quantity: 11 },
-  { name: 'Child EV Bike', quantity: 10 },
-  { name: 'Home Theater', quantity: 5 },
-  { name: 'Electric Water Heater', quantity: 5 },
-  { name: 'Battery Spray Pump', quantity: 27 },
-  { name: 'Mixer', quantity: 10 },
-  { name: 'Induction stove', quantity: 10 },
-  { name: 'Ceiling Fan', quantity: 10 },
-  { name: 'Smart Watch', quantity: 11 },
-  { name: 'Gas Stove', quantity: 27 },
-  { name: 'Helmet', quantity: 54 },
-  { name: 'Silver Coin', quantity: 54 },
-  { name: 'Wall Clock', quantity: 108 },
-  { name: 'Photo Frame', quantity: 108 }
-] as const;
+export type PresenterStage = 'idle' | 'announce' | 'reveal' | 'winner';
+
+// What the public winners screen is showing, driven from the presenter console
+export interface PresenterState {
+  campaign_id: string;
+  stage: PresenterStage;
+  prize_category?: string;
+  winner_id?: string;
+  lottery_number?: number;
+  revealed_digits: number;
+  announced_at?: string;
+  updated_by?: string;
+  updated_at: string;
+}
+
+// Result of the register_winner database function
+export interface RegisterWinnerResult {
+  success: boolean;
+  error_code?: 'NOT_ALLOWED' | 'TICKET_NOT_FOUND' | 'CAMPAIGN_CLOSED' | 'MISSING_WINNER_DETAILS' | 'PRIZE_NOT_FOUND' | 'ALREADY_WON' | 'PRIZE_EXHAUSTED';
+  message: string;
+  winner?: LotteryWinner;
+  remaining?: number;
+  existing_prize?: string;
+}
+
+// Register a winner atomically: the database locks the prize category, checks the remaining
+// quantity and that the number has not already won, then inserts the winner
+export async function registerWinner(ticketSaleId: string, prizeCategory: string, notes?: string): Promise<RegisterWinnerResult> {
+  const { data, error } = await supabase.rpc('register_winner', {
+    p_ticket_sale_id: ticketSaleId,
+    p_prize_category: prizeCategory,
+    p_notes: notes || null,
+  });
+
+  if (error) throw error;
+  return data as RegisterWinnerResult;
+}
+
+// Helper function to get the number of diaries in a campaign
+// The last diary holds whatever tickets remain (e.g. 39,999 tickets / 22 = 1,819 diaries, last one with 3)
+export function getTotalDiaries(campaign: Campaign): number {
+  return Math.ceil(campaign.total_tickets / campaign.tickets_per_diary);
+}
 
 // Helper function to get diary number from lottery number
-export function getDiaryFromLotteryNumber(lotteryNumber: number): number {
-  if (lotteryNumber <= 39996) {
-    return Math.ceil(lotteryNumber / 22);
-  } else {
-    return 1819; // Last diary
-  }
+export function getDiaryFromLotteryNumber(lotteryNumber: number, campaign: Campaign): number {
+  return Math.ceil(lotteryNumber / campaign.tickets_per_diary);
 }
 
 // Helper function to get ticket range for a diary
-export function getTicketRangeForDiary(diaryNumber: number): { start: number; end: number } {
-  if (diaryNumber === 1819) {
-    return { start: 39997, end: 39999 };
-  } else {
-    const start = (diaryNumber - 1) * 22 + 1;
-    const end = diaryNumber * 22;
-    return { start, end };
-  }
+export function getTicketRangeForDiary(diaryNumber: number, campaign: Campaign): { start: number; end: number } {
+  const start = (diaryNumber - 1) * campaign.tickets_per_diary + 1;
+  const end = Math.min(diaryNumber * campaign.tickets_per_diary, campaign.total_tickets);
+  return { start, end };
+}
+
+// Helper function to check a lottery number belongs to the campaign
+export function isValidLotteryNumber(lotteryNumber: number, campaign: Campaign): boolean {
+  return Number.isInteger(lotteryNumber) && lotteryNumber >= 1 && lotteryNumber <= campaign.total_tickets;
 }
 
 // Helper function to validate lottery number for diary
-export function validateLotteryNumberForDiary(lotteryNumber: number, diaryNumber: number): boolean {
-  const range = getTicketRangeForDiary(diaryNumber);
+export function validateLotteryNumberForDiary(lotteryNumber: number, diaryNumber: number, campaign: Campaign): boolean {
+  const range = getTicketRangeForDiary(diaryNumber, campaign);
   return lotteryNumber >= range.start && lotteryNumber <= range.end;
 }
 
@@ -192,8 +420,8 @@ export function parseLotteryNumber(lotteryNumberString: string): number {
 }
 
 // Helper function to get formatted ticket range for a diary
-export function getFormattedTicketRangeForDiary(diaryNumber: number): { start: string; end: string } {
-  const range = getTicketRangeForDiary(diaryNumber);
+export function getFormattedTicketRangeForDiary(diaryNumber: number, campaign: Campaign): { start: string; end: string } {
+  const range = getTicketRangeForDiary(diaryNumber, campaign);
   return {
     start: formatLotteryNumber(range.start),
     end: formatLotteryNumber(range.end)
@@ -212,8 +440,8 @@ export interface MissingTicketsResult {
   grouped_by_diary: { diary_number: number; missing_count: number; missing_numbers: number[] }[];
 }
 
-// Function to get missing lottery tickets (1-39999)
-export async function getMissingTickets(): Promise<MissingTicketsResult> {
+// Function to get missing lottery tickets (1 to the campaign's total tickets)
+export async function getMissingTickets(campaign: Campaign): Promise<MissingTicketsResult> {
   try {
     // Fetch ALL existing lottery numbers with pagination to handle Supabase's default limit
     let allExistingTickets: { lottery_number: number }[] = [];
@@ -225,6 +453,7 @@ export async function getMissingTickets(): Promise<MissingTicketsResult> {
       const { data: ticketsPage, error } = await supabase
         .from('ticket_sales')
         .select('lottery_number')
+        .eq('campaign_id', campaign.id)
         .order('lottery_number', { ascending: true })
         .range(from, from + pageSize - 1);
 
@@ -247,8 +476,8 @@ export async function getMissingTickets(): Promise<MissingTicketsResult> {
 
     console.log(`Fetched ${allExistingTickets.length} existing tickets from database`);
 
-    // Generate all possible lottery numbers (1-39999)
-    const allNumbers = Array.from({ length: 39999 }, (_, i) => i + 1);
+    // Generate all possible lottery numbers for the campaign
+    const allNumbers = Array.from({ length: campaign.total_tickets }, (_, i) => i + 1);
 
     // Find missing numbers
     const missingNumbers = allNumbers.filter(num => !existingNumbers.has(num));
@@ -256,7 +485,7 @@ export async function getMissingTickets(): Promise<MissingTicketsResult> {
     // Map missing numbers to their diary numbers and group by diary
     const missingTickets: MissingTicket[] = missingNumbers.map(num => ({
       lottery_number: num,
-      diary_number: getDiaryFromLotteryNumber(num)
+      diary_number: getDiaryFromLotteryNumber(num, campaign)
     }));
 
     // Group by diary number
@@ -0,0 +1,275 @@
+import * as XLSX from 'xlsx';
+import {
+  supabase,
+  Campaign,
+  Issuer,
+  getDiaryFromLotteryNumber,
+  validateLotteryNumberForDiary,
+  isValidLotteryNumber,
+  parseLotteryNumber,
+  formatLotteryNumber
+} from './supabase';
+
+// Column headers of the import template, in order
+export const TICKET_IMPORT_COLUMNS = [
+  'Lottery Number',
+  'Purchaser Name',
+  'Contact Number',
+  'Address',
+  'Diary Number',
+  'Issuer',
+  'Purchase Date',
+  'Amount Paid',
+];
+
+// Accepted header spellings per field, compared lowercase without spaces or punctuation
+const HEADER_ALIASES: { [field: string]: string[] } = {
+  lottery_number: ['lotterynumber', 'lotteryno', 'ticketnumber', 'ticketno', 'ticket', 'number'],
+  purchaser_name: ['purchasername', 'name', 'donorname', 'devoteename'],
+  purchaser_contact: ['contactnumber', 'purchasercontact', 'contact', 'phone', 'mobile'],
+  purchaser_address: ['address', 'purchaseraddress'],
+  diary_number: ['diarynumber', 'diaryno', 'diary'],
+  issuer: ['issuer', 'issuername'],
+  purchase_date: ['purchasedate', 'date'],
+  amount_paid: ['amountpaid', 'amount'],
+};
+
+export interface TicketImportRow {
+  rowNumber: number; // Row in the spreadsheet, header is row 1
+  lottery_number: number | null;
+  purchaser_name: string;
+  purchaser_contact: string;
+  purchaser_address: string;
+  diary_number: number | null;
+  issuer: string;
+  purchase_date: string;
+  amount_paid: number | null;
+  // Filled in by validateTicketImportRows
+  diary_id?: string;
+  issuer_id?: string;
+  issuer_name?: string;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Accepts yyyy-mm-dd and dd/mm/yyyy (also with - or .); empty means today
+function parseImportDate(value: string): string | null {
+  if (!value) return new Date().toISOString().split('T')[0];
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const indian = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  let year: number, month: number, day: number;
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (indian) {
+    [day, month, year] = [Number(indian[1]), Number(indian[2]), Number(indian[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// Read the first sheet of an .xlsx/.xls/.csv file into rows, matching columns by header name
+export async function parseTicketImportFile(file: File): Promise<TicketImportRow[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets');
+
+  const records = XLSX.utils.sheet_to_json<{ [header: string]: string }>(sheet, {
+    defval: '',
+    raw: false,
+    dateNF: 'yyyy-mm-dd',
+  });
+  if (records.length === 0) throw new Error('The file has no rows');
+
+  const headers = Object.keys(records[0]);
+  const columnFor: { [field: string]: string | undefined } = {};
+  Object.entries(HEADER_ALIASES).forEach(([field, aliases]) => {
+    columnFor[field] = aliases
+      .map(alias => headers.find(header => normalizeHeader(header) === alias))
+      .find(Boolean);
+  });
+
+  if (!columnFor.lottery_number) {
+    throw new Error('Missing "Lottery Number" column. Download the template to see the expected columns.');
+  }
+
+  const cell = (record: { [header: string]: string }, field: string) => {
+    const column = columnFor[field];
+    return column ? String(record[column] ?? '').trim() : '';
+  };
+
+  return records
+    .map((record, index) => {
+      const lotteryNumber = cell(record, 'lottery_number');
+      const diaryNumber = cell(record, 'diary_number');
+      const amount = cell(record, 'amount_paid').replace(/[₹,\s]/g, '');
+
+      return {
+        rowNumber: index + 2,
+        lottery_number: /^\d+$/.test(lotteryNumber) ? parseLotteryNumber(lotteryNumber) : null,
+        purchaser_name: cell(record, 'purchaser_name'),
+        purchaser_contact: cell(record, 'purchaser_contact'),
+        purchaser_address: cell(record, 'purchaser_address'),
+        diary_number: /^\d+$/.test(diaryNumber) ? parseInt(diaryNumber, 10) : null,
+        issuer: cell(record, 'issuer'),
+        purchase_date: cell(record, 'purchase_date'),
+        amount_paid: amount === '' ? null : Number(amount),
+        errors: lotteryNumber && !/^\d+$/.test(lotteryNumber) ? [`"${lotteryNumber}" is not a lottery number`] : [],
+      };
+    })
+    // Skip blank lines at the end of a sheet
+    .filter(row => row.lottery_number !== null || row.purchaser_name || row.purchaser_contact || row.errors.length > 0);
+}
+
+// Run a query over a long list of values in chunks to keep the request URL short
+export async function fetchInChunks<T>(values: (string | number)[], fetchChunk: (chunk: any[]) => PromiseLike<{ data: T[] | null; error: any }>): Promise<T[]> {
+  const results: T[] = [];
+  for (let i = 0; i < values.length; i += 200) {
+    const { data, error } = await fetchChunk(values.slice(i, i + 200));
+    if (error) throw error;
+    results.push(...(data || []));
+  }
+  return results;
+}
+
+// Check every row against the campaign: number range and diary, duplicates in the file and in
+// ticket_sales, and the issuer the diary is allotted to. Errors are collected per row.
+export async function validateTicketImportRows(rows: TicketImportRow[], campaign: Campaign, issuers: Issuer[]): Promise<TicketImportRow[]> {
+  const lotteryNumbers = Array.from(new Set(rows.map(row => row.lottery_number).filter((n): n is number => n !== null)));
+  const diaryNumbers = Array.from(new Set(lotteryNumbers.map(n => getDiaryFromLotteryNumber(n, campaign))));
+
+  const existingTickets = await fetchInChunks<{ lottery_number: number }>(lotteryNumbers, chunk =>
+    supabase
+      .from('ticket_sales')
+      .select('lottery_number')
+      .eq('campaign_id', campaign.id)
+      .in('lottery_number', chunk)
+  );
+  const soldNumbers = new Set(existingTickets.map(ticket => ticket.lottery_number));
+
+  const diaries = await fetchInChunks<{ id: string; diary_number: number }>(diaryNumbers, chunk =>
+    supabase
+      .from('diaries')
+      .select('id, diary_number')
+      .eq('campaign_id', campaign.id)
+      .in('diary_number', chunk)
+  );
+  const diaryByNumber = new Map(diaries.map(diary => [diary.diary_number, diary]));
+
+  const allotments = await fetchInChunks<{ diary_id: string; issuer_id: string }>(diaries.map(diary => diary.id), chunk =>
+    supabase
+      .from('diary_allotments')
+      .select('diary_id, issuer_id')
+      .eq('campaign_id', campaign.id)
+      .neq('status', 'returned')
+      .in('diary_id', chunk)
+  );
+  const issuerByDiaryId = new Map(allotments.map(allotment => [allotment.diary_id, allotment.issuer_id]));
+  const issuerById = new Map(issuers.map(issuer => [issuer.id, issuer]));
+
+  const seenNumbers = new Map<number, number>();
+
+  return rows.map(row => {
+    const errors = [...row.errors];
+    const validated: TicketImportRow = { ...row, errors };
+
+    if (!row.purchaser_name) errors.push('Purchaser name is required');
+    if (!row.purchaser_contact) errors.push('Contact number is required');
+
+    const purchaseDate = parseImportDate(row.purchase_date);
+    if (purchaseDate) {
+      validated.purchase_date = purchaseDate;
+    } else {
+      errors.push(`Invalid purchase date "${row.purchase_date}" (use YYYY-MM-DD or DD/MM/YYYY)`);
+    }
+
+    if (row.amount_paid === null) {
+      validated.amount_paid = campaign.ticket_price;
+    } else if (isNaN(row.amount_paid) || row.amount_paid <= 0) {
+      errors.push('Amount paid must be a positive number');
+    }
+
+    if (row.lottery_number === null) {
+      if (row.errors.length === 0) errors.push('Lottery number is required');
+      return validated;
+    }
+
+    const lotteryNumber = row.lottery_number;
+    const label = formatLotteryNumber(lotteryNumber);
+
+    if (!isValidLotteryNumber(lotteryNumber, campaign)) {
+      errors.push(`Lottery number ${label} is outside 00001-${formatLotteryNumber(campaign.total_tickets)}`);
+      return validated;
+    }
+
+    const diaryNumber = row.diary_number ?? getDiaryFromLotteryNumber(lotteryNumber, campaign);
+    if (!validateLotteryNumberForDiary(lotteryNumber, diaryNumber, campaign)) {
+      errors.push(`Lottery number ${label} is not valid for diary ${diaryNumber}`);
+    }
+
+    if (seenNumbers.has(lotteryNumber)) {
+      errors.push(`Duplicate of row ${seenNumbers.get(lotteryNumber)}`);
+    } else {
+      seenNumbers.set(lotteryNumber, row.rowNumber);
+    }
+
+    if (soldNumbers.has(lotteryNumber)) {
+      errors.push(`Lottery number ${label} is already sold`);
+    }
+
+    const diary = diaryByNumber.get(getDiaryFromLotteryNumber(lotteryNumber, campaign));
+    if (!diary) {
+      errors.push(`Diary ${diaryNumber} not found`);
+      return validated;
+    }
+    validated.diary_id = diary.id;
+    validated.diary_number = diary.diary_number;
+
+    // The issuer comes from the allotment; an Issuer column is only needed for unallotted diaries
+    const allottedIssuer = issuerById.get(issuerByDiaryId.get(diary.id) || '');
+    const namedIssuer = row.issuer
+      ? issuers.find(issuer =>
+          issuer.issuer_name.toLowerCase() === row.issuer.toLowerCase() || issuer.contact_number === row.issuer
+        )
+      : undefined;
+
+    if (row.issuer && !namedIssuer) {
+      errors.push(`Issuer "${row.issuer}" not found`);
+    } else if (allottedIssuer && namedIssuer && allottedIssuer.id !== namedIssuer.id) {
+      errors.push(`Diary ${diary.diary_number} is allotted to ${allottedIssuer.issuer_name}, not ${namedIssuer.issuer_name}`);
+    } else if (!allottedIssuer && !namedIssuer) {
+      errors.push(`Diary ${diary.diary_number} is not allotted to any issuer. Add an Issuer column.`);
+    } else {
+      const issuer = (allottedIssuer || namedIssuer)!;
+      if (issuer.is_archived && !allottedIssuer) {
+        errors.push(`Issuer ${issuer.issuer_name} is archived`);
+      }
+      validated.issuer_id = issuer.id;
+      validated.issuer_name = issuer.issuer_name;
+    }
+
+    return validated;
+  });
+}
+
+// Empty template with the expected columns and one example row
+export function downloadTicketImportTemplate(campaign: Campaign) {
+  const ws = XLSX.utils.aoa_to_sheet([
+    TICKET_IMPORT_COLUMNS,
+    ['00001', 'Ramesh Patel', '9876543210', 'Indore', 1, '', new Date().toISOString().split('T')[0], campaign.ticket_price],
+  ]);
+  ws['!cols'] = TICKET_IMPORT_COLUMNS.map(() => ({ wch: 18 }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Tickets');
+  XLSX.writeFile(wb, 'ticket_import_template.xlsx');
+}
@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase, AuditLog } from '../lib/supabase';
+import { AUDITED_TABLES, getAuditChanges, describeAuditRecord, describeAuditUser } from '../lib/audit';
+import AuditChanges from '../components/AuditChanges';
+import {
+  ClipboardList,
+  Filter,
+  RotateCcw,
+  History,
+  ChevronDown,
+  ChevronRight,
+  ArrowLeft
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AuditFilters {
+  table_name: string;
+  record_id: string;
+  action: string;
+  user: string;
+  date_from: string;
+  date_to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  table_name: '',
+  record_id: '',
+  action: '',
+  user: '',
+  date_from: '',
+  date_to: '',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PAGE_SIZE = 100;
+
+const getActionBadge = (action: AuditLog['action']) => {
+  switch (action) {
+    case 'INSERT':
+      return <span className="badge badge-success">Created</span>;
+    case 'UPDATE':
+      return <span className="badge badge-warning">Updated</span>;
+    case 'DELETE':
+      return <span className="badge badge-danger">Deleted</span>;
+  }
+};
+
+const Audit: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const historyTable = searchParams.get('table') || '';
+  const historyRecord = searchParams.get('record') || '';
+
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [history, setHistory] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (historyRecord) {
+      fetchHistory();
+    } else {
+      fetchLogs(0);
+    }
+  }, [historyTable, historyRecord]);
+
+  const fetchLogs = async (from: number) => {
+    if (filters.record_id && !UUID_PATTERN.test(filters.record_id.trim())) {
+      toast.error('Record ID must be a full UUID');
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('audit_logs')
+        .select('*')
+        .order('timestamp', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (filters.table_name) query = query.eq('table_name', filters.table_name);
+      if (filters.action) query = query.eq('action', filters.action);
+      if (filters.record_id) query = query.eq('record_id', filters.record_id.trim());
+      if (filters.user) {
+        const user = filters.user.trim();
+        query = query.or(`user_email.ilike.%${user}%,user_id.ilike.%${user}%`);
+      }
+      if (filters.date_from) query = query.gte('timestamp', filters.date_from);
+      if (filters.date_to) query = query.lte('timestamp', `${filters.date_to}T23:59:59`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setLogs(prev => from === 0 ? (data || []) : [...prev, ...(data || [])]);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      toast.error('Failed to fetch audit logs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('audit_logs')
+        .select('*')
+        .eq('record_id', historyRecord)
+        .order('timestamp', { ascending: true });
+
+      if (historyTable) query = query.eq('table_name', historyTable);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching record history:', error);
+      toast.error('Failed to fetch record history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilterChange = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const toggleExpanded = (logId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(logId)) {
+        next.delete(logId);
+      } else {
+        next.add(logId);
+      }
+      return next;
+    });
+  };
+
+  const openHistory = (log: AuditLog) => {
+    setSearchParams({ table: log.table_name, record: log.record_id });
+  };
+
+  const closeHistory = () => {
+    setSearchParams({});
+  };
+
+  // Record history timeline
+  if (historyRecord) {
+    const latest = history[history.length - 1];
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-secondary-900">Record History</h1>
+            <p className="mt-1 text-sm text-secondary-500">
+              {latest ? describeAuditRecord(latest) : AUDITED_TABLES[historyTable] || historyTable}
+              <span className="ml-2 font-mono text-xs">{historyRecord}</span>
+            </p>
+          </div>
+          <button onClick={closeHistory} className="btn btn-secondary">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All Changes
+          </button>
+        </div>
+
+        <div className="card">
+          <div className="card-content">
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : history.length === 0 ? (
+              <div className="text-center py-12">
+                <History className="mx-auto h-12 w-12 text-secondary-400" />
+                <h3 className="mt-2 text-sm font-medium text-secondary-900">No history</h3>
+                <p className="mt-1 text-sm text-secondary-500">No changes have been logged for this record.</p>
+              </div>
+            ) : (
+              <ol className="relative border-l-2 border-secondary-200 ml-3 space-y-6">
+                {history.map((log) => (
+                  <li key={log.id} className="ml-6">
+                    <span className={`absolute -left-2 mt-1.5 h-3.5 w-3.5 rounded-full border-2 border-white ${
+                      log.action === 'INSERT' ? 'bg-success-500' : log.action === 'DELETE' ? 'bg-danger-500' : 'bg-warning-500'
+                    }`}></span>
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      {getActionBadge(log.action)}
+                      <span className="text-sm text-secondary-900">
+                        {new Date(log.timestamp).toLocaleString('en-IN')}
+                      </span>
+                      <span className="text-sm text-secondary-500">by {describeAuditUser(log)}</span>
+                    </div>
+                    <div className="bg-secondary-50 rounded-md p-3 overflow-x-auto">
+                      <AuditChanges log={log} />
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Audit Log</h1>
+        <p className="mt-1 text-sm text-secondary-500">
+          Every change to tickets, allotments, issuers, winners, prizes, campaigns and roles, with who made it and what changed
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Filter className="h-5 w-5 mr-2" />
+            Filters
+          </h3>
+        </div>
+        <div className="card-content">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Table</label>
+              <select
+                value={filters.table_name}
+                onChange={(e) => handleFilterChange('table_name', e.target.value)}
+                className="input"
+              >
+                <option value="">All tables</option>
+                {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                  <option key={table} value={table}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Action</label>
+              <select
+                value={filters.action}
+                onChange={(e) => handleFilterChange('action', e.target.value)}
+                className="input"
+              >
+                <option value="">All actions</option>
+                <option value="INSERT">Created</option>
+                <option value="UPDATE">Updated</option>
+                <option value="DELETE">Deleted</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Record ID</label>
+              <input
+                type="text"
+                value={filters.record_id}
+                onChange={(e) => handleFilterChange('record_id', e.target.value)}
+                className="input font-mono"
+                placeholder="UUID of the row"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">User</label>
+              <input
+                type="text"
+                value={filters.user}
+                onChange={(e) => handleFilterChange('user', e.target.value)}
+                className="input"
+                placeholder="Email or user ID"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">From</label>
+              <input
+                type="date"
+                value={filters.date_from}
+                onChange={(e) => handleFilterChange('date_from', e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">To</label>
+              <input
+                type="date"
+                value={filters.date_to}
+                onChange={(e) => handleFilterChange('date_to', e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <button onClick={resetFilters} className="btn btn-secondary">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset
+            </button>
+            <button onClick={() => fetchLogs(0)} disabled={loading} className="btn btn-primary">
+              <Filter className="h-4 w-4 mr-2" />
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Log */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <ClipboardList className="h-5 w-5 mr-2" />
+            Changes ({logs.length}{hasMore ? '+' : ''})
+          </h3>
+        </div>
+        <div className="card-content">
+          {logs.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell"></th>
+                    <th className="table-header-cell">Time</th>
+                    <th className="table-header-cell">Record</th>
+                    <th className="table-header-cell">Action</th>
+                    <th className="table-header-cell">User</th>
+                    <th className="table-header-cell">Fields</th>
+                    <th className="table-header-cell">History</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {logs.map((log) => {
+                    const isExpanded = expanded.has(log.id);
+                    const changes = getAuditChanges(log);
+                    return (
+                      <React.Fragment key={log.id}>
+                        <tr className="table-row cursor-pointer" onClick={() => toggleExpanded(log.id)}>
+                          <td className="table-cell">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </td>
+                          <td className="table-cell whitespace-nowrap">{new Date(log.timestamp).toLocaleString('en-IN')}</td>
+                          <td className="table-cell">
+                            <div className="font-medium">{describeAuditRecord(log)}</div>
+                            <div className="text-xs text-secondary-500">{AUDITED_TABLES[log.table_name] || log.table_name}</div>
+                          </td>
+                          <td className="table-cell">{getActionBadge(log.action)}</td>
+                          <td className="table-cell text-sm">{describeAuditUser(log)}</td>
+                          <td className="table-cell text-xs text-secondary-600">
+                            {log.action === 'UPDATE'
+                              ? changes.map(c => c.field).join(', ') || 'No field changes'
+                              : `${changes.length} fields`}
+                          </td>
+                          <td className="table-cell">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                openHistory(log);
+                              }}
+                              className="text-primary-600 hover:text-primary-800"
+                              title="Record history"
+                            >
+                              <History className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr>
+                            <td></td>
+                            <td colSpan={6} className="px-6 pb-4">
+                              <div className="bg-secondary-50 rounded-md p-3 overflow-x-auto">
+                                <AuditChanges log={log} />
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {hasMore && (
+                <div className="text-center mt-4">
+                  <button onClick={() => fetchLogs(logs.length)} disabled={loading} className="btn btn-secondary">
+                    {loading ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <ClipboardList className="mx-auto h-12 w-12 text-secondary-400" />
+              <h3 className="mt-2 text-sm font-medium text-secondary-900">No changes found</h3>
+              <p className="mt-1 text-sm text-secondary-500">Try different filters.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { supabase, Campaign, getTotalDiaries } from '../lib/supabase';
+import { useCampaign } from '../contexts/CampaignContext';
+import {
+  Plus,
+  Edit,
+  Save,
+  X,
+  CheckCircle,
+  Calendar,
+  Ticket,
+  BookOpen,
+  DollarSign
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface CampaignFormData {
+  campaign_name: string;
+  total_tickets: number;
+  tickets_per_diary: number;
+  ticket_price: number;
+  draw_date: string;
+}
+
+const Campaigns: React.FC = () => {
+  const { campaigns, refreshCampaigns } = useCampaign();
+  const [showForm, setShowForm] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [activating, setActivating] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<CampaignFormData>();
+
+  const watchedTotalTickets = Number(watch('total_tickets')) || 0;
+  const watchedTicketsPerDiary = Number(watch('tickets_per_diary')) || 0;
+
+  const onSubmit = async (data: CampaignFormData) => {
+    try {
+      if (editingCampaign) {
+        // Ticket count and diary size are fixed once diaries have been generated
+        const { error } = await supabase
+          .from('campaigns')
+          .update({
+            campaign_name: data.campaign_name.trim(),
+            ticket_price: Number(data.ticket_price),
+            draw_date: data.draw_date || null,
+          })
+          .eq('id', editingCampaign.id);
+
+        if (error) throw error;
+        toast.success('Campaign updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('campaigns')
+          .insert([{
+            campaign_name: data.campaign_name.trim(),
+            total_tickets: Number(data.total_tickets),
+            tickets_per_diary: Number(data.tickets_per_diary),
+            ticket_price: Number(data.ticket_price),
+            draw_date: data.draw_date || null,
+            is_active: false,
+          }]);
+
+        if (error) throw error;
+        toast.success('Campaign created and diaries generated');
+      }
+
+      handleCancel();
+      await refreshCampaigns();
+    } catch (error: any) {
+      console.error('Error saving campaign:', error);
+      toast.error(`Failed to save campaign: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  const handleEdit = (campaign: Campaign) => {
+    setEditingCampaign(campaign);
+    setValue('campaign_name', campaign.campaign_name);
+    setValue('total_tickets', campaign.total_tickets);
+    setValue('tickets_per_diary', campaign.tickets_per_diary);
+    setValue('ticket_price', campaign.ticket_price);
+    setValue('draw_date', campaign.draw_date || '');
+    setShowForm(true);
+  };
+
+  const handleCancel = () => {
+    reset();
+    setShowForm(false);
+    setEditingCampaign(null);
+  };
+
+  const handleSetActive = async (campaign: Campaign) => {
+    if (!window.confirm(`Make "${campaign.campaign_name}" the active campaign? All pages will switch to its tickets and diaries.`)) return;
+
+    try {
+      setActivating(campaign.id);
+      const { error } = await supabase.rpc('set_active_campaign', { p_campaign_id: campaign.id });
+
+      if (error) throw error;
+      toast.success(`${campaign.campaign_name} is now the active campaign`);
+      await refreshCampaigns();
+    } catch (error) {
+      console.error('Error activating campaign:', error);
+      toast.error('Failed to activate campaign');
+    } finally {
+      setActivating(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Campaigns</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Configure each year's draw: ticket count, diary size, ticket price and draw date
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="btn btn-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Campaign
+        </button>
+      </div>
+
+      {/* Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={handleCancel}></div>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-secondary-900">
+                      {editingCampaign ? 'Edit Campaign' : 'New Campaign'}
+                    </h3>
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      className="text-secondary-400 hover:text-secondary-600"
+                    >
+                      <X className="h-6 w-6" />
+                    </button>
+                  </div>
+
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-secondary-700 mb-1">
+                        Campaign Name *
+                      </label>
+                      <input
+                        type="text"
+                        {...register('campaign_name', { required: 'Campaign name is required' })}
+                        className="input"
+                        placeholder="e.g., Lottery 2026"
+                      />
+                      {errors.campaign_name && (
+                        <p className="mt-1 text-sm text-danger-600">{errors.campaign_name.message}</p>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                          <Ticket className="h-4 w-4 inline mr-1" />
+                          Total Tickets *
+                        </label>
+                        <input
+                          type="number"
+                          {...register('total_tickets', {
+                            required: 'Total tickets is required',
+                            min: { value: 1, message: 'Must be at least 1' }
+                          })}
+                          className="input"
+                          placeholder="39999"
+                          disabled={!!editingCampaign}
+                        />
+                        {errors.total_tickets && (
+                          <p className="mt-1 text-sm text-danger-600">{errors.total_tickets.message}</p>
+                        )}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                          <BookOpen className="h-4 w-4 inline mr-1" />
+                          Tickets per Diary *
+                        </label>
+                        <input
+                          type="number"
+                          {...register('tickets_per_diary', {
+                            required: 'Diary size is required',
+                            min: { value: 1, message: 'Must be at least 1' }
+                          })}
+                          className="input"
+                          placeholder="22"
+                          disabled={!!editingCampaign}
+                        />
+                        {errors.tickets_per_diary && (
+                          <p className="mt-1 text-sm text-danger-600">{errors.tickets_per_diary.message}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    {!editingCampaign && watchedTotalTickets > 0 && watchedTicketsPerDiary > 0 && (
+                      <div className="bg-primary-50 border border-primary-200 rounded-md p-3 text-sm text-primary-700">
+                        {Math.ceil(watchedTotalTickets / watchedTicketsPerDiary).toLocaleString()} diaries will be generated
+                        {watchedTotalTickets % watchedTicketsPerDiary !== 0 && (
+                          <> (last diary has {watchedTotalTickets % watchedTicketsPerDiary} tickets)</>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                          <DollarSign className="h-4 w-4 inline mr-1" />
+                          Ticket Price (₹) *
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register('ticket_price', {
+                            required: 'Ticket price is required',
+                            min: { value: 0, message: 'Price must be positive' }
+                          })}
+                          className="input"
+                          placeholder="500.00"
+                        />
+                        {errors.ticket_price && (
+                          <p className="mt-1 text-sm text-danger-600">{errors.ticket_price.message}</p>
+                        )}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                          <Calendar className="h-4 w-4 inline mr-1" />
+                          Draw Date
+                        </label>
+                        <input
+                          type="date"
+                          {...register('draw_date')}
+                          className="input"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                  <button
+                    type="submit"
+                    className="btn btn-primary sm:ml-3 sm:w-auto"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {editingCampaign ? 'Update' : 'Create'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="btn btn-secondary sm:w-auto"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Campaigns Table */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900">
+            Campaigns ({campaigns.length})
+          </h3>
+        </div>
+        <div className="card-content">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead className="table-header">
+                <tr>
+                  <th className="table-header-cell">Name</th>
+                  <th className="table-header-cell">Tickets</th>
+                  <th className="table-header-cell">Diaries</th>
+                  <th className="table-header-cell">Ticket Price</th>
+                  <th className="table-header-cell">Draw Date</th>
+                  <th className="table-header-cell">Status</th>
+                  <th className="table-header-cell">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="table-body">
+                {campaigns.map((campaign) => (
+                  <tr key={campaign.id} className="table-row">
+                    <td className="table-cell font-medium">{campaign.campaign_name}</td>
+                    <td className="table-cell">{campaign.total_tickets.toLocaleString()}</td>
+                    <td className="table-cell">
+                      {getTotalDiaries(campaign).toLocaleString()}
+                      <div className="text-xs text-secondary-500">{campaign.tickets_per_diary} tickets each</div>
+                    </td>
+                    <td className="table-cell">₹{campaign.ticket_price.toLocaleString()}</td>
+                    <td className="table-cell">
+                      {campaign.draw_date ? new Date(campaign.draw_date).toLocaleDateString('en-IN') : <span className="text-secondary-400">Not set</span>}
+                    </td>
+                    <td className="table-cell">
+                      {campaign.is_active ? (
+                        <span className="badge badge-success">Active</span>
+                      ) : (
+                        <span className="badge badge-secondary">Inactive</span>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleEdit(campaign)}
+                          className="text-primary-600 hover:text-primary-800"
+                          title="Edit"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        {!campaign.is_active && (
+                          <button
+                            onClick={() => handleSetActive(campaign)}
+                            disabled={activating === campaign.id}
+                            className="text-success-600 hover:text-success-800"
+                            title="Set as active campaign"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Campaigns;
@@ -0,0 +1,333 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, TicketSale, DonationCertificate } from '../lib/supabase';
+import {
+  getFinancialYear,
+  getFinancialYearRange,
+  getRecentFinancialYears,
+  formatCertificateNumber,
+  downloadCertificatePDF,
+  exportCertificateRegister
+} from '../lib/certificates';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Award,
+  Search,
+  Download,
+  FileSpreadsheet,
+  FileText
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Donations of one PAN in the financial year
+interface DonorSummary {
+  donor_pan: string;
+  donor_name: string;
+  donor_contact: string;
+  donation_count: number;
+  total_amount: number;
+  uncertified_count: number;
+  uncertified_amount: number;
+  certificates: DonationCertificate[];
+}
+
+const Certificates: React.FC = () => {
+  const { hasRole } = useAuth();
+  // Certificates cover a financial year across campaigns, so closed campaigns do not matter here
+  const canIssue = hasRole('admin', 'clerk');
+  const [financialYear, setFinancialYear] = useState(getFinancialYear());
+  const [donors, setDonors] = useState<DonorSummary[]>([]);
+  const [certificates, setCertificates] = useState<DonationCertificate[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [issuingPan, setIssuingPan] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [financialYear]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const range = getFinancialYearRange(financialYear);
+
+      // Tickets with a PAN in the financial year, from every campaign
+      let tickets: TicketSale[] = [];
+      let from = 0;
+      const pageSize = 1000;
+      let hasMore = true;
+
+      while (hasMore) {
+        const { data: ticketsPage, error: ticketsError } = await supabase
+          .from('ticket_sales')
+          .select('*')
+          .not('donor_pan', 'is', null)
+          .gte('purchase_date', range.start)
+          .lte('purchase_date', range.end)
+          .order('purchase_date', { ascending: false })
+          .range(from, from + pageSize - 1);
+
+        if (ticketsError) throw ticketsError;
+
+        tickets = [...tickets, ...(ticketsPage || [])];
+        from += pageSize;
+        hasMore = (ticketsPage?.length || 0) === pageSize;
+      }
+
+      const { data: certificatesData, error: certificatesError } = await supabase
+        .from('donation_certificates')
+        .select('*')
+        .eq('financial_year', financialYear)
+        .order('certificate_number', { ascending: false });
+
+      if (certificatesError) throw certificatesError;
+
+      const certifiedIds = new Set((certificatesData || []).flatMap(certificate => certificate.ticket_sale_ids));
+      const summaries = new Map<string, DonorSummary>();
+
+      // Tickets are newest first, so the first ticket of a PAN gives its current name
+      tickets.forEach(ticket => {
+        const pan = ticket.donor_pan!;
+        const summary = summaries.get(pan) || {
+          donor_pan: pan,
+          donor_name: ticket.purchaser_name,
+          donor_contact: ticket.purchaser_contact,
+          donation_count: 0,
+          total_amount: 0,
+          uncertified_count: 0,
+          uncertified_amount: 0,
+          certificates: (certificatesData || []).filter(certificate => certificate.donor_pan === pan),
+        };
+        summary.donation_count += 1;
+        summary.total_amount += Number(ticket.amount_paid);
+        if (!certifiedIds.has(ticket.id)) {
+          summary.uncertified_count += 1;
+          summary.uncertified_amount += Number(ticket.amount_paid);
+        }
+        summaries.set(pan, summary);
+      });
+
+      setDonors(Array.from(summaries.values()).sort((a, b) => a.donor_name.localeCompare(b.donor_name)));
+      setCertificates(certificatesData || []);
+    } catch (error) {
+      console.error('Error fetching certificates:', error);
+      toast.error('Failed to fetch 80G data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleIssue = async (donor: DonorSummary) => {
+    if (!window.confirm(`Issue an 80G certificate to ${donor.donor_name} (${donor.donor_pan}) for ₹${donor.uncertified_amount.toLocaleString()} in ${donor.uncertified_count} donations?`)) return;
+
+    try {
+      setIssuingPan(donor.donor_pan);
+      const { data, error } = await supabase.rpc('issue_80g_certificate', {
+        p_donor_pan: donor.donor_pan,
+        p_financial_year: financialYear,
+      });
+
+      if (error) throw error;
+
+      const certificate = data as DonationCertificate;
+      toast.success(`Certificate ${formatCertificateNumber(certificate)} issued`);
+      downloadCertificatePDF(certificate);
+      fetchData();
+    } catch (error: any) {
+      console.error('Error issuing certificate:', error);
+      toast.error(`Failed to issue certificate: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setIssuingPan(null);
+    }
+  };
+
+  const matchesSearch = (name: string, pan: string) =>
+    name.toLowerCase().includes(searchTerm.toLowerCase()) || pan.includes(searchTerm.toUpperCase());
+
+  const filteredDonors = donors.filter(donor => matchesSearch(donor.donor_name, donor.donor_pan));
+  const filteredCertificates = certificates.filter(certificate => matchesSearch(certificate.donor_name, certificate.donor_pan));
+  const pendingDonors = donors.filter(donor => donor.uncertified_count > 0).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">80G Certificates</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Issue 80G certificates per donor PAN and financial year, and export the register for the annual filing
+          </p>
+        </div>
+        <button
+          onClick={() => exportCertificateRegister(certificates, financialYear)}
+          disabled={certificates.length === 0}
+          className="btn btn-secondary"
+        >
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Export Register
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <select
+          value={financialYear}
+          onChange={(e) => setFinancialYear(e.target.value)}
+          className="input md:w-48"
+        >
+          {getRecentFinancialYears(5).map((year) => (
+            <option key={year} value={year}>FY {year}</option>
+          ))}
+        </select>
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-secondary-400" />
+          <input
+            type="text"
+            placeholder="Search by donor name or PAN..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="input pl-10"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Donors */}
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Award className="h-5 w-5 mr-2" />
+                Donors with PAN ({filteredDonors.length}, {pendingDonors} awaiting a certificate)
+              </h3>
+            </div>
+            <div className="card-content">
+              {filteredDonors.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="table">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="table-header-cell">Donor</th>
+                        <th className="table-header-cell">PAN</th>
+                        <th className="table-header-cell">Donations</th>
+                        <th className="table-header-cell">Total</th>
+                        <th className="table-header-cell">Not Yet Certified</th>
+                        <th className="table-header-cell">Certificates</th>
+                        <th className="table-header-cell">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="table-body">
+                      {filteredDonors.map((donor) => (
+                        <tr key={donor.donor_pan} className="table-row">
+                          <td className="table-cell">
+                            <div className="font-medium">{donor.donor_name}</div>
+                            <div className="text-xs text-secondary-500 font-mono">{donor.donor_contact}</div>
+                          </td>
+                          <td className="table-cell font-mono">{donor.donor_pan}</td>
+                          <td className="table-cell">{donor.donation_count}</td>
+                          <td className="table-cell font-medium">₹{donor.total_amount.toLocaleString()}</td>
+                          <td className="table-cell">
+                            {donor.uncertified_count > 0 ? (
+                              <span className="badge badge-warning">
+                                ₹{donor.uncertified_amount.toLocaleString()} ({donor.uncertified_count})
+                              </span>
+                            ) : (
+                              <span className="badge badge-success">All certified</span>
+                            )}
+                          </td>
+                          <td className="table-cell text-sm">
+                            {donor.certificates.length > 0
+                              ? donor.certificates.map(certificate => formatCertificateNumber(certificate)).join(', ')
+                              : '-'}
+                          </td>
+                          <td className="table-cell">
+                            {canIssue && donor.uncertified_count > 0 && (
+                              <button
+                                onClick={() => handleIssue(donor)}
+                                disabled={issuingPan === donor.donor_pan}
+                                className="btn btn-primary btn-sm"
+                              >
+                                <FileText className="h-4 w-4 mr-1" />
+                                {issuingPan === donor.donor_pan ? 'Issuing...' : 'Issue'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <Award className="mx-auto h-12 w-12 text-secondary-400" />
+                  <h3 className="mt-2 text-sm font-medium text-secondary-900">No donors with PAN</h3>
+                  <p className="mt-1 text-sm text-secondary-500">
+                    Enter the donor's PAN on the ticket to make them eligible for an 80G certificate.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Register */}
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-secondary-900">
+                Certificate Register FY {financialYear} ({filteredCertificates.length})
+              </h3>
+            </div>
+            <div className="card-content">
+              {filteredCertificates.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="table">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="table-header-cell">Certificate No.</th>
+                        <th className="table-header-cell">Issued</th>
+                        <th className="table-header-cell">Donor</th>
+                        <th className="table-header-cell">PAN</th>
+                        <th className="table-header-cell">Donations</th>
+                        <th className="table-header-cell">Amount</th>
+                        <th className="table-header-cell">Issued By</th>
+                        <th className="table-header-cell">PDF</th>
+                      </tr>
+                    </thead>
+                    <tbody className="table-body">
+                      {filteredCertificates.map((certificate) => (
+                        <tr key={certificate.id} className="table-row">
+                          <td className="table-cell font-mono font-medium">{formatCertificateNumber(certificate)}</td>
+                          <td className="table-cell">{new Date(certificate.issued_at).toLocaleDateString('en-IN')}</td>
+                          <td className="table-cell">{certificate.donor_name}</td>
+                          <td className="table-cell font-mono">{certificate.donor_pan}</td>
+                          <td className="table-cell">{certificate.donation_count}</td>
+                          <td className="table-cell font-medium">₹{Number(certificate.total_amount).toLocaleString()}</td>
+                          <td className="table-cell text-sm">{certificate.issued_by_email || '-'}</td>
+                          <td className="table-cell">
+                            <button
+                              onClick={() => downloadCertificatePDF(certificate)}
+                              className="text-primary-600 hover:text-primary-800"
+                              title="Download PDF"
+                            >
+                              <Download className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-secondary-500">No certificates issued in FY {financialYear}.</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Certificates;
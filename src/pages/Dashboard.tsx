@@ -17,9 +17,16 @@ import {
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import * as XLSX from 'xlsx';
+import { useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
 
 const Dashboard: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { hasRole } = useAuth();
+  // Viewers only get the campaign totals, not the per-issuer figures or ticket lists
+  const canSeeIssuers = hasRole('admin', 'clerk');
   const [stats, setStats] = useState<DashboardStats>({
+    campaign_id: campaign.id,
     total_tickets_sold: 0,
     total_revenue: 0,
     diaries_allotted: 0,
@@ -37,23 +44,24 @@ const Dashboard: React.FC = () => {
   const [showMissingTickets, setShowMissingTickets] = useState(false);
 
   useEffect(() => {
+    setMissingTickets(null);
+    setShowMissingTickets(false);
     fetchDashboardData();
-  }, []);
+  }, [campaign.id]);
 
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
       
-      // Fetch dashboard stats
+      // Fetch dashboard stats (through a function, so viewers get the totals too)
       const { data: statsData, error: statsError } = await supabase
-        .from('dashboard_stats')
-        .select('*')
-        .single();
+        .rpc('get_dashboard_stats', { p_campaign_id: campaign.id });
 
       if (statsError) {
         console.error('Error fetching dashboard stats:', statsError);
         // Use default values if view doesn't exist yet
         setStats({
+          campaign_id: campaign.id,
           total_tickets_sold: 0,
           total_revenue: 0,
           diaries_allotted: 0,
@@ -66,6 +74,7 @@ const Dashboard: React.FC = () => {
         });
       } else {
         setStats(statsData || {
+          campaign_id: campaign.id,
           total_tickets_sold: 0,
           total_revenue: 0,
           diaries_allotted: 0,
@@ -78,10 +87,16 @@ const Dashboard: React.FC = () => {
         });
       }
 
+      if (!canSeeIssuers) {
+        setIssuerPerformance([]);
+        return;
+      }
+
       // Fetch issuer performance
       const { data: issuerData, error: issuerError } = await supabase
         .from('issuer_performance')
         .select('*')
+        .eq('campaign_id', campaign.id)
         .order('total_collected', { ascending: false });
 
       if (issuerError) {
@@ -100,7 +115,7 @@ const Dashboard: React.FC = () => {
   const handleCheckMissingTickets = async () => {
     try {
       setLoadingMissingTickets(true);
-      const result = await getMissingTickets();
+      const result = await getMissingTickets(campaign);
       setMissingTickets(result);
       setShowMissingTickets(true);
     } catch (error) {
@@ -233,7 +248,7 @@ const Dashboard: React.FC = () => {
   const topIssuers = issuerPerformance
     .map(issuer => ({
       ...issuer,
-      total_amount_received: (issuer.diaries_paid || 0) * 11000
+      total_amount_received: issuer.total_received || 0
     }))
     .sort((a, b) => b.total_amount_received - a.total_amount_received)
     .slice(0, 10);
@@ -248,14 +263,16 @@ const Dashboard: React.FC = () => {
             Overview of lottery ticket sales and diary management
           </p>
         </div>
-        <button
-          onClick={handleCheckMissingTickets}
-          disabled={loadingMissingTickets}
-          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-        >
-          <Search className="h-4 w-4" />
-          {loadingMissingTickets ? 'Checking...' : 'Check Missing Tickets'}
-        </button>
+        {canSeeIssuers && (
+          <button
+            onClick={handleCheckMissingTickets}
+            disabled={loadingMissingTickets}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Search className="h-4 w-4" />
+            {loadingMissingTickets ? 'Checking...' : 'Check Missing Tickets'}
+          </button>
+        )}
       </div>
 
       {/* Stats Grid */}
@@ -382,32 +399,34 @@ const Dashboard: React.FC = () => {
         </div>
 
         {/* Top Issuers Bar Chart */}
-        <div className="card">
-          <div className="card-header">
-            <h3 className="text-lg font-medium text-secondary-900">Top Issuers by Total Amount Received</h3>
-          </div>
-          <div className="card-content">
-            <div className="h-80">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={topIssuers}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="issuer_name" 
-                    angle={-45}
-                    textAnchor="end"
-                    height={100}
-                    fontSize={12}
-                  />
-                  <YAxis />
-                  <Tooltip 
-                    formatter={(value: number) => [`₹${value.toLocaleString()}`, 'Total Amount Received']}
-                  />
-                  <Bar dataKey="total_amount_received" fill="#0ea5e9" />
-                </BarChart>
-              </ResponsiveContainer>
+        {canSeeIssuers && (
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-secondary-900">Top Issuers by Total Amount Received</h3>
+            </div>
+            <div className="card-content">
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={topIssuers}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis 
+                      dataKey="issuer_name" 
+                      angle={-45}
+                      textAnchor="end"
+                      height={100}
+                      fontSize={12}
+                    />
+                    <YAxis />
+                    <Tooltip 
+                      formatter={(value: number) => [`₹${value.toLocaleString()}`, 'Total Amount Received']}
+                    />
+                    <Bar dataKey="total_amount_received" fill="#0ea5e9" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Missing Tickets Section */}
@@ -415,7 +434,7 @@ const Dashboard: React.FC = () => {
         <div className="card">
           <div className="card-header flex items-center justify-between">
             <h3 className="text-lg font-medium text-secondary-900">
-              Missing Lottery Tickets (1-39999)
+              Missing Lottery Tickets (1-{campaign.total_tickets})
             </h3>
             <div className="flex items-center gap-2">
               <button
@@ -511,53 +530,55 @@ const Dashboard: React.FC = () => {
       )}
 
       {/* Issuer Performance Table */}
-      <div className="card">
-        <div className="card-header">
-          <h3 className="text-lg font-medium text-secondary-900">Issuer Performance</h3>
-        </div>
-        <div className="card-content">
-          <div className="overflow-x-auto">
-            <table className="table">
-              <thead className="table-header">
-                <tr>
-                  <th className="table-header-cell">Issuer Name</th>
-                  <th className="table-header-cell">Contact</th>
-                  <th className="table-header-cell">Diaries Allotted</th>
-                  <th className="table-header-cell">Diaries Paid</th>
-                  <th className="table-header-cell">Tickets Sold</th>
-                  <th className="table-header-cell">Amount Collected</th>
-                  <th className="table-header-cell">Expected Amount</th>
-                  <th className="table-header-cell">Total Amount Received</th>
-                  <th className="table-header-cell">Collection %</th>
-                </tr>
-              </thead>
-              <tbody className="table-body">
-                {issuerPerformance.map((issuer) => (
-                  <tr key={issuer.id} className="table-row">
-                    <td className="table-cell font-medium">{issuer?.issuer_name || 'N/A'}</td>
-                    <td className="table-cell">{issuer?.contact_number || 'N/A'}</td>
-                    <td className="table-cell">{issuer?.diaries_allotted || 0}</td>
-                    <td className="table-cell">{issuer?.diaries_paid || 0}</td>
-                    <td className="table-cell">{issuer?.tickets_sold || 0}</td>
-                    <td className="table-cell">₹{issuer?.total_collected?.toLocaleString() || '0'}</td>
-                    <td className="table-cell">₹{issuer?.expected_amount?.toLocaleString() || '0'}</td>
-                    <td className="table-cell">₹{((issuer?.diaries_paid || 0) * 11000).toLocaleString()}</td>
-                    <td className="table-cell">
-                      <span className={`
-                        badge
-                        ${(issuer?.collection_percentage || 0) >= 80 ? 'badge-success' : 
-                          (issuer?.collection_percentage || 0) >= 50 ? 'badge-warning' : 'badge-danger'}
-                      `}>
-                        {issuer?.collection_percentage || 0}%
-                      </span>
-                    </td>
+      {canSeeIssuers && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-secondary-900">Issuer Performance</h3>
+          </div>
+          <div className="card-content">
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Issuer Name</th>
+                    <th className="table-header-cell">Contact</th>
+                    <th className="table-header-cell">Diaries Allotted</th>
+                    <th className="table-header-cell">Diaries Paid</th>
+                    <th className="table-header-cell">Tickets Sold</th>
+                    <th className="table-header-cell">Amount Collected</th>
+                    <th className="table-header-cell">Expected Amount</th>
+                    <th className="table-header-cell">Total Amount Received</th>
+                    <th className="table-header-cell">Collection %</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody className="table-body">
+                  {issuerPerformance.map((issuer) => (
+                    <tr key={issuer.id} className="table-row">
+                      <td className="table-cell font-medium">{issuer?.issuer_name || 'N/A'}</td>
+                      <td className="table-cell">{issuer?.contact_number || 'N/A'}</td>
+                      <td className="table-cell">{issuer?.diaries_allotted || 0}</td>
+                      <td className="table-cell">{issuer?.diaries_paid || 0}</td>
+                      <td className="table-cell">{issuer?.tickets_sold || 0}</td>
+                      <td className="table-cell">₹{issuer?.total_collected?.toLocaleString() || '0'}</td>
+                      <td className="table-cell">₹{issuer?.expected_amount?.toLocaleString() || '0'}</td>
+                      <td className="table-cell">₹{(issuer?.total_received || 0).toLocaleString()}</td>
+                      <td className="table-cell">
+                        <span className={`
+                          badge
+                          ${(issuer?.collection_percentage || 0) >= 80 ? 'badge-success' : 
+                            (issuer?.collection_percentage || 0) >= 50 ? 'badge-warning' : 'badge-danger'}
+                        `}>
+                          {issuer?.collection_percentage || 0}%
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
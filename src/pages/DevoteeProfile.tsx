@@ -0,0 +1,503 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { supabase, Devotee, TicketSale, LotteryWinner, AuditLog, PAN_PATTERN, formatLotteryNumber, normalizePhone } from '../lib/supabase';
+import { fetchInChunks } from '../lib/ticketImport';
+import { formatReceiptNumber } from '../lib/receipts';
+import { describeAuditUser } from '../lib/audit';
+import { useAuth } from '../contexts/AuthContext';
+import AuditChanges from '../components/AuditChanges';
+import {
+  ArrowLeft,
+  UserRound,
+  Phone,
+  MapPin,
+  Edit,
+  Save,
+  X,
+  Ticket,
+  Trophy,
+  Users,
+  History
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface DevoteeFormData {
+  full_name: string;
+  phone: string;
+  address: string;
+  pan: string;
+  notes: string;
+}
+
+interface IssuerSummary {
+  issuer_name: string;
+  ticket_count: number;
+  total_amount: number;
+}
+
+// Ticket fields shown as the devotee's contact details in the edit history
+const CONTACT_FIELDS = ['purchaser_name', 'purchaser_contact', 'purchaser_address', 'donor_pan'];
+
+// Everything known about one devotee: tickets across diaries and campaigns, the issuers they
+// bought through, prizes won and (for admins) how their contact details were edited.
+const DevoteeProfile: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { hasRole } = useAuth();
+  // Devotees span campaigns, so closed campaigns do not matter here
+  const canEdit = hasRole('admin', 'clerk');
+  // The audit log can only be read by admins
+  const canViewHistory = hasRole('admin');
+  const [devotee, setDevotee] = useState<Devotee | null>(null);
+  const [tickets, setTickets] = useState<TicketSale[]>([]);
+  const [winners, setWinners] = useState<LotteryWinner[]>([]);
+  const [history, setHistory] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<DevoteeFormData>();
+
+  useEffect(() => {
+    fetchProfile();
+  }, [id]);
+
+  const fetchProfile = async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      const { data: devoteeData, error: devoteeError } = await supabase
+        .from('devotees')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (devoteeError) throw devoteeError;
+      setDevotee(devoteeData);
+      if (!devoteeData) return;
+
+      const { data: ticketsData, error: ticketsError } = await supabase
+        .from('ticket_sales')
+        .select(`
+          *,
+          issuer:issuers(*),
+          diary:diaries(*),
+          campaign:campaigns(*)
+        `)
+        .eq('devotee_id', id)
+        .order('purchase_date', { ascending: false });
+
+      if (ticketsError) throw ticketsError;
+
+      const ticketIds = (ticketsData || []).map(ticket => ticket.id);
+      const winnersData = await fetchInChunks<LotteryWinner>(ticketIds, chunk =>
+        supabase
+          .from('lottery_winners')
+          .select('*')
+          .in('ticket_sale_id', chunk)
+      );
+
+      setTickets(ticketsData || []);
+      setWinners(winnersData.sort((a, b) => b.registered_at.localeCompare(a.registered_at)));
+
+      if (canViewHistory) {
+        const { data: devoteeLogs, error: devoteeLogsError } = await supabase
+          .from('audit_logs')
+          .select('*')
+          .eq('table_name', 'devotees')
+          .eq('record_id', id);
+
+        if (devoteeLogsError) throw devoteeLogsError;
+
+        // Contact details typed on the tickets that were corrected later
+        const ticketLogs = await fetchInChunks<AuditLog>(ticketIds, chunk =>
+          supabase
+            .from('audit_logs')
+            .select('*')
+            .eq('table_name', 'ticket_sales')
+            .eq('action', 'UPDATE')
+            .in('record_id', chunk)
+        );
+        const contactLogs = ticketLogs.filter(log =>
+          CONTACT_FIELDS.some(field => JSON.stringify(log.old_values?.[field]) !== JSON.stringify(log.new_values?.[field]))
+        );
+
+        setHistory([...(devoteeLogs || []), ...contactLogs].sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+      }
+    } catch (error) {
+      console.error('Error fetching devotee:', error);
+      toast.error('Failed to fetch devotee');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = () => {
+    if (!devotee) return;
+    reset({
+      full_name: devotee.full_name,
+      phone: devotee.phone || '',
+      address: devotee.address || '',
+      pan: devotee.pan || '',
+      notes: devotee.notes || '',
+    });
+    setEditing(true);
+  };
+
+  const onSubmit = async (data: DevoteeFormData) => {
+    if (!devotee) return;
+
+    try {
+      const { error } = await supabase
+        .from('devotees')
+        .update({
+          full_name: data.full_name.trim(),
+          phone: normalizePhone(data.phone) || null,
+          address: data.address.trim() || null,
+          pan: data.pan.trim().toUpperCase() || null,
+          notes: data.notes.trim() || null,
+        })
+        .eq('id', devotee.id);
+
+      if (error) throw error;
+      toast.success('Devotee updated');
+      setEditing(false);
+      fetchProfile();
+    } catch (error: any) {
+      console.error('Error updating devotee:', error);
+      toast.error(`Failed to update devotee: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!devotee) {
+    return (
+      <div className="text-center py-12">
+        <UserRound className="mx-auto h-12 w-12 text-secondary-400" />
+        <h3 className="mt-2 text-sm font-medium text-secondary-900">Devotee not found</h3>
+        <p className="mt-1 text-sm text-secondary-500">
+          The record may have been merged into another devotee.
+        </p>
+        <Link to="/devotees" className="btn btn-secondary mt-4">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All Devotees
+        </Link>
+      </div>
+    );
+  }
+
+  const totalAmount = tickets.reduce((sum, ticket) => sum + Number(ticket.amount_paid), 0);
+  const campaignCount = new Set(tickets.map(ticket => ticket.campaign_id)).size;
+  const ticketById = new Map(tickets.map(ticket => [ticket.id, ticket]));
+
+  const issuerSummaries = new Map<string, IssuerSummary>();
+  tickets.forEach(ticket => {
+    const summary = issuerSummaries.get(ticket.issuer_id) || {
+      issuer_name: ticket.issuer?.issuer_name || 'Unknown',
+      ticket_count: 0,
+      total_amount: 0,
+    };
+    summary.ticket_count += 1;
+    summary.total_amount += Number(ticket.amount_paid);
+    issuerSummaries.set(ticket.issuer_id, summary);
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/devotees" className="text-sm text-primary-600 hover:text-primary-800 flex items-center mb-1">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All Devotees
+          </Link>
+          <h1 className="text-2xl font-bold text-secondary-900">{devotee.full_name}</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Devotee since {new Date(devotee.created_at).toLocaleDateString('en-IN')}
+          </p>
+        </div>
+        {canEdit && !editing && (
+          <button onClick={handleEdit} className="btn btn-secondary">
+            <Edit className="h-4 w-4 mr-2" />
+            Edit Details
+          </button>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Tickets</p>
+          <p className="text-2xl font-bold text-secondary-900">{tickets.length}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Total Donated</p>
+          <p className="text-2xl font-bold text-secondary-900">₹{totalAmount.toLocaleString()}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Campaigns</p>
+          <p className="text-2xl font-bold text-secondary-900">{campaignCount}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Prizes Won</p>
+          <p className="text-2xl font-bold text-secondary-900">{winners.length}</p>
+        </div>
+      </div>
+
+      {/* Contact details */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <UserRound className="h-5 w-5 mr-2" />
+            Contact Details
+          </h3>
+        </div>
+        <div className="card-content">
+          {editing ? (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">Name *</label>
+                  <input
+                    type="text"
+                    {...register('full_name', { required: 'Name is required' })}
+                    className="input"
+                  />
+                  {errors.full_name && (
+                    <p className="mt-1 text-sm text-danger-600">{errors.full_name.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">Phone</label>
+                  <input type="tel" {...register('phone')} className="input" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">Address</label>
+                  <textarea {...register('address')} className="input min-h-[80px] resize-none" rows={3} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">PAN</label>
+                  <input
+                    type="text"
+                    {...register('pan', {
+                      validate: (value) => !value.trim() || PAN_PATTERN.test(value.trim().toUpperCase()) || 'Enter a valid PAN, e.g. ABCDE1234F'
+                    })}
+                    className="input font-mono uppercase"
+                    maxLength={10}
+                  />
+                  {errors.pan && (
+                    <p className="mt-1 text-sm text-danger-600">{errors.pan.message}</p>
+                  )}
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-secondary-700 mb-1">Notes</label>
+                  <input type="text" {...register('notes')} className="input" />
+                </div>
+              </div>
+              <p className="text-xs text-secondary-500">
+                Changes apply to the devotee record. Names and numbers typed on past tickets stay as they were.
+              </p>
+              <div className="flex justify-end space-x-3">
+                <button type="button" onClick={() => setEditing(false)} className="btn btn-secondary">
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </button>
+                <button type="submit" disabled={isSubmitting} className="btn btn-primary">
+                  <Save className="h-4 w-4 mr-2" />
+                  {isSubmitting ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div className="flex items-center">
+                <Phone className="h-4 w-4 mr-2 text-secondary-400" />
+                <span className="font-mono">{devotee.phone || '-'}</span>
+              </div>
+              <div className="flex items-start">
+                <MapPin className="h-4 w-4 mr-2 mt-0.5 text-secondary-400" />
+                <span>{devotee.address || '-'}</span>
+              </div>
+              <div>
+                <span className="text-secondary-600">PAN: </span>
+                <span className="font-mono">{devotee.pan || '-'}</span>
+              </div>
+              {devotee.notes && (
+                <div>
+                  <span className="text-secondary-600">Notes: </span>
+                  <span className="whitespace-pre-line">{devotee.notes}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Prizes won */}
+      {winners.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+              <Trophy className="h-5 w-5 mr-2" />
+              Prizes Won ({winners.length})
+            </h3>
+          </div>
+          <div className="card-content">
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Campaign</th>
+                    <th className="table-header-cell">Lottery Number</th>
+                    <th className="table-header-cell">Prize</th>
+                    <th className="table-header-cell">Registered</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {winners.map((winner) => (
+                    <tr key={winner.id} className="table-row">
+                      <td className="table-cell">
+                        {ticketById.get(winner.ticket_sale_id || '')?.campaign?.campaign_name || '-'}
+                      </td>
+                      <td className="table-cell font-mono font-medium">{formatLotteryNumber(winner.lottery_number)}</td>
+                      <td className="table-cell">
+                        <span className="badge badge-success">{winner.prize_category}</span>
+                      </td>
+                      <td className="table-cell">{new Date(winner.registered_at).toLocaleDateString('en-IN')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Issuers */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Bought Through ({issuerSummaries.size} {issuerSummaries.size === 1 ? 'issuer' : 'issuers'})
+          </h3>
+        </div>
+        <div className="card-content">
+          {issuerSummaries.size > 0 ? (
+            <div className="flex flex-wrap gap-3">
+              {Array.from(issuerSummaries.values())
+                .sort((a, b) => b.ticket_count - a.ticket_count)
+                .map((summary) => (
+                  <div key={summary.issuer_name} className="bg-secondary-50 rounded-lg px-4 py-2">
+                    <p className="font-medium text-secondary-900">{summary.issuer_name}</p>
+                    <p className="text-sm text-secondary-600">
+                      {summary.ticket_count} tickets | ₹{summary.total_amount.toLocaleString()}
+                    </p>
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="text-sm text-secondary-500">No tickets yet.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Tickets */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Ticket className="h-5 w-5 mr-2" />
+            Tickets ({tickets.length})
+          </h3>
+        </div>
+        <div className="card-content">
+          {tickets.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Campaign</th>
+                    <th className="table-header-cell">Lottery Number</th>
+                    <th className="table-header-cell">Receipt</th>
+                    <th className="table-header-cell">Diary</th>
+                    <th className="table-header-cell">Issuer</th>
+                    <th className="table-header-cell">Date</th>
+                    <th className="table-header-cell">Amount</th>
+                    <th className="table-header-cell">Name on Ticket</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {tickets.map((ticket) => (
+                    <tr key={ticket.id} className="table-row">
+                      <td className="table-cell">
+                        {ticket.campaign?.campaign_name || '-'}
+                        {ticket.campaign?.is_active && <span className="badge badge-success ml-2">Active</span>}
+                      </td>
+                      <td className="table-cell font-mono font-medium">
+                        {formatLotteryNumber(ticket.lottery_number)}
+                        {winners.some(winner => winner.ticket_sale_id === ticket.id) && (
+                          <Trophy className="h-4 w-4 inline ml-1 text-warning-500" />
+                        )}
+                      </td>
+                      <td className="table-cell font-mono text-sm">{formatReceiptNumber(ticket.receipt_number)}</td>
+                      <td className="table-cell">
+                        <span className="badge badge-secondary">Diary {ticket.diary?.diary_number}</span>
+                      </td>
+                      <td className="table-cell">{ticket.issuer?.issuer_name || '-'}</td>
+                      <td className="table-cell">{new Date(ticket.purchase_date).toLocaleDateString('en-IN')}</td>
+                      <td className="table-cell font-medium">₹{Number(ticket.amount_paid).toLocaleString()}</td>
+                      <td className="table-cell text-sm">
+                        <div>{ticket.purchaser_name}</div>
+                        <div className="text-secondary-500 font-mono">{ticket.purchaser_contact}</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-secondary-500">No tickets are linked to this devotee.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Edit history */}
+      {canViewHistory && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+              <History className="h-5 w-5 mr-2" />
+              Edit History ({history.length})
+            </h3>
+          </div>
+          <div className="card-content space-y-4">
+            {history.length > 0 ? (
+              history.map((log) => (
+                <div key={log.id} className="border-b border-secondary-100 pb-3 last:border-b-0">
+                  <p className="text-sm text-secondary-600 mb-1">
+                    {new Date(log.timestamp).toLocaleString('en-IN')} by {describeAuditUser(log)}
+                    {' - '}
+                    {log.table_name === 'devotees'
+                      ? (log.action === 'INSERT' ? 'Devotee created' : 'Devotee edited')
+                      : `Ticket ${formatLotteryNumber(log.new_values?.lottery_number)} edited`}
+                  </p>
+                  <AuditChanges log={log} />
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-secondary-500">No edits recorded.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DevoteeProfile;
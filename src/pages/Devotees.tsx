@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase, DevoteeSummary } from '../lib/supabase';
+import { findLikelyDuplicates, DuplicateGroup } from '../lib/devotees';
+import { useAuth } from '../contexts/AuthContext';
+import DevoteeMerge from '../components/DevoteeMerge';
+import {
+  UserRound,
+  Search,
+  Merge,
+  Copy
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Longer lists are cut off; searching narrows them down
+const MAX_ROWS = 200;
+
+const Devotees: React.FC = () => {
+  const { hasRole } = useAuth();
+  // Devotees span campaigns, so closed campaigns do not matter here
+  const canMerge = hasRole('admin', 'clerk');
+  const [devotees, setDevotees] = useState<DevoteeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mergeDevotees, setMergeDevotees] = useState<DevoteeSummary[] | null>(null);
+
+  useEffect(() => {
+    fetchDevotees();
+  }, []);
+
+  const fetchDevotees = async () => {
+    try {
+      setLoading(true);
+      let allDevotees: DevoteeSummary[] = [];
+      let from = 0;
+      const pageSize = 1000;
+      let hasMore = true;
+
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('devotee_summaries')
+          .select('*')
+          .order('full_name')
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+
+        allDevotees = [...allDevotees, ...(data || [])];
+        from += pageSize;
+        hasMore = (data?.length || 0) === pageSize;
+      }
+
+      setDevotees(allDevotees);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error('Error fetching devotees:', error);
+      toast.error('Failed to fetch devotees');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleMerged = () => {
+    setMergeDevotees(null);
+    fetchDevotees();
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const matchesSearch = (devotee: DevoteeSummary) =>
+    !term ||
+    devotee.full_name.toLowerCase().includes(term) ||
+    (devotee.phone || '').includes(term) ||
+    (devotee.pan || '').toLowerCase().includes(term);
+
+  const filteredDevotees = devotees.filter(matchesSearch);
+  const duplicateGroups: DuplicateGroup[] = findLikelyDuplicates(devotees)
+    .filter(group => group.devotees.some(matchesSearch));
+  const selectedDevotees = devotees.filter(devotee => selectedIds.has(devotee.id));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Devotees</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            One record per devotee across all tickets and campaigns. Merge records that belong to the same person.
+          </p>
+        </div>
+        {canMerge && (
+          <button
+            onClick={() => setMergeDevotees(selectedDevotees)}
+            disabled={selectedDevotees.length < 2}
+            className="btn btn-primary"
+          >
+            <Merge className="h-4 w-4 mr-2" />
+            Merge Selected ({selectedDevotees.length})
+          </button>
+        )}
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-secondary-400" />
+        <input
+          type="text"
+          placeholder="Search by name, phone or PAN..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="input pl-10"
+        />
+      </div>
+
+      {/* Likely duplicates */}
+      {duplicateGroups.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+              <Copy className="h-5 w-5 mr-2" />
+              Likely Duplicates ({duplicateGroups.length})
+            </h3>
+          </div>
+          <div className="card-content space-y-3">
+            {duplicateGroups.slice(0, MAX_ROWS).map((group) => (
+              <div key={group.key} className="flex items-center justify-between border border-secondary-200 rounded-lg p-3">
+                <div>
+                  <span className={`badge ${group.reason === 'Same phone' ? 'badge-warning' : 'badge-secondary'} mb-1`}>
+                    {group.reason}
+                  </span>
+                  <div className="text-sm text-secondary-900">
+                    {group.devotees.map((devotee) => (
+                      <span key={devotee.id} className="mr-4 inline-block">
+                        <span className="font-medium">{devotee.full_name}</span>
+                        <span className="text-secondary-500 font-mono ml-1">{devotee.phone || '-'}</span>
+                        <span className="text-secondary-500 ml-1">({devotee.ticket_count} tickets)</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                {canMerge && (
+                  <button
+                    onClick={() => setMergeDevotees(group.devotees)}
+                    className="btn btn-secondary btn-sm ml-4"
+                  >
+                    <Merge className="h-4 w-4 mr-1" />
+                    Merge
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* All devotees */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <UserRound className="h-5 w-5 mr-2" />
+            All Devotees ({filteredDevotees.length})
+          </h3>
+        </div>
+        <div className="card-content">
+          {filteredDevotees.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    {canMerge && <th className="table-header-cell"></th>}
+                    <th className="table-header-cell">Name</th>
+                    <th className="table-header-cell">Phone</th>
+                    <th className="table-header-cell">Address</th>
+                    <th className="table-header-cell">PAN</th>
+                    <th className="table-header-cell">Tickets</th>
+                    <th className="table-header-cell">Total</th>
+                    <th className="table-header-cell">Last Purchase</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {filteredDevotees.slice(0, MAX_ROWS).map((devotee) => (
+                    <tr key={devotee.id} className="table-row">
+                      {canMerge && (
+                        <td className="table-cell">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(devotee.id)}
+                            onChange={() => toggleSelected(devotee.id)}
+                          />
+                        </td>
+                      )}
+                      <td className="table-cell font-medium">
+                        <Link to={`/devotees/${devotee.id}`} className="text-primary-600 hover:text-primary-800">
+                          {devotee.full_name}
+                        </Link>
+                      </td>
+                      <td className="table-cell font-mono">{devotee.phone || '-'}</td>
+                      <td className="table-cell text-sm">{devotee.address || '-'}</td>
+                      <td className="table-cell font-mono">{devotee.pan || '-'}</td>
+                      <td className="table-cell">
+                        {devotee.ticket_count}
+                        {devotee.campaign_count > 1 && (
+                          <span className="text-xs text-secondary-500 ml-1">({devotee.campaign_count} campaigns)</span>
+                        )}
+                      </td>
+                      <td className="table-cell font-medium">₹{Number(devotee.total_amount).toLocaleString()}</td>
+                      <td className="table-cell">
+                        {devotee.last_purchase_date ? new Date(devotee.last_purchase_date).toLocaleDateString('en-IN') : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {filteredDevotees.length > MAX_ROWS && (
+                <p className="mt-3 text-sm text-secondary-500">
+                  Showing the first {MAX_ROWS} of {filteredDevotees.length} devotees. Search to narrow the list.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <UserRound className="mx-auto h-12 w-12 text-secondary-400" />
+              <h3 className="mt-2 text-sm font-medium text-secondary-900">No devotees found</h3>
+              <p className="mt-1 text-sm text-secondary-500">
+                Devotees are created when their tickets are entered.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {mergeDevotees && (
+        <DevoteeMerge
+          devotees={mergeDevotees}
+          onClose={() => setMergeDevotees(null)}
+          onMerged={handleMerged}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Devotees;
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
-import { supabase, DiaryAllotment, Issuer, Diary, formatLotteryNumber, TicketSale } from '../lib/supabase';
+import { Link } from 'react-router-dom';
+import { supabase, DiaryAllotment, Issuer, Diary, DiaryTicketCount, formatLotteryNumber, getTotalDiaries, getAllotmentExpectedAmount } from '../lib/supabase';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
 import { 
   Plus, 
   Edit, 
@@ -22,13 +25,24 @@ import {
   Unlock,
   FileText,
   Download,
-  FileSpreadsheet
+  FileSpreadsheet,
+  History,
+  Archive,
+  ArchiveRestore,
+  Wallet,
+  Printer,
+  Undo2,
+  ArrowRightLeft,
+  Layers
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import * as XLSX from 'xlsx';
-import jsPDF from 'jspdf';
-// @ts-ignore - jspdf-autotable extends jsPDF prototype
-import 'jspdf-autotable';
+import AllotmentPayments from '../components/AllotmentPayments';
+import DiaryReturn from '../components/DiaryReturn';
+import DiaryTransfer from '../components/DiaryTransfer';
+import DiaryCustody from '../components/DiaryCustody';
+import BulkAllotment from '../components/BulkAllotment';
+import { downloadDiaryReceipts } from '../lib/receipts';
+import { IssuerReport, fetchIssuerReport, exportIssuerReportToExcel, exportIssuerReportToPDF } from '../lib/issuerReport';
 
 interface IssuerFormData {
   issuer_name: string;
@@ -44,17 +58,32 @@ interface AllotmentFormData {
 }
 
 const DiaryManagement: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { isReadOnly } = useCampaign();
+  const { hasRole } = useAuth();
+  // Clerks allot and update diaries; only admins delete, and past campaigns are read-only
+  const canEdit = !isReadOnly && hasRole('admin', 'clerk');
+  const canDelete = !isReadOnly && hasRole('admin');
   const [allotments, setAllotments] = useState<DiaryAllotment[]>([]);
   const [issuers, setIssuers] = useState<Issuer[]>([]);
   const [diaries, setDiaries] = useState<Diary[]>([]);
+  // Tickets entered per diary id; the database keeps allotted / fully_sold in step with it
+  const [ticketCounts, setTicketCounts] = useState<{ [diaryId: string]: number }>({});
+  // Portal login emails per issuer, loaded for admins only
+  const [portalLogins, setPortalLogins] = useState<{ [issuerId: string]: string[] }>({});
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'allotments' | 'issuers'>('allotments');
+  const [showArchivedIssuers, setShowArchivedIssuers] = useState(false);
+  const [paymentsAllotmentId, setPaymentsAllotmentId] = useState<string | null>(null);
+  const [returnAllotmentId, setReturnAllotmentId] = useState<string | null>(null);
+  const [transferAllotmentId, setTransferAllotmentId] = useState<string | null>(null);
+  const [custodyDiary, setCustodyDiary] = useState<Diary | null>(null);
+  const [showBulkAllotment, setShowBulkAllotment] = useState(false);
   const [showIssuerForm, setShowIssuerForm] = useState(false);
   const [showAllotmentForm, setShowAllotmentForm] = useState(false);
   const [editingIssuer, setEditingIssuer] = useState<Issuer | null>(null);
   const [editingAllotment, setEditingAllotment] = useState<DiaryAllotment | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [lockedRecords, setLockedRecords] = useState<Set<string>>(new Set());
   
   // Diary search states
   const [diarySearchTerm, setDiarySearchTerm] = useState('');
@@ -65,19 +94,10 @@ const DiaryManagement: React.FC = () => {
   // Report states
   const [showReportModal, setShowReportModal] = useState(false);
   const [selectedIssuerForReport, setSelectedIssuerForReport] = useState<Issuer | null>(null);
-  const [reportData, setReportData] = useState<{
-    tickets: TicketSale[];
-    allotments: DiaryAllotment[];
-    summary: {
-      totalTicketsSold: number;
-      totalDiariesIssued: number;
-      diariesAllotted: number[];
-      diariesPaid: number[];
-    };
-  } | null>(null);
+  const [reportData, setReportData] = useState<IssuerReport | null>(null);
   const [loadingReport, setLoadingReport] = useState(false);
   const [stats, setStats] = useState({
-    totalDiaries: 1819, // Fixed total diaries count
+    totalDiaries: getTotalDiaries(campaign),
     allottedDiaries: 0,
     paidDiaries: 0,
     totalAmountCollected: 0,
@@ -89,7 +109,7 @@ const DiaryManagement: React.FC = () => {
 
   useEffect(() => {
     fetchData();
-  }, []);
+  }, [campaign.id]);
 
   // Handle diary search with server-side search for better performance
   useEffect(() => {
@@ -132,6 +152,7 @@ const DiaryManagement: React.FC = () => {
       const { data: diaryData, error } = await supabase
         .from('diaries')
         .select('*')
+        .eq('campaign_id', campaign.id)
         .eq('diary_number', diaryNumber)
         .single();
 
@@ -159,13 +180,13 @@ const DiaryManagement: React.FC = () => {
   };
 
   const calculateStats = (allotmentsData: DiaryAllotment[], diariesData: Diary[]) => {
-    const totalDiaries = 1819; // Fixed total diaries count
+    const totalDiaries = getTotalDiaries(campaign);
     const allottedDiaries = allotmentsData.filter(a => a.status === 'allotted').length;
     const paidDiaries = allotmentsData.filter(a => a.status === 'paid').length;
     const totalAmountCollected = allotmentsData.reduce((sum, a) => sum + a.amount_collected, 0);
     const expectedAmountFromAllotted = allotmentsData
       .filter(a => a.status === 'allotted')
-      .reduce((sum, a) => sum + (a.diary?.expected_amount || 0), 0);
+      .reduce((sum, a) => sum + getAllotmentExpectedAmount(a), 0);
 
     return {
       totalDiaries,
@@ -194,6 +215,7 @@ const DiaryManagement: React.FC = () => {
             diary:diaries(*),
             issuer:issuers(*)
           `)
+          .eq('campaign_id', campaign.id)
           .order('created_at', { ascending: false })
           .range(from, from + pageSize - 1);
 
@@ -218,7 +240,24 @@ const DiaryManagement: React.FC = () => {
 
       if (issuersError) throw issuersError;
 
-      // Fetch all diaries - use pagination to get all 1819 diaries
+      // Logins linked to issuers for the issuer portal (user_roles is only readable by admins)
+      if (hasRole('admin')) {
+        const { data: issuerLogins, error: issuerLoginsError } = await supabase
+          .from('user_roles')
+          .select('email, issuer_id')
+          .eq('role', 'issuer')
+          .not('issuer_id', 'is', null);
+
+        if (issuerLoginsError) throw issuerLoginsError;
+
+        const logins: { [issuerId: string]: string[] } = {};
+        (issuerLogins || []).forEach(login => {
+          logins[login.issuer_id] = [...(logins[login.issuer_id] || []), login.email];
+        });
+        setPortalLogins(logins);
+      }
+
+      // Fetch all diaries of the active campaign - use pagination as there can be more than 1000
       let allDiaries: any[] = [];
       let diariesFrom = 0;
       const diariesPageSize = 1000;
@@ -228,9 +267,8 @@ const DiaryManagement: React.FC = () => {
         const { data: diariesPage, error: diariesError } = await supabase
           .from('diaries')
           .select('*')
+          .eq('campaign_id', campaign.id)
           .order('diary_number')
-          .gte('diary_number', 1)
-          .lte('diary_number', 1819)
           .range(diariesFrom, diariesFrom + diariesPageSize - 1);
 
         if (diariesError) throw diariesError;
@@ -246,6 +284,28 @@ const DiaryManagement: React.FC = () => {
 
       const diariesData = allDiaries;
 
+      // Tickets sold per diary
+      const counts: { [diaryId: string]: number } = {};
+      let countsFrom = 0;
+      let hasMoreCounts = true;
+
+      while (hasMoreCounts) {
+        const { data: countsPage, error: countsError } = await supabase
+          .from('diary_ticket_counts')
+          .select('*')
+          .eq('campaign_id', campaign.id)
+          .range(countsFrom, countsFrom + pageSize - 1);
+
+        if (countsError) throw countsError;
+
+        ((countsPage || []) as DiaryTicketCount[]).forEach(count => {
+          counts[count.diary_id] = count.tickets_sold;
+        });
+        countsFrom += pageSize;
+        hasMoreCounts = (countsPage?.length || 0) === pageSize;
+      }
+
+      setTicketCounts(counts);
       setAllotments(allotmentsData || []);
       setIssuers(issuersData || []);
       setDiaries(diariesData || []);
@@ -261,12 +321,6 @@ const DiaryManagement: React.FC = () => {
         console.log('❌ Diary 1001 NOT found in local data');
       }
       
-      // Automatically lock all paid records on load
-      const paidRecordIds = (allotmentsData || [])
-        .filter(allotment => allotment.status === 'paid')
-        .map(allotment => allotment.id);
-      setLockedRecords(new Set(paidRecordIds));
-      
       // Calculate and set stats
       const calculatedStats = calculateStats(allotmentsData || [], diariesData || []);
       setStats(calculatedStats);
@@ -326,11 +380,19 @@ const DiaryManagement: React.FC = () => {
         if (error) throw error;
         toast.success('Allotment updated successfully');
       } else {
+        // A diary goes to a new issuer only once the previous one has returned it
+        const activeAllotment = allotments.find(a => a.diary_id === data.diary_id && a.status !== 'returned');
+        if (activeAllotment) {
+          toast.error(`Diary ${activeAllotment.diary?.diary_number} is still allotted to ${activeAllotment.issuer?.issuer_name}. Return it before allotting it again.`);
+          return;
+        }
+
         // Create new allotment
         const { error } = await supabase
           .from('diary_allotments')
           .insert([{
             ...data,
+            campaign_id: campaign.id,
             status: 'allotted',
             amount_collected: 0,
           }]);
@@ -348,7 +410,7 @@ const DiaryManagement: React.FC = () => {
     } catch (error: any) {
       console.error('Error saving allotment:', error);
       if (error.code === '23505') {
-        toast.error('This diary is already allotted to an issuer');
+        toast.error('This diary is already allotted to an issuer. Return or transfer it first.');
       } else {
         toast.error('Failed to save allotment');
       }
@@ -379,21 +441,63 @@ const DiaryManagement: React.FC = () => {
     setShowAllotmentForm(true);
   };
 
-  const handleDeleteIssuer = async (issuerId: string) => {
-    if (!window.confirm('Are you sure you want to delete this issuer? This will also delete all their allotments.')) return;
-
+  const handleDeleteIssuer = async (issuer: Issuer) => {
     try {
+      // Issuers with history (in any campaign) are archived instead of deleted
+      const { count: salesCount, error: salesError } = await supabase
+        .from('ticket_sales')
+        .select('id', { count: 'exact', head: true })
+        .eq('issuer_id', issuer.id);
+
+      if (salesError) throw salesError;
+
+      const { count: allotmentsCount, error: allotmentsError } = await supabase
+        .from('diary_allotments')
+        .select('id', { count: 'exact', head: true })
+        .eq('issuer_id', issuer.id);
+
+      if (allotmentsError) throw allotmentsError;
+
+      if ((salesCount || 0) > 0 || (allotmentsCount || 0) > 0) {
+        toast.error(`${issuer.issuer_name} has ${salesCount || 0} ticket sales and ${allotmentsCount || 0} allotments. Archive the issuer instead.`);
+        return;
+      }
+
+      if (!window.confirm(`Are you sure you want to delete ${issuer.issuer_name}?`)) return;
+
       const { error } = await supabase
         .from('issuers')
         .delete()
-        .eq('id', issuerId);
+        .eq('id', issuer.id);
 
       if (error) throw error;
       toast.success('Issuer deleted successfully');
       fetchData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error deleting issuer:', error);
-      toast.error('Failed to delete issuer');
+      if (error.code === '23503') {
+        toast.error('This issuer has ticket sales or allotments. Archive the issuer instead.');
+      } else {
+        toast.error('Failed to delete issuer');
+      }
+    }
+  };
+
+  const handleArchiveIssuer = async (issuer: Issuer, archive: boolean) => {
+    if (archive && !window.confirm(`Archive ${issuer.issuer_name}? They will no longer be offered for new sales and allotments, but their history is kept.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('issuers')
+        .update({ is_archived: archive })
+        .eq('id', issuer.id);
+
+      if (error) throw error;
+      toast.success(archive ? 'Issuer archived' : 'Issuer restored');
+      fetchData();
+    } catch (error) {
+      console.error('Error archiving issuer:', error);
+      toast.error(archive ? 'Failed to archive issuer' : 'Failed to restore issuer');
     }
   };
 
@@ -416,69 +520,138 @@ const DiaryManagement: React.FC = () => {
   };
 
   const updateAllotmentStatus = async (allotmentId: string, status: DiaryAllotment['status']) => {
+    // Returning records the sold and unsold tickets, so it goes through the return dialog
+    if (status === 'returned') {
+      setReturnAllotmentId(allotmentId);
+      return;
+    }
+
+    const allotment = allotments.find(a => a.id === allotmentId);
+    const totalTickets = allotment?.diary?.total_tickets || 0;
+    const soldTickets = allotment ? ticketCounts[allotment.diary_id] || 0 : 0;
+    const expectedAmount = allotment ? getAllotmentExpectedAmount(allotment) : 0;
+    const amountCollected = allotment?.amount_collected || 0;
+
+    // allotted and fully_sold follow the entered tickets; the database rejects the same cases
+    if (status === 'fully_sold' && soldTickets < totalTickets) {
+      toast.error(`Only ${soldTickets} of ${totalTickets} tickets are entered. The diary becomes fully sold automatically when all tickets are entered.`);
+      return;
+    }
+    if (status === 'allotted' && totalTickets > 0 && soldTickets >= totalTickets) {
+      toast.error(`All ${totalTickets} tickets of this diary are entered, so it cannot be set back to allotted.`);
+      return;
+    }
+    // paid follows the payment ledger
+    if (status === 'paid' && amountCollected < expectedAmount) {
+      toast.error(`Only ₹${amountCollected.toLocaleString()} of ₹${expectedAmount.toLocaleString()} is paid. Record the payments; the diary becomes paid automatically.`);
+      return;
+    }
+    if (status === 'paid' && soldTickets < totalTickets &&
+        !window.confirm(`Only ${soldTickets} of ${totalTickets} tickets of this diary are entered. Mark it as paid anyway?`)) {
+      return;
+    }
+
     try {
-      const updateData: any = { status };
-      
-      // Set amount collected based on status
-      if (status === 'paid') {
-        updateData.amount_collected = 11000;
-        // Automatically lock paid records immediately
-        setLockedRecords(prev => new Set(prev).add(allotmentId));
-      } else {
-        // Reset amount collected to 0 for all other statuses (allotted, fully_sold, returned)
-        updateData.amount_collected = 0;
-        // Unlock when status changes from paid
-        setLockedRecords(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(allotmentId);
-          return newSet;
-        });
-      }
-      
+      // amount_collected is kept by the payment ledger; paid allotments are locked by the database
       const { error } = await supabase
         .from('diary_allotments')
-        .update(updateData)
+        .update({ status })
         .eq('id', allotmentId);
 
       if (error) throw error;
       
-      const statusMessage = status === 'paid' 
-        ? ', amount collected set to ₹11,000, and record locked' 
-        : ' and amount collected reset to ₹0';
-      
-      toast.success(`Status updated to ${status}${statusMessage}`);
+      toast.success(`Status updated to ${status}${status === 'paid' ? ' and record locked' : ''}`);
       
       // Update local state immediately for better UX
       setAllotments(prev => prev.map(allotment => 
         allotment.id === allotmentId 
-          ? { ...allotment, status, amount_collected: status === 'paid' ? 11000 : 0 }
+          ? { ...allotment, status }
           : allotment
       ));
       
       // Also fetch data to ensure consistency
       fetchData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating status:', error);
-      toast.error('Failed to update status');
+      toast.error(`Failed to update status: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  // Batch print: every sold ticket of the diary on its own receipt page
+  const printDiaryReceipts = async (allotment: DiaryAllotment) => {
+    try {
+      const { data, error } = await supabase
+        .from('ticket_sales')
+        .select(`
+          *,
+          issuer:issuers(*),
+          diary:diaries(*)
+        `)
+        .eq('diary_id', allotment.diary_id)
+        .order('lottery_number');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        toast.error(`No tickets entered for diary ${allotment.diary?.diary_number} yet`);
+        return;
+      }
+
+      downloadDiaryReceipts(data, campaign, allotment.diary?.diary_number || 0);
+      toast.success(`${data.length} receipts generated`);
+    } catch (error: any) {
+      console.error('Error printing receipts:', error);
+      toast.error(`Failed to print receipts: ${error?.message || 'Unknown error'}`);
     }
   };
 
-  const toggleLock = (allotmentId: string) => {
-    setLockedRecords(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(allotmentId)) {
-        newSet.delete(allotmentId);
+  // Locks are stored on the allotment and enforced by the database; unlocking is admin-only
+  const toggleLock = async (allotment: DiaryAllotment) => {
+    try {
+      if (allotment.is_locked) {
+        if (!hasRole('admin')) {
+          toast.error('Only an admin can unlock this record');
+          return;
+        }
+
+        const justification = window.prompt(
+          `Diary ${allotment.diary?.diary_number} was locked: ${allotment.lock_reason || 'no reason given'}\n\nWhy does it need to be unlocked? (at least 10 characters, this is logged)`
+        );
+        if (justification === null) return;
+
+        const { error } = await supabase.rpc('unlock_allotment', {
+          p_allotment_id: allotment.id,
+          p_justification: justification,
+        });
+
+        if (error) throw error;
         toast.success('Record unlocked - status can now be changed');
       } else {
-        newSet.add(allotmentId);
+        const reason = window.prompt(`Reason for locking diary ${allotment.diary?.diary_number}:`, 'Verified by office');
+        if (reason === null) return;
+
+        const { error } = await supabase.rpc('lock_allotment', {
+          p_allotment_id: allotment.id,
+          p_reason: reason,
+        });
+
+        if (error) throw error;
         toast.success('Record locked - status is protected from accidental changes');
       }
-      return newSet;
-    });
+
+      fetchData();
+    } catch (error: any) {
+      console.error('Error changing lock:', error);
+      toast.error(error?.message || 'Failed to change lock');
+    }
   };
 
-  const isRecordLocked = (allotmentId: string) => {
-    return lockedRecords.has(allotmentId);
+  const getLockTitle = (allotment: DiaryAllotment) => {
+    if (!allotment.is_locked) {
+      return 'Lock to prevent accidental status changes';
+    }
+    const lockedBy = allotment.locked_by_email ? ` by ${allotment.locked_by_email}` : '';
+    const lockedAt = allotment.locked_at ? ` on ${new Date(allotment.locked_at).toLocaleString('en-IN')}` : '';
+    return `Locked${lockedBy}${lockedAt}: ${allotment.lock_reason || 'no reason given'}${hasRole('admin') ? ' - click to unlock' : ''}`;
   };
 
   // Diary selection handlers
@@ -511,7 +684,8 @@ const DiaryManagement: React.FC = () => {
   };
 
   const shouldDisableStatusChange = (allotment: DiaryAllotment) => {
-    return allotment.status === 'paid' && isRecordLocked(allotment.id);
+    // Returned allotments only change through the return dialog (undo is admin-only)
+    return !canEdit || allotment.is_locked || allotment.status === 'returned';
   };
 
   const getStatusIcon = (status: string) => {
@@ -549,70 +723,7 @@ const DiaryManagement: React.FC = () => {
       setLoadingReport(true);
       setSelectedIssuerForReport(issuer);
       setShowReportModal(true);
-
-      // Fetch all tickets for this issuer (no limit - fetch all)
-      let allTickets: any[] = [];
-      let from = 0;
-      const pageSize = 1000;
-      let hasMore = true;
-
-      while (hasMore) {
-        const { data: ticketsPage, error: ticketsError } = await supabase
-          .from('ticket_sales')
-          .select(`
-            *,
-            issuer:issuers(*),
-            diary:diaries(*)
-          `)
-          .eq('issuer_id', issuer.id)
-          .order('lottery_number', { ascending: true })
-          .range(from, from + pageSize - 1);
-
-        if (ticketsError) throw ticketsError;
-
-        if (ticketsPage && ticketsPage.length > 0) {
-          allTickets = [...allTickets, ...ticketsPage];
-          from += pageSize;
-          hasMore = ticketsPage.length === pageSize;
-        } else {
-          hasMore = false;
-        }
-      }
-
-      const ticketsData = allTickets;
-
-      // Fetch all allotments for this issuer
-      const { data: allotmentsData, error: allotmentsError } = await supabase
-        .from('diary_allotments')
-        .select(`
-          *,
-          diary:diaries(*)
-        `)
-        .eq('issuer_id', issuer.id)
-        .order('allotment_date', { ascending: true });
-
-      if (allotmentsError) throw allotmentsError;
-
-      // Calculate summary
-      const diariesAllotted = (allotmentsData || []).map(a => a.diary?.diary_number).filter(Boolean) as number[];
-      const diariesPaid = (allotmentsData || [])
-        .filter(a => a.status === 'paid')
-        .map(a => a.diary?.diary_number)
-        .filter(Boolean) as number[];
-      
-      // Total diaries issued = diaries allotted + diaries paid (unique count)
-      const allDiariesIssued = [...new Set([...diariesAllotted, ...diariesPaid])];
-
-      setReportData({
-        tickets: ticketsData || [],
-        allotments: allotmentsData || [],
-        summary: {
-          totalTicketsSold: ticketsData?.length || 0,
-          totalDiariesIssued: allDiariesIssued.length,
-          diariesAllotted,
-          diariesPaid
-        }
-      });
+      setReportData(await fetchIssuerReport(issuer.id, campaign.id));
     } catch (error) {
       console.error('Error fetching report data:', error);
       toast.error('Failed to load report data');
@@ -624,40 +735,7 @@ const DiaryManagement: React.FC = () => {
   const exportToExcel = () => {
     if (!reportData || !selectedIssuerForReport) return;
 
-    const wsData = [
-      ['Issuer Report'],
-      ['Issuer Name:', selectedIssuerForReport.issuer_name],
-      ['Contact:', selectedIssuerForReport.contact_number],
-      [''],
-      ['Summary'],
-      ['Total Tickets Sold:', reportData.summary.totalTicketsSold],
-      ['Total Diaries Issued:', reportData.summary.totalDiariesIssued],
-      ['Diaries Allotted:', reportData.summary.diariesAllotted.join(', ')],
-      ['Diaries Paid:', reportData.summary.diariesPaid.join(', ')],
-      [''],
-      ['Detailed Ticket Information'],
-      ['Lottery Number', 'Purchaser Name', 'Contact', 'Address', 'Diary Number', 'Purchase Date', 'Amount Paid']
-    ];
-
-    // Add ticket data
-    reportData.tickets.forEach(ticket => {
-      wsData.push([
-        formatLotteryNumber(ticket.lottery_number),
-        ticket.purchaser_name,
-        ticket.purchaser_contact,
-        ticket.purchaser_address || '',
-        ticket.diary?.diary_number?.toString() || '',
-        new Date(ticket.purchase_date).toLocaleDateString('en-IN'),
-        `₹${ticket.amount_paid}`
-      ]);
-    });
-
-    const ws = XLSX.utils.aoa_to_sheet(wsData);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Issuer Report');
-
-    const fileName = `${selectedIssuerForReport.issuer_name}_Report_${new Date().toISOString().split('T')[0]}.xlsx`;
-    XLSX.writeFile(wb, fileName);
+    exportIssuerReportToExcel(reportData, selectedIssuerForReport);
     toast.success('Report exported to Excel');
   };
 
@@ -668,209 +746,10 @@ const DiaryManagement: React.FC = () => {
     }
 
     try {
-      // Initialize PDF document
-      const doc = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-      });
-      
-      let currentPage = 1;
-      const pageHeight = doc.internal.pageSize.getHeight();
-      const pageWidth = doc.internal.pageSize.getWidth();
-      let yPos = 20;
-      const margin = 14;
-      const lineHeight = 7;
-      
-      // Helper function to add new page
-      const addNewPage = () => {
-        doc.addPage();
-        currentPage++;
-        yPos = 20;
-        // Add page number
-        doc.setFontSize(10);
-        doc.text(
-          `Page ${currentPage}`,
-          pageWidth / 2,
-          pageHeight - 10,
-          { align: 'center' }
-        );
-        yPos = 20;
-      };
-      
-      // Helper function to check if we need a new page
-      const checkPageBreak = (requiredSpace: number) => {
-        if (yPos + requiredSpace > pageHeight - 20) {
-          addNewPage();
-        }
-      };
-      
-      // Title
-      doc.setFontSize(18);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Issuer Report', margin, yPos);
-      yPos += 10;
-      
-      // Issuer Info
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'normal');
-      checkPageBreak(15);
-      doc.text(`Issuer Name: ${selectedIssuerForReport.issuer_name}`, margin, yPos);
-      yPos += lineHeight;
-      doc.text(`Contact: ${selectedIssuerForReport.contact_number}`, margin, yPos);
-      yPos += 10;
-      
-      // Summary Section
-      checkPageBreak(30);
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Summary', margin, yPos);
-      yPos += 8;
-      
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'normal');
-      doc.text(`Total Tickets Sold: ${reportData.summary.totalTicketsSold}`, margin, yPos);
-      yPos += lineHeight;
-      doc.text(`Total Diaries Issued: ${reportData.summary.totalDiariesIssued}`, margin, yPos);
-      yPos += lineHeight;
-      
-      // Diaries Allotted
-      const allottedText = `Diaries Allotted: ${reportData.summary.diariesAllotted.length > 0 ? reportData.summary.diariesAllotted.join(', ') : 'None'}`;
-      const allottedLines = doc.splitTextToSize(allottedText, pageWidth - (margin * 2));
-      
-      allottedLines.forEach((line: string) => {
-        checkPageBreak(lineHeight);
-        doc.text(line, margin, yPos);
-        yPos += lineHeight;
-      });
-      
-      // Diaries Paid
-      const paidText = `Diaries Paid: ${reportData.summary.diariesPaid.length > 0 ? reportData.summary.diariesPaid.join(', ') : 'None'}`;
-      const paidLines = doc.splitTextToSize(paidText, pageWidth - (margin * 2));
-      
-      paidLines.forEach((line: string) => {
-        checkPageBreak(lineHeight);
-        doc.text(line, margin, yPos);
-        yPos += lineHeight;
-      });
-      
-      yPos += 10;
-
-      // Detailed Ticket Table
-      const ticketData = reportData.tickets.map(ticket => {
-        const address = (ticket.purchaser_address || 'N/A');
-        const truncatedAddress = address.length > 30 ? address.substring(0, 27) + '...' : address;
-        
-        return [
-          formatLotteryNumber(ticket.lottery_number),
-          (ticket.purchaser_name || 'N/A').substring(0, 25),
-          (ticket.purchaser_contact || 'N/A').substring(0, 15),
-          truncatedAddress,
-          ticket.diary?.diary_number?.toString() || 'N/A',
-          new Date(ticket.purchase_date).toLocaleDateString('en-IN'),
-          `₹${ticket.amount_paid}`
-        ];
-      });
-
-      if (ticketData.length > 0) {
-        checkPageBreak(30);
-        
-        // Check if autoTable is available
-        if (typeof (doc as any).autoTable === 'function') {
-          try {
-            (doc as any).autoTable({
-            startY: yPos,
-            head: [['Lottery #', 'Purchaser', 'Contact', 'Address', 'Diary', 'Date', 'Amount']],
-            body: ticketData,
-            theme: 'striped',
-            headStyles: { fillColor: [59, 130, 246] },
-            styles: { fontSize: 7 },
-            margin: { left: margin, right: margin },
-            columnStyles: {
-              0: { cellWidth: 20 },
-              1: { cellWidth: 35 },
-              2: { cellWidth: 30 },
-              3: { cellWidth: 40 },
-              4: { cellWidth: 15 },
-              5: { cellWidth: 25 },
-              6: { cellWidth: 20 }
-            },
-            didDrawPage: (data: any) => {
-              // Add page number on each page
-              doc.setFontSize(10);
-              doc.text(
-                `Page ${data.pageNumber}`,
-                pageWidth / 2,
-                pageHeight - 10,
-                { align: 'center' }
-              );
-            }
-            });
-          } catch (tableError) {
-            console.error('Error creating ticket table:', tableError);
-            // Fallback: create a simpler table without autoTable
-            checkPageBreak(20);
-            doc.setFontSize(11);
-            doc.setFont('helvetica', 'bold');
-            doc.text('Detailed Ticket Information:', margin, yPos);
-            yPos += lineHeight;
-            doc.setFont('helvetica', 'normal');
-            doc.setFontSize(9);
-            
-            ticketData.forEach((row) => {
-              checkPageBreak(lineHeight * 2);
-              doc.text(`Lottery #: ${row[0]}`, margin, yPos);
-              yPos += lineHeight;
-              doc.text(`Purchaser: ${row[1]} | Contact: ${row[2]} | Amount: ${row[6]}`, margin + 5, yPos);
-              yPos += lineHeight + 2;
-            });
-          }
-        } else {
-          // autoTable not available, use fallback
-          console.warn('autoTable function not available, using fallback');
-          checkPageBreak(20);
-          doc.setFontSize(11);
-          doc.setFont('helvetica', 'bold');
-          doc.text('Detailed Ticket Information:', margin, yPos);
-          yPos += lineHeight;
-          doc.setFont('helvetica', 'normal');
-          doc.setFontSize(9);
-          
-          ticketData.forEach((row) => {
-            checkPageBreak(lineHeight * 2);
-            doc.text(`Lottery #: ${row[0]}`, margin, yPos);
-            yPos += lineHeight;
-            doc.text(`Purchaser: ${row[1]} | Contact: ${row[2]} | Amount: ${row[6]}`, margin + 5, yPos);
-            yPos += lineHeight + 2;
-          });
-        }
-      } else {
-        checkPageBreak(lineHeight);
-        doc.setFontSize(11);
-        doc.text('No tickets found for this issuer', margin, yPos);
-      }
-
-      // Add page number to first page
-      doc.setPage(1);
-      doc.setFontSize(10);
-      doc.text(
-        'Page 1',
-        pageWidth / 2,
-        pageHeight - 10,
-        { align: 'center' }
-      );
-
-      // Save the PDF
-      const fileName = `${selectedIssuerForReport.issuer_name.replace(/[^a-z0-9]/gi, '_')}_Report_${new Date().toISOString().split('T')[0]}.pdf`;
-      doc.save(fileName);
+      exportIssuerReportToPDF(reportData, selectedIssuerForReport);
       toast.success('Report exported to PDF successfully');
     } catch (error: any) {
       console.error('Error exporting PDF:', error);
-      console.error('Error details:', {
-        message: error?.message,
-        stack: error?.stack,
-        name: error?.name
-      });
       toast.error(`Failed to export PDF: ${error?.message || 'Unknown error'}`);
     }
   };
@@ -883,11 +762,21 @@ const DiaryManagement: React.FC = () => {
   );
 
   const filteredIssuers = issuers.filter(issuer =>
-    issuer.issuer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    issuer.contact_number.includes(searchTerm) ||
-    issuer.address?.toLowerCase().includes(searchTerm.toLowerCase())
+    (showArchivedIssuers || !issuer.is_archived) && (
+      issuer.issuer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      issuer.contact_number.includes(searchTerm) ||
+      issuer.address?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
 
+  // Archived issuers are only listed when the allotment being edited already points at them
+  const allotmentIssuerId = allotmentForm.watch('issuer_id');
+  const issuerOptions = issuers.filter(issuer => !issuer.is_archived || issuer.id === allotmentIssuerId);
+  const archivedIssuerCount = issuers.filter(issuer => issuer.is_archived).length;
+  const paymentsAllotment = allotments.find(allotment => allotment.id === paymentsAllotmentId);
+  const returnAllotment = allotments.find(allotment => allotment.id === returnAllotmentId);
+  const transferAllotment = allotments.find(allotment => allotment.id === transferAllotmentId);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -907,14 +796,23 @@ const DiaryManagement: React.FC = () => {
           </p>
         </div>
         <div className="flex space-x-3">
-          {activeTab === 'allotments' && (
-            <button
-              onClick={() => setShowAllotmentForm(true)}
-              className="btn btn-primary"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Allot Diary
-            </button>
+          {activeTab === 'allotments' && canEdit && (
+            <>
+              <button
+                onClick={() => setShowBulkAllotment(true)}
+                className="btn btn-secondary"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                Bulk Allot
+              </button>
+              <button
+                onClick={() => setShowAllotmentForm(true)}
+                className="btn btn-primary"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Allot Diary
+              </button>
+            </>
           )}
           {activeTab === 'issuers' && (
             <button
@@ -1024,7 +922,7 @@ const DiaryManagement: React.FC = () => {
                 : 'border-transparent text-secondary-500 hover:text-secondary-700 hover:border-secondary-300'
             }`}
           >
-            Issuers ({issuers.length})
+            Issuers ({issuers.length - archivedIssuerCount})
           </button>
         </nav>
       </div>
@@ -1041,6 +939,17 @@ const DiaryManagement: React.FC = () => {
             className="input pl-10"
           />
         </div>
+        {activeTab === 'issuers' && archivedIssuerCount > 0 && (
+          <label className="flex items-center text-sm text-secondary-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={showArchivedIssuers}
+              onChange={(e) => setShowArchivedIssuers(e.target.checked)}
+              className="mr-2"
+            />
+            Show archived ({archivedIssuerCount})
+          </label>
+        )}
       </div>
 
       {/* Issuer Form Modal */}
@@ -1176,7 +1085,7 @@ const DiaryManagement: React.FC = () => {
                           onFocus={handleDiaryInputFocus}
                           onBlur={handleDiaryInputBlur}
                           className="input"
-                          placeholder="Enter diary number (e.g., 1, 500, 1819)"
+                          placeholder={`Enter diary number (1-${getTotalDiaries(campaign)})`}
                         />
                         {showDiarySuggestions && filteredDiaries.length > 0 && (
                           <div className="absolute z-50 w-full mt-1 bg-white border border-secondary-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
@@ -1222,7 +1131,7 @@ const DiaryManagement: React.FC = () => {
                         className="input"
                       >
                         <option value="">Select issuer</option>
-                        {issuers.map(issuer => (
+                        {issuerOptions.map(issuer => (
                           <option key={issuer.id} value={issuer.id}>
                             {issuer.issuer_name} ({issuer.contact_number})
                           </option>
@@ -1316,12 +1225,19 @@ const DiaryManagement: React.FC = () => {
                   {filteredAllotments.map((allotment) => (
                     <tr key={allotment.id} className="table-row">
                       <td className="table-cell">
-                        <span className="badge badge-secondary">
+                        <button
+                          onClick={() => allotment.diary && setCustodyDiary(allotment.diary)}
+                          className="badge badge-secondary hover:bg-secondary-200"
+                          title="Chain of custody"
+                        >
                           Diary {allotment.diary?.diary_number}
-                        </span>
+                        </button>
                         <div className="text-xs text-secondary-500 mt-1">
                           Tickets: {allotment.diary ? formatLotteryNumber(allotment.diary.ticket_start_range) : 'N/A'}-{allotment.diary ? formatLotteryNumber(allotment.diary.ticket_end_range) : 'N/A'}
                         </div>
+                        <div className="text-xs text-secondary-500">
+                          Sold: {ticketCounts[allotment.diary_id] || 0}/{allotment.diary?.total_tickets ?? '-'}
+                        </div>
                       </td>
                       <td className="table-cell">
                         <div className="font-medium">{allotment.issuer?.issuer_name}</div>
@@ -1330,6 +1246,12 @@ const DiaryManagement: React.FC = () => {
                             {allotment.issuer.address}
                           </div>
                         )}
+                        {allotment.transferred_from && (
+                          <div className="text-xs text-primary-600 flex items-center">
+                            <ArrowRightLeft className="h-3 w-3 mr-1" />
+                            From {allotments.find(a => a.id === allotment.transferred_from)?.issuer?.issuer_name || 'another issuer'}
+                          </div>
+                        )}
                       </td>
                       <td className="table-cell font-mono">{allotment.issuer?.contact_number}</td>
                       <td className="table-cell">
@@ -1343,8 +1265,17 @@ const DiaryManagement: React.FC = () => {
                           </span>
                         </div>
                       </td>
-                      <td className="table-cell font-medium">₹{allotment.amount_collected.toLocaleString()}</td>
-                      <td className="table-cell">₹{allotment.diary?.expected_amount.toLocaleString()}</td>
+                      <td className="table-cell">
+                        <button
+                          onClick={() => setPaymentsAllotmentId(allotment.id)}
+                          className="font-medium text-primary-700 hover:text-primary-900 flex items-center"
+                          title="Payments"
+                        >
+                          <Wallet className="h-4 w-4 mr-1" />
+                          ₹{allotment.amount_collected.toLocaleString()}
+                        </button>
+                      </td>
+                      <td className="table-cell">₹{getAllotmentExpectedAmount(allotment).toLocaleString()}</td>
                       <td className="table-cell">
                         <div className="flex items-center space-x-2">
                           <select
@@ -1362,37 +1293,75 @@ const DiaryManagement: React.FC = () => {
                             <option value="paid">Paid</option>
                             <option value="returned">Returned</option>
                           </select>
+                          {canEdit && (
+                            <>
+                              <button
+                                onClick={() => toggleLock(allotment)}
+                                className={`${
+                                  allotment.is_locked
+                                    ? 'text-warning-600 hover:text-warning-800'
+                                    : 'text-secondary-600 hover:text-secondary-800'
+                                }`}
+                                title={getLockTitle(allotment)}
+                              >
+                                {allotment.is_locked ? (
+                                  <Lock className="h-4 w-4" />
+                                ) : (
+                                  <Unlock className="h-4 w-4" />
+                                )}
+                              </button>
+                              {!allotment.is_locked && (
+                                <button
+                                  onClick={() => handleEditAllotment(allotment)}
+                                  className="text-primary-600 hover:text-primary-800"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </button>
+                              )}
+                            </>
+                          )}
+                          {canEdit && !allotment.is_locked && (allotment.status === 'allotted' || allotment.status === 'fully_sold') && (
+                            <button
+                              onClick={() => setTransferAllotmentId(allotment.id)}
+                              className="text-primary-600 hover:text-primary-800"
+                              title="Transfer to another issuer"
+                            >
+                              <ArrowRightLeft className="h-4 w-4" />
+                            </button>
+                          )}
+                          {(allotment.status === 'returned' || (canEdit && !allotment.is_locked && allotment.status !== 'paid')) && (
+                            <button
+                              onClick={() => setReturnAllotmentId(allotment.id)}
+                              className="text-secondary-600 hover:text-secondary-800"
+                              title={allotment.status === 'returned' ? 'View return' : 'Return diary'}
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </button>
+                          )}
                           <button
-                            onClick={() => toggleLock(allotment.id)}
-                            className={`${
-                              isRecordLocked(allotment.id)
-                                ? 'text-warning-600 hover:text-warning-800'
-                                : 'text-secondary-600 hover:text-secondary-800'
-                            }`}
-                            title={
-                              isRecordLocked(allotment.id) 
-                                ? 'Unlock to allow status changes' 
-                                : 'Lock to prevent accidental status changes'
-                            }
-                          >
-                            {isRecordLocked(allotment.id) ? (
-                              <Lock className="h-4 w-4" />
-                            ) : (
-                              <Unlock className="h-4 w-4" />
-                            )}
-                          </button>
-                          <button
-                            onClick={() => handleEditAllotment(allotment)}
-                            className="text-primary-600 hover:text-primary-800"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteAllotment(allotment.id)}
-                            className="text-danger-600 hover:text-danger-800"
+                            onClick={() => printDiaryReceipts(allotment)}
+                            className="text-success-600 hover:text-success-800"
+                            title="Print receipts"
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <Printer className="h-4 w-4" />
                           </button>
+                          {canDelete && !allotment.is_locked && (
+                            <button
+                              onClick={() => handleDeleteAllotment(allotment.id)}
+                              className="text-danger-600 hover:text-danger-800"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                          {hasRole('admin') && (
+                            <Link
+                              to={`/audit?table=diary_allotments&record=${allotment.id}`}
+                              className="text-secondary-600 hover:text-secondary-800"
+                              title="History"
+                            >
+                              <History className="h-4 w-4" />
+                            </Link>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1423,8 +1392,20 @@ const DiaryManagement: React.FC = () => {
                 </thead>
                 <tbody className="table-body">
                   {filteredIssuers.map((issuer) => (
-                    <tr key={issuer.id} className="table-row">
-                      <td className="table-cell font-medium">{issuer.issuer_name}</td>
+                    <tr key={issuer.id} className={`table-row ${issuer.is_archived ? 'opacity-60' : ''}`}>
+                      <td className="table-cell font-medium">
+                        {issuer.issuer_name}
+                        {issuer.is_archived && (
+                          <span className="badge badge-secondary ml-2">Archived</span>
+                        )}
+                        {hasRole('admin') && (
+                          <div className="text-xs font-normal">
+                            <Link to="/users" className="text-secondary-500 hover:text-primary-600" title="Manage portal logins in Users & Roles">
+                              {portalLogins[issuer.id] ? `Portal: ${portalLogins[issuer.id].join(', ')}` : 'No portal login'}
+                            </Link>
+                          </div>
+                        )}
+                      </td>
                       <td className="table-cell font-mono">{issuer.contact_number}</td>
                       <td className="table-cell">
                         {issuer.address ? (
@@ -1454,13 +1435,43 @@ const DiaryManagement: React.FC = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </button>
-                          <button
-                            onClick={() => handleDeleteIssuer(issuer.id)}
-                            className="text-danger-600 hover:text-danger-800"
-                            title="Delete"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {hasRole('admin') && (
+                            issuer.is_archived ? (
+                              <button
+                                onClick={() => handleArchiveIssuer(issuer, false)}
+                                className="text-success-600 hover:text-success-800"
+                                title="Restore"
+                              >
+                                <ArchiveRestore className="h-4 w-4" />
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => handleArchiveIssuer(issuer, true)}
+                                className="text-warning-600 hover:text-warning-800"
+                                title="Archive"
+                              >
+                                <Archive className="h-4 w-4" />
+                              </button>
+                            )
+                          )}
+                          {hasRole('admin') && (
+                            <button
+                              onClick={() => handleDeleteIssuer(issuer)}
+                              className="text-danger-600 hover:text-danger-800"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                          {hasRole('admin') && (
+                            <Link
+                              to={`/audit?table=issuers&record=${issuer.id}`}
+                              className="text-secondary-600 hover:text-secondary-800"
+                              title="History"
+                            >
+                              <History className="h-4 w-4" />
+                            </Link>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1472,6 +1483,52 @@ const DiaryManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Payments Modal */}
+      {paymentsAllotment && (
+        <AllotmentPayments
+          allotment={paymentsAllotment}
+          onClose={() => setPaymentsAllotmentId(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {/* Return Modal */}
+      {returnAllotment && (
+        <DiaryReturn
+          allotment={returnAllotment}
+          onClose={() => setReturnAllotmentId(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {/* Transfer Modal */}
+      {transferAllotment && (
+        <DiaryTransfer
+          allotment={transferAllotment}
+          issuers={issuers}
+          soldTickets={ticketCounts[transferAllotment.diary_id] || 0}
+          onClose={() => setTransferAllotmentId(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {/* Bulk Allotment Modal */}
+      {showBulkAllotment && (
+        <BulkAllotment
+          issuers={issuers}
+          onClose={() => setShowBulkAllotment(false)}
+          onAllotted={fetchData}
+        />
+      )}
+
+      {/* Chain of Custody Modal */}
+      {custodyDiary && (
+        <DiaryCustody
+          diary={custodyDiary}
+          onClose={() => setCustodyDiary(null)}
+        />
+      )}
+
       {/* Report Modal */}
       {showReportModal && selectedIssuerForReport && (
         <div className="fixed inset-0 z-50 overflow-y-auto">
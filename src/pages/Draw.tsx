@@ -0,0 +1,447 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Draw as DrawRecord, DrawPick, PrizeCategory, LotteryWinner, getPrizeCategories, formatLotteryNumber } from '../lib/supabase';
+import { drawNextWinner, getSoldTickets, hashTicketPool, pickLotteryNumber, sha256Hex } from '../lib/draw';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Dices,
+  Lock,
+  Unlock,
+  Trophy,
+  ShieldCheck,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type DrawWinner = Pick<LotteryWinner, 'id' | 'lottery_number' | 'prize_category' | 'winner_name' | 'registered_at'>;
+
+interface VerificationResult {
+  ok: boolean;
+  messages: string[];
+}
+
+const Draw: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { isReadOnly } = useCampaign();
+  const { hasRole } = useAuth();
+  const canDraw = !isReadOnly && hasRole('admin', 'clerk');
+  const canManageDraws = !isReadOnly && hasRole('admin');
+
+  const [draws, setDraws] = useState<DrawRecord[]>([]);
+  const [picks, setPicks] = useState<DrawPick[]>([]);
+  const [prizes, setPrizes] = useState<PrizeCategory[]>([]);
+  const [winners, setWinners] = useState<DrawWinner[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedPrize, setSelectedPrize] = useState('');
+  const [working, setWorking] = useState(false);
+  const [lastPick, setLastPick] = useState<{ lotteryNumber: number; prize: string; winnerName: string } | null>(null);
+  const [verification, setVerification] = useState<{ [drawId: string]: VerificationResult }>({});
+
+  const openDraw = draws.find(d => d.status === 'committed') || null;
+
+  useEffect(() => {
+    fetchData();
+  }, [campaign.id]);
+
+  const fetchWinners = async (): Promise<DrawWinner[]> => {
+    const { data, error } = await supabase
+      .from('lottery_winners')
+      .select('id, lottery_number, prize_category, winner_name, registered_at')
+      .eq('campaign_id', campaign.id)
+      .order('registered_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setLastPick(null);
+
+      const { data: drawsData, error: drawsError } = await supabase
+        .from('draws')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .order('committed_at', { ascending: false });
+
+      if (drawsError) throw drawsError;
+
+      const drawIds = (drawsData || []).map(d => d.id);
+      let picksData: DrawPick[] = [];
+      if (drawIds.length > 0) {
+        const { data, error } = await supabase
+          .from('draw_picks')
+          .select('*')
+          .in('draw_id', drawIds)
+          .order('sequence', { ascending: true });
+
+        if (error) throw error;
+        picksData = data || [];
+      }
+
+      setDraws(drawsData || []);
+      setPicks(picksData);
+      setPrizes(await getPrizeCategories(campaign.id));
+      setWinners(await fetchWinners());
+    } catch (error) {
+      console.error('Error fetching draws:', error);
+      toast.error('Failed to fetch draws');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRemainingQuantity = (prize: PrizeCategory) => {
+    return prize.total_quantity - winners.filter(w => w.prize_category === prize.category_name).length;
+  };
+
+  const handleStartDraw = async () => {
+    if (!window.confirm('Start a new draw? A secret seed is generated now and its hash is published. Ticket sales must not change until the draw is finished.')) return;
+
+    try {
+      setWorking(true);
+      const { error } = await supabase.rpc('start_draw', { p_campaign_id: campaign.id });
+
+      if (error) throw error;
+      toast.success('Draw started. Publish the seed hash before drawing.');
+      fetchData();
+    } catch (error: any) {
+      console.error('Error starting draw:', error);
+      toast.error(`Failed to start draw: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDrawWinner = async () => {
+    if (!openDraw) return;
+
+    const prize = prizes.find(p => p.category_name === selectedPrize);
+    if (!prize) {
+      toast.error('Please select a prize category');
+      return;
+    }
+
+    try {
+      setWorking(true);
+
+      // Picked, registered and recorded in one transaction; the seed stays secret until revealed
+      const result = await drawNextWinner(openDraw.id, prize.category_name);
+      if (!result.success) {
+        toast.error(result.message, { duration: 8000 });
+        return;
+      }
+
+      const lotteryNumber = result.lottery_number!;
+      setLastPick({
+        lotteryNumber,
+        prize: prize.category_name,
+        winnerName: result.winner?.winner_name || '',
+      });
+      toast.success(`${formatLotteryNumber(lotteryNumber)} wins ${prize.category_name}!`);
+
+      const { data: picksData } = await supabase
+        .from('draw_picks')
+        .select('*')
+        .in('draw_id', draws.map(d => d.id))
+        .order('sequence', { ascending: true });
+      setPicks(picksData || []);
+      setWinners(await fetchWinners());
+    } catch (error: any) {
+      console.error('Error drawing winner:', error);
+      toast.error(`Failed to draw winner: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevealSeed = async () => {
+    if (!openDraw) return;
+    if (!window.confirm('Reveal the seed and close this draw? No more picks can be made with it.')) return;
+
+    try {
+      setWorking(true);
+      const { error } = await supabase.rpc('reveal_draw_seed', { p_draw_id: openDraw.id });
+
+      if (error) throw error;
+      toast.success('Seed revealed. The draw can now be verified by anyone.');
+      fetchData();
+    } catch (error: any) {
+      console.error('Error revealing seed:', error);
+      toast.error(`Failed to reveal seed: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Replays every pick from the revealed seed
+  const handleVerify = async (draw: DrawRecord) => {
+    if (!draw.seed) return;
+
+    const messages: string[] = [];
+    let ok = true;
+
+    try {
+      if (await sha256Hex(draw.seed) !== draw.seed_hash) {
+        setVerification(prev => ({ ...prev, [draw.id]: { ok: false, messages: ['Seed does not match the committed hash'] } }));
+        return;
+      }
+      messages.push('Seed matches the committed hash');
+
+      // Draws committed before the pool was stored fall back to the current sales
+      const pool = draw.pool_numbers || (await getSoldTickets(campaign.id)).map(t => t.lottery_number);
+      if (await hashTicketPool(pool) !== draw.pool_hash) {
+        const reason = draw.pool_numbers
+          ? 'The stored ticket pool does not match the committed hash'
+          : 'Ticket sales have changed since the draw, so the picks cannot be replayed';
+        setVerification(prev => ({
+          ...prev,
+          [draw.id]: { ok: false, messages: [...messages, reason] }
+        }));
+        return;
+      }
+      messages.push(`Ticket pool matches (${draw.pool_size.toLocaleString()} tickets)`);
+
+      const allWinners = await fetchWinners();
+      for (const pick of picks.filter(p => p.draw_id === draw.id)) {
+        const pickWinner = allWinners.find(w => w.id === pick.winner_id);
+        if (!pickWinner) {
+          ok = false;
+          messages.push(`Pick #${pick.sequence}: winner entry no longer exists`);
+          continue;
+        }
+
+        // Numbers that had already won when this pick was made
+        const wonBefore = new Set(
+          allWinners.filter(w => w.registered_at < pickWinner.registered_at).map(w => w.lottery_number)
+        );
+        const eligible = pool.filter(n => !wonBefore.has(n));
+        const expected = await pickLotteryNumber(draw.seed, pick.sequence, eligible);
+
+        if (eligible.length !== pick.eligible_count || expected !== pick.lottery_number) {
+          ok = false;
+          messages.push(`Pick #${pick.sequence}: expected ${formatLotteryNumber(expected)} from ${eligible.length} numbers, recorded ${formatLotteryNumber(pick.lottery_number)} from ${pick.eligible_count}`);
+        } else {
+          messages.push(`Pick #${pick.sequence}: ${formatLotteryNumber(pick.lottery_number)} (${pick.prize_category}) verified`);
+        }
+      }
+
+      setVerification(prev => ({ ...prev, [draw.id]: { ok, messages } }));
+    } catch (error) {
+      console.error('Error verifying draw:', error);
+      toast.error('Failed to verify draw');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const openDrawPicks = openDraw ? picks.filter(p => p.draw_id === openDraw.id) : [];
+  const pastDraws = draws.filter(d => d.status === 'revealed');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Draw</h1>
+        <p className="mt-1 text-sm text-secondary-500">
+          Pick winners at random from sold tickets. Every pick can be replayed once the seed is revealed.
+        </p>
+      </div>
+
+      {/* Current Draw */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Dices className="h-5 w-5 mr-2" />
+            Current Draw
+          </h3>
+        </div>
+        <div className="card-content">
+          {!openDraw ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-secondary-600">
+                {isReadOnly ? 'This campaign is closed. Draws can only be held in the active campaign.' : 'No draw is open.'}
+              </p>
+              {canManageDraws && (
+                <button
+                  onClick={handleStartDraw}
+                  disabled={working || prizes.length === 0}
+                  className="btn btn-primary mt-4"
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Start Draw (commit seed)
+                </button>
+              )}
+              {canManageDraws && prizes.length === 0 && (
+                <p className="mt-2 text-xs text-secondary-500">Add prizes for this campaign first</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="bg-primary-50 border border-primary-200 rounded-md p-4">
+                <p className="text-sm font-medium text-primary-900">Published seed hash (SHA-256)</p>
+                <p className="font-mono text-sm text-primary-800 break-all mt-1">{openDraw.seed_hash}</p>
+                <p className="text-xs text-primary-700 mt-2">
+                  Pool: {openDraw.pool_size.toLocaleString()} sold tickets, hash <span className="font-mono break-all">{openDraw.pool_hash}</span>
+                </p>
+                <p className="text-xs text-primary-700 mt-1">
+                  Committed {new Date(openDraw.committed_at).toLocaleString('en-IN')}
+                </p>
+              </div>
+
+              {canDraw && (
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-secondary-700 mb-2">
+                      Prize Category
+                    </label>
+                    <select
+                      value={selectedPrize}
+                      onChange={(e) => setSelectedPrize(e.target.value)}
+                      className="input w-full"
+                    >
+                      <option value="">Select Prize Category</option>
+                      {prizes.map((prize) => {
+                        const remaining = getRemainingQuantity(prize);
+                        return (
+                          <option key={prize.id} value={prize.category_name} disabled={remaining <= 0}>
+                            {prize.category_name} ({remaining} of {prize.total_quantity} left)
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </div>
+                  <button
+                    onClick={handleDrawWinner}
+                    disabled={!selectedPrize || working}
+                    className="btn btn-success"
+                  >
+                    {working ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white inline-block mr-2"></div>
+                        Drawing...
+                      </>
+                    ) : (
+                      <>
+                        <Dices className="h-4 w-4 mr-2" />
+                        Draw Winner
+                      </>
+                    )}
+                  </button>
+                  {canManageDraws && (
+                    <button
+                      onClick={handleRevealSeed}
+                      disabled={working}
+                      className="btn btn-warning"
+                    >
+                      <Unlock className="h-4 w-4 mr-2" />
+                      Reveal Seed & Close
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {lastPick && (
+                <div className="bg-success-50 border border-success-200 rounded-md p-6 text-center">
+                  <Trophy className="h-10 w-10 text-success-600 mx-auto mb-2" />
+                  <p className="text-4xl font-black font-mono text-success-800">{formatLotteryNumber(lastPick.lotteryNumber)}</p>
+                  <p className="mt-2 text-lg font-semibold text-success-900">{lastPick.winnerName}</p>
+                  <p className="text-sm text-success-700">wins {lastPick.prize}</p>
+                </div>
+              )}
+
+              {openDrawPicks.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="table">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="table-header-cell">Pick</th>
+                        <th className="table-header-cell">Prize</th>
+                        <th className="table-header-cell">Lottery Number</th>
+                        <th className="table-header-cell">Winner</th>
+                        <th className="table-header-cell">Eligible</th>
+                        <th className="table-header-cell">Time</th>
+                      </tr>
+                    </thead>
+                    <tbody className="table-body">
+                      {[...openDrawPicks].reverse().map((pick) => (
+                        <tr key={pick.id} className="table-row">
+                          <td className="table-cell">#{pick.sequence}</td>
+                          <td className="table-cell">{pick.prize_category}</td>
+                          <td className="table-cell font-mono font-semibold">{formatLotteryNumber(pick.lottery_number)}</td>
+                          <td className="table-cell">{winners.find(w => w.id === pick.winner_id)?.winner_name || '-'}</td>
+                          <td className="table-cell">{pick.eligible_count.toLocaleString()}</td>
+                          <td className="table-cell">{new Date(pick.picked_at).toLocaleTimeString('en-IN')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Past Draws */}
+      {pastDraws.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+              <ShieldCheck className="h-5 w-5 mr-2" />
+              Revealed Draws ({pastDraws.length})
+            </h3>
+          </div>
+          <div className="card-content space-y-4">
+            {pastDraws.map((draw) => {
+              const result = verification[draw.id];
+              return (
+                <div key={draw.id} className="border border-secondary-200 rounded-md p-4">
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                    <div className="text-sm space-y-1 min-w-0">
+                      <p className="text-secondary-900 font-medium">
+                        {new Date(draw.committed_at).toLocaleString('en-IN')} - {picks.filter(p => p.draw_id === draw.id).length} picks
+                      </p>
+                      <p className="text-secondary-600">Hash: <span className="font-mono break-all">{draw.seed_hash}</span></p>
+                      <p className="text-secondary-600">Seed: <span className="font-mono break-all">{draw.seed}</span></p>
+                    </div>
+                    <button
+                      onClick={() => handleVerify(draw)}
+                      className="btn btn-secondary btn-sm flex-shrink-0"
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Verify
+                    </button>
+                  </div>
+                  {result && (
+                    <div className={`mt-3 rounded-md p-3 text-sm ${result.ok ? 'bg-success-50 text-success-800' : 'bg-danger-50 text-danger-800'}`}>
+                      <p className="font-medium flex items-center">
+                        {result.ok ? <CheckCircle className="h-4 w-4 mr-1" /> : <AlertCircle className="h-4 w-4 mr-1" />}
+                        {result.ok ? 'Draw verified' : 'Verification failed'}
+                      </p>
+                      <ul className="mt-1 space-y-0.5">
+                        {result.messages.map((message, index) => (
+                          <li key={index}>{message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Draw;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { formatLotteryNumber } from '../lib/supabase';
+import {
+  AGEING_BUCKETS,
+  AgeingBucket,
+  IssuerDues,
+  fetchUnpaidAllotments,
+  buildDuesAgeing,
+  sumBuckets,
+  exportDuesAgeingToExcel,
+  exportDuesAgeingToPDF
+} from '../lib/duesAgeing';
+import { useSelectedCampaign } from '../contexts/CampaignContext';
+import {
+  Hourglass,
+  Search,
+  Download,
+  FileSpreadsheet,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Colour per bucket, from fresh to long overdue
+const BUCKET_COLORS: Record<AgeingBucket, string> = {
+  '0-15': 'text-success-700',
+  '15-30': 'text-secondary-900',
+  '30-60': 'text-warning-700',
+  '60+': 'text-danger-700',
+};
+
+// Who owes how much, and for how long: outstanding amounts per issuer bucketed by the days
+// since the diary was allotted, with the diaries behind each issuer's total.
+const DuesAgeing: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const [dues, setDues] = useState<IssuerDues[]>([]);
+  const [asOf, setAsOf] = useState(new Date());
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [bucketFilter, setBucketFilter] = useState<AgeingBucket | ''>('');
+  const [expandedIssuerId, setExpandedIssuerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDues();
+  }, [campaign.id]);
+
+  const fetchDues = async () => {
+    try {
+      setLoading(true);
+      const now = new Date();
+      const allotments = await fetchUnpaidAllotments(campaign.id);
+      setAsOf(now);
+      setDues(buildDuesAgeing(allotments, now));
+    } catch (error) {
+      console.error('Error fetching dues:', error);
+      toast.error('Failed to load outstanding dues');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredDues = dues.filter(row =>
+    (!term ||
+      row.issuer.issuer_name.toLowerCase().includes(term) ||
+      row.issuer.contact_number.includes(term)) &&
+    (!bucketFilter || row.buckets[bucketFilter] > 0)
+  );
+  const totals = sumBuckets(filteredDues);
+  const grandTotal = filteredDues.reduce((sum, row) => sum + row.total, 0);
+
+  const handleExportExcel = () => {
+    exportDuesAgeingToExcel(filteredDues, campaign, asOf);
+    toast.success('Dues ageing exported to Excel');
+  };
+
+  const handleExportPDF = () => {
+    try {
+      exportDuesAgeingToPDF(filteredDues, campaign, asOf);
+      toast.success('Dues ageing exported to PDF');
+    } catch (error: any) {
+      console.error('Error exporting PDF:', error);
+      toast.error(`Failed to export PDF: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Dues Ageing</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Outstanding amounts per issuer by days since allotment, as of {asOf.toLocaleDateString('en-IN')}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={handleExportExcel} disabled={filteredDues.length === 0} className="btn btn-success">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </button>
+          <button onClick={handleExportPDF} disabled={filteredDues.length === 0} className="btn btn-primary">
+            <Download className="h-4 w-4 mr-2" />
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Bucket totals; clicking one filters the issuers */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {AGEING_BUCKETS.map((bucket) => (
+          <button
+            key={bucket.key}
+            onClick={() => setBucketFilter(bucketFilter === bucket.key ? '' : bucket.key)}
+            className={`card p-4 text-left ${bucketFilter === bucket.key ? 'ring-2 ring-primary-500' : ''}`}
+          >
+            <p className="text-sm text-secondary-600">{bucket.label}</p>
+            <p className={`text-2xl font-bold ${BUCKET_COLORS[bucket.key]}`}>₹{totals[bucket.key].toLocaleString()}</p>
+          </button>
+        ))}
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Total Outstanding</p>
+          <p className="text-2xl font-bold text-secondary-900">₹{grandTotal.toLocaleString()}</p>
+          <p className="text-xs text-secondary-500">{filteredDues.length} issuers</p>
+        </div>
+      </div>
+
+      {/* Issuers */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Hourglass className="h-5 w-5 mr-2" />
+            Issuers with Dues ({filteredDues.length})
+          </h3>
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-secondary-400" />
+            <input
+              type="text"
+              placeholder="Search issuers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="input pl-10"
+            />
+          </div>
+        </div>
+        <div className="card-content">
+          {filteredDues.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Issuer</th>
+                    <th className="table-header-cell">Diaries</th>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <th key={bucket.key} className="table-header-cell">{bucket.label}</th>
+                    ))}
+                    <th className="table-header-cell">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {filteredDues.map((row) => {
+                    const expanded = expandedIssuerId === row.issuer.id;
+                    return (
+                      <React.Fragment key={row.issuer.id}>
+                        <tr
+                          className="table-row cursor-pointer"
+                          onClick={() => setExpandedIssuerId(expanded ? null : row.issuer.id)}
+                        >
+                          <td className="table-cell">
+                            <div className="flex items-center">
+                              {expanded ? (
+                                <ChevronDown className="h-4 w-4 mr-1 text-secondary-500" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4 mr-1 text-secondary-500" />
+                              )}
+                              <div>
+                                <div className="font-medium">{row.issuer.issuer_name}</div>
+                                <div className="text-xs text-secondary-500 font-mono">{row.issuer.contact_number}</div>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="table-cell">{row.diaries.length}</td>
+                          {AGEING_BUCKETS.map((bucket) => (
+                            <td key={bucket.key} className={`table-cell ${row.buckets[bucket.key] > 0 ? BUCKET_COLORS[bucket.key] : 'text-secondary-400'}`}>
+                              {row.buckets[bucket.key] > 0 ? `₹${row.buckets[bucket.key].toLocaleString()}` : '-'}
+                            </td>
+                          ))}
+                          <td className="table-cell font-bold">₹{row.total.toLocaleString()}</td>
+                        </tr>
+                        {expanded && (
+                          <tr>
+                            <td colSpan={AGEING_BUCKETS.length + 3} className="bg-secondary-50 px-6 py-3">
+                              <table className="min-w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-secondary-600">
+                                    <th className="py-1 pr-4 font-medium">Diary</th>
+                                    <th className="py-1 pr-4 font-medium">Tickets</th>
+                                    <th className="py-1 pr-4 font-medium">Allotted On</th>
+                                    <th className="py-1 pr-4 font-medium">Days</th>
+                                    <th className="py-1 pr-4 font-medium">Status</th>
+                                    <th className="py-1 pr-4 font-medium">Expected</th>
+                                    <th className="py-1 pr-4 font-medium">Collected</th>
+                                    <th className="py-1 pr-4 font-medium">Outstanding</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {row.diaries.map((due) => (
+                                    <tr key={due.allotment.id} className="border-t border-secondary-200">
+                                      <td className="py-1 pr-4 font-medium">Diary {due.allotment.diary?.diary_number}</td>
+                                      <td className="py-1 pr-4 font-mono">
+                                        {due.allotment.diary
+                                          ? `${formatLotteryNumber(due.allotment.diary.ticket_start_range)}-${formatLotteryNumber(due.allotment.diary.ticket_end_range)}`
+                                          : '-'}
+                                      </td>
+                                      <td className="py-1 pr-4">{new Date(due.allotment.allotment_date).toLocaleDateString('en-IN')}</td>
+                                      <td className={`py-1 pr-4 ${BUCKET_COLORS[due.bucket]}`}>{due.days}</td>
+                                      <td className="py-1 pr-4">{due.allotment.status.replace('_', ' ')}</td>
+                                      <td className="py-1 pr-4">₹{due.expected.toLocaleString()}</td>
+                                      <td className="py-1 pr-4">₹{due.collected.toLocaleString()}</td>
+                                      <td className="py-1 pr-4 font-medium">₹{due.outstanding.toLocaleString()}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Hourglass className="mx-auto h-12 w-12 text-secondary-400" />
+              <h3 className="mt-2 text-sm font-medium text-secondary-900">No outstanding dues</h3>
+              <p className="mt-1 text-sm text-secondary-500">
+                {searchTerm || bucketFilter ? 'No issuers match the filter.' : 'Every allotted diary is paid for.'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuesAgeing;
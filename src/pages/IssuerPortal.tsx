@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Issuer, formatLotteryNumber, getAllotmentExpectedAmount } from '../lib/supabase';
+import { IssuerReport, fetchIssuerReport, exportIssuerReportToExcel, exportIssuerReportToPDF } from '../lib/issuerReport';
+import { useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  BookOpen,
+  Ticket,
+  Wallet,
+  Search,
+  Download,
+  FileSpreadsheet,
+  AlertCircle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Landing page of an issuer login: only the issuer's own diaries, tickets and dues.
+// Row level security limits the queries to the issuer linked in user_roles.
+const IssuerPortal: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { issuerId } = useAuth();
+  const [issuer, setIssuer] = useState<Issuer | null>(null);
+  const [report, setReport] = useState<IssuerReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, [issuerId, campaign.id]);
+
+  const fetchData = async () => {
+    if (!issuerId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data: issuerData, error: issuerError } = await supabase
+        .from('issuers')
+        .select('*')
+        .eq('id', issuerId)
+        .maybeSingle();
+
+      if (issuerError) throw issuerError;
+
+      setIssuer(issuerData);
+      setReport(await fetchIssuerReport(issuerId, campaign.id));
+    } catch (error) {
+      console.error('Error fetching issuer portal data:', error);
+      toast.error('Failed to load your diaries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportExcel = () => {
+    if (!report || !issuer) return;
+
+    exportIssuerReportToExcel(report, issuer);
+    toast.success('Report exported to Excel');
+  };
+
+  const handleExportPDF = () => {
+    if (!report || !issuer) return;
+
+    try {
+      exportIssuerReportToPDF(report, issuer);
+      toast.success('Report exported to PDF successfully');
+    } catch (error: any) {
+      console.error('Error exporting PDF:', error);
+      toast.error(`Failed to export PDF: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!issuerId || !issuer || !report) {
+    return (
+      <div className="card">
+        <div className="card-content text-center py-12">
+          <AlertCircle className="h-12 w-12 text-warning-500 mx-auto mb-4" />
+          <p className="text-lg font-semibold text-secondary-900">No issuer linked</p>
+          <p className="mt-2 text-sm text-secondary-600">
+            Your login is not linked to an issuer yet. Please ask an administrator to link it.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'paid':
+        return <span className="badge badge-success">Paid</span>;
+      case 'fully_sold':
+        return <span className="badge badge-warning">Fully Sold</span>;
+      case 'returned':
+        return <span className="badge badge-secondary">Returned</span>;
+      default:
+        return <span className="badge badge-secondary">Allotted</span>;
+    }
+  };
+
+  const soldByDiary = new Map<string, number>();
+  report.tickets.forEach(ticket => {
+    soldByDiary.set(ticket.diary_id, (soldByDiary.get(ticket.diary_id) || 0) + 1);
+  });
+
+  const heldAllotments = report.allotments.filter(allotment => allotment.status !== 'returned');
+  const totalExpected = report.allotments.reduce((sum, allotment) => sum + getAllotmentExpectedAmount(allotment), 0);
+  const totalCollected = report.allotments.reduce((sum, allotment) => sum + Number(allotment.amount_collected || 0), 0);
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredTickets = report.tickets.filter(ticket =>
+    !term ||
+    formatLotteryNumber(ticket.lottery_number).includes(term) ||
+    ticket.purchaser_name.toLowerCase().includes(term) ||
+    ticket.purchaser_contact.includes(term) ||
+    ticket.diary?.diary_number.toString() === term
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Namaste, {issuer.issuer_name}</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Your diaries, ticket sales and dues for {campaign.campaign_name}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={handleExportExcel} className="btn btn-success">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </button>
+          <button onClick={handleExportPDF} className="btn btn-primary">
+            <Download className="h-4 w-4 mr-2" />
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Diaries Held</p>
+          <p className="text-2xl font-bold text-secondary-900">{heldAllotments.length}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Tickets Sold</p>
+          <p className="text-2xl font-bold text-secondary-900">{report.summary.totalTicketsSold}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Paid to Trust</p>
+          <p className="text-2xl font-bold text-success-600">₹{totalCollected.toLocaleString()}</p>
+          <p className="text-xs text-secondary-500">of ₹{totalExpected.toLocaleString()}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-secondary-600">Outstanding</p>
+          <p className={`text-2xl font-bold ${report.summary.outstandingAmount > 0 ? 'text-warning-600' : 'text-success-600'}`}>
+            ₹{report.summary.outstandingAmount.toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      {/* Allotments */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <BookOpen className="h-5 w-5 mr-2" />
+            My Diaries ({report.allotments.length})
+          </h3>
+        </div>
+        <div className="card-content">
+          {report.allotments.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Diary</th>
+                    <th className="table-header-cell">Tickets</th>
+                    <th className="table-header-cell">Allotted On</th>
+                    <th className="table-header-cell">Sold</th>
+                    <th className="table-header-cell">Expected</th>
+                    <th className="table-header-cell">Paid</th>
+                    <th className="table-header-cell">Outstanding</th>
+                    <th className="table-header-cell">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {report.allotments.map((allotment) => {
+                    const expected = getAllotmentExpectedAmount(allotment);
+                    const collected = Number(allotment.amount_collected || 0);
+                    const outstanding = Math.max(0, expected - collected);
+                    return (
+                      <tr key={allotment.id} className="table-row">
+                        <td className="table-cell font-medium">Diary {allotment.diary?.diary_number}</td>
+                        <td className="table-cell font-mono text-sm">
+                          {allotment.diary
+                            ? `${formatLotteryNumber(allotment.diary.ticket_start_range)}-${formatLotteryNumber(allotment.diary.ticket_end_range)}`
+                            : '-'}
+                        </td>
+                        <td className="table-cell">{new Date(allotment.allotment_date).toLocaleDateString('en-IN')}</td>
+                        <td className="table-cell">
+                          {soldByDiary.get(allotment.diary_id) || 0}/{campaign.tickets_per_diary}
+                        </td>
+                        <td className="table-cell">₹{expected.toLocaleString()}</td>
+                        <td className="table-cell">₹{collected.toLocaleString()}</td>
+                        <td className={`table-cell font-medium ${outstanding > 0 ? 'text-warning-700' : 'text-success-700'}`}>
+                          ₹{outstanding.toLocaleString()}
+                        </td>
+                        <td className="table-cell">{getStatusBadge(allotment.status)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <BookOpen className="mx-auto h-12 w-12 text-secondary-400" />
+              <h3 className="mt-2 text-sm font-medium text-secondary-900">No diaries allotted</h3>
+              <p className="mt-1 text-sm text-secondary-500">
+                No diaries are allotted to you in this campaign.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Tickets */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Ticket className="h-5 w-5 mr-2" />
+            Tickets Entered ({filteredTickets.length})
+          </h3>
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-secondary-400" />
+            <input
+              type="text"
+              placeholder="Search tickets..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="input pl-10"
+            />
+          </div>
+        </div>
+        <div className="card-content">
+          {filteredTickets.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Lottery #</th>
+                    <th className="table-header-cell">Purchaser</th>
+                    <th className="table-header-cell">Contact</th>
+                    <th className="table-header-cell">Diary</th>
+                    <th className="table-header-cell">Date</th>
+                    <th className="table-header-cell">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {filteredTickets.map((ticket) => (
+                    <tr key={ticket.id} className="table-row">
+                      <td className="table-cell font-mono font-medium">{formatLotteryNumber(ticket.lottery_number)}</td>
+                      <td className="table-cell">{ticket.purchaser_name}</td>
+                      <td className="table-cell font-mono">{ticket.purchaser_contact}</td>
+                      <td className="table-cell">
+                        <span className="badge badge-secondary">Diary {ticket.diary?.diary_number}</span>
+                      </td>
+                      <td className="table-cell">{new Date(ticket.purchase_date).toLocaleDateString('en-IN')}</td>
+                      <td className="table-cell font-medium">₹{ticket.amount_paid}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-secondary-500">
+              {searchTerm ? 'No tickets match your search.' : 'No tickets have been entered against your diaries yet.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-secondary-500 flex items-center">
+        <Wallet className="h-4 w-4 mr-1" />
+        Payments are recorded by the trust office. Please contact them if an amount looks wrong.
+      </p>
+    </div>
+  );
+};
+
+export default IssuerPortal;
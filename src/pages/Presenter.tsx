@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, LotteryWinner, PrizeCategory, PresenterState, getPrizeCategories, formatLotteryNumber } from '../lib/supabase';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Megaphone,
+  Eye,
+  Trophy,
+  RotateCcw,
+  ExternalLink,
+  Monitor
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// null clears a column on the public screen's row
+type StageChanges = { [K in keyof PresenterState]?: PresenterState[K] | null };
+
+const Presenter: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { isReadOnly } = useCampaign();
+  const { user } = useAuth();
+  const [prizes, setPrizes] = useState<PrizeCategory[]>([]);
+  const [winners, setWinners] = useState<LotteryWinner[]>([]);
+  const [state, setState] = useState<PresenterState | null>(null);
+  const [selectedPrize, setSelectedPrize] = useState('');
+  const [selectedWinnerId, setSelectedWinnerId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+
+    // Winners registered from the Draw or Search page show up here straight away
+    const channel = supabase
+      .channel('presenter_console_winners')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'lottery_winners',
+          filter: `campaign_id=eq.${campaign.id}`
+        },
+        () => {
+          fetchWinners();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [campaign.id]);
+
+  const fetchWinners = async () => {
+    const { data, error } = await supabase
+      .from('lottery_winners')
+      .select('*')
+      .eq('campaign_id', campaign.id)
+      .order('registered_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching winners:', error);
+      return;
+    }
+    setWinners(data || []);
+  };
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: stateData, error: stateError } = await supabase
+        .from('presenter_state')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .maybeSingle();
+
+      if (stateError) throw stateError;
+
+      setPrizes(await getPrizeCategories(campaign.id));
+      await fetchWinners();
+      setState(stateData);
+      setSelectedPrize(stateData?.prize_category || '');
+      setSelectedWinnerId(stateData?.winner_id || '');
+    } catch (error) {
+      console.error('Error fetching presenter state:', error);
+      toast.error('Failed to load presenter console');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStage = async (changes: StageChanges) => {
+    try {
+      setSaving(true);
+      const { data, error } = await supabase
+        .from('presenter_state')
+        .upsert({
+          campaign_id: campaign.id,
+          stage: state?.stage || 'idle',
+          prize_category: state?.prize_category || null,
+          winner_id: state?.winner_id || null,
+          lottery_number: state?.lottery_number ?? null,
+          revealed_digits: state?.revealed_digits || 0,
+          ...changes,
+          updated_by: user?.id,
+        }, { onConflict: 'campaign_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setState(data);
+    } catch (error: any) {
+      console.error('Error updating presenter state:', error);
+      toast.error(`Failed to update the public screen: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAnnounce = () => {
+    if (!selectedPrize) {
+      toast.error('Please select a prize category');
+      return;
+    }
+    updateStage({
+      stage: 'announce',
+      prize_category: selectedPrize,
+      winner_id: selectedWinnerId || null,
+      lottery_number: null,
+      revealed_digits: 0,
+    });
+  };
+
+  const handleStartReveal = () => {
+    const winner = winners.find(w => w.id === selectedWinnerId);
+    if (!winner) {
+      toast.error('Please select the winner to reveal');
+      return;
+    }
+    updateStage({
+      stage: 'reveal',
+      prize_category: winner.prize_category,
+      winner_id: winner.id,
+      lottery_number: winner.lottery_number,
+      revealed_digits: 0,
+    });
+  };
+
+  const handleRevealDigit = () => {
+    if (!state || state.stage !== 'reveal') return;
+    updateStage({ revealed_digits: Math.min(5, state.revealed_digits + 1) });
+  };
+
+  const handleShowWinner = () => {
+    if (!state?.winner_id) return;
+    updateStage({ stage: 'winner', revealed_digits: 5 });
+  };
+
+  const handleClear = () => {
+    updateStage({
+      stage: 'idle',
+      prize_category: null,
+      winner_id: null,
+      lottery_number: null,
+      revealed_digits: 0,
+    });
+    setSelectedWinnerId('');
+  };
+
+  // Only winners of the selected prize, newest on top
+  const winnerOptions = selectedPrize
+    ? winners.filter(w => w.prize_category === selectedPrize)
+    : winners;
+
+  const stageWinner = winners.find(w => w.id === state?.winner_id);
+  const stage = state?.stage || 'idle';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Presenter Console</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Drive the public winners screen: announce a prize, reveal the number digit by digit, then show the winner
+          </p>
+        </div>
+        <a
+          href={`/public-winners?campaign=${campaign.id}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="btn btn-secondary"
+        >
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open Public Screen
+        </a>
+      </div>
+
+      {isReadOnly ? (
+        <div className="card">
+          <div className="card-content">
+            <p className="text-sm text-secondary-600">
+              This campaign is closed. The presenter console can only be used in the active campaign.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Controls */}
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Megaphone className="h-5 w-5 mr-2" />
+                Controls
+              </h3>
+            </div>
+            <div className="card-content space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 mb-1">
+                  1. Prize
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={selectedPrize}
+                    onChange={(e) => {
+                      setSelectedPrize(e.target.value);
+                      setSelectedWinnerId('');
+                    }}
+                    className="input flex-1"
+                  >
+                    <option value="">Select Prize Category</option>
+                    {prizes.map((prize) => (
+                      <option key={prize.id} value={prize.category_name}>
+                        {prize.category_name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAnnounce}
+                    disabled={!selectedPrize || saving}
+                    className="btn btn-primary"
+                  >
+                    <Megaphone className="h-4 w-4 mr-2" />
+                    Announce
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 mb-1">
+                  2. Winner to reveal
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={selectedWinnerId}
+                    onChange={(e) => setSelectedWinnerId(e.target.value)}
+                    className="input flex-1"
+                  >
+                    <option value="">Select winner (register it on the Draw or Search page)</option>
+                    {winnerOptions.map((winner) => (
+                      <option key={winner.id} value={winner.id}>
+                        {formatLotteryNumber(winner.lottery_number)} - {winner.winner_name} ({winner.prize_category})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleStartReveal}
+                    disabled={!selectedWinnerId || saving}
+                    className="btn btn-warning"
+                  >
+                    Start Reveal
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 mb-1">
+                  3. Reveal
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={handleRevealDigit}
+                    disabled={stage !== 'reveal' || (state?.revealed_digits || 0) >= 5 || saving}
+                    className="btn btn-secondary"
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    Reveal Next Digit ({state?.revealed_digits || 0}/5)
+                  </button>
+                  <button
+                    onClick={handleShowWinner}
+                    disabled={stage !== 'reveal' || saving}
+                    className="btn btn-success"
+                  >
+                    <Trophy className="h-4 w-4 mr-2" />
+                    Show Winner Card
+                  </button>
+                </div>
+              </div>
+
+              <div className="pt-2 border-t border-secondary-200">
+                <button
+                  onClick={handleClear}
+                  disabled={stage === 'idle' || saving}
+                  className="btn btn-secondary"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Clear Stage (show latest winner)
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+                <Monitor className="h-5 w-5 mr-2" />
+                Public Screen Now
+              </h3>
+            </div>
+            <div className="card-content">
+              <div className="bg-secondary-900 rounded-lg p-6 text-center min-h-[200px] flex flex-col items-center justify-center">
+                {stage === 'idle' && (
+                  <p className="text-secondary-300">Showing the latest winner and all prize tables</p>
+                )}
+                {stage === 'announce' && (
+                  <>
+                    <p className="text-warning-300 text-sm font-medium">Now drawing</p>
+                    <p className="text-3xl font-black text-white mt-2">{state?.prize_category}</p>
+                  </>
+                )}
+                {stage === 'reveal' && state?.lottery_number != null && (
+                  <>
+                    <p className="text-warning-300 text-sm font-medium">{state.prize_category}</p>
+                    <div className="flex gap-2 mt-3">
+                      {formatLotteryNumber(state.lottery_number).split('').map((digit, index) => (
+                        <div
+                          key={index}
+                          className={`w-12 h-16 rounded-md flex items-center justify-center font-mono font-black text-3xl ${
+                            index < state.revealed_digits ? 'bg-warning-400 text-secondary-900' : 'bg-secondary-700 text-secondary-400'
+                          }`}
+                        >
+                          {index < state.revealed_digits ? digit : '?'}
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-secondary-400 text-xs mt-3">
+                      Only you can see: {formatLotteryNumber(state.lottery_number)} - {stageWinner?.winner_name}
+                    </p>
+                  </>
+                )}
+                {stage === 'winner' && stageWinner && (
+                  <>
+                    <Trophy className="h-10 w-10 text-warning-400" />
+                    <p className="text-3xl font-black font-mono text-warning-300 mt-2">{formatLotteryNumber(stageWinner.lottery_number)}</p>
+                    <p className="text-xl font-bold text-white mt-1">{stageWinner.winner_name}</p>
+                    <p className="text-secondary-300 text-sm">{stageWinner.prize_category}</p>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Presenter;
@@ -0,0 +1,506 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { supabase, PrizeCategory, PRIZE_IMAGES_BUCKET, getPrizeCategories } from '../lib/supabase';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  Gift,
+  Image as ImageIcon,
+  Copy
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface PrizeFormData {
+  category_name: string;
+  hindi_name: string;
+  total_quantity: number;
+  display_order: number;
+}
+
+const Prizes: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { campaigns, isReadOnly } = useCampaign();
+  const [prizes, setPrizes] = useState<PrizeCategory[]>([]);
+  const [wonCounts, setWonCounts] = useState<{ [prizeName: string]: number }>({});
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPrize, setEditingPrize] = useState<PrizeCategory | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [removeImage, setRemoveImage] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copyFromCampaignId, setCopyFromCampaignId] = useState('');
+
+  const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<PrizeFormData>();
+
+  useEffect(() => {
+    fetchPrizes();
+  }, [campaign.id]);
+
+  const fetchPrizes = async () => {
+    try {
+      setLoading(true);
+
+      const prizesData = await getPrizeCategories(campaign.id);
+
+      const { data: winnersData, error: winnersError } = await supabase
+        .from('lottery_winners')
+        .select('prize_category')
+        .eq('campaign_id', campaign.id);
+
+      if (winnersError) throw winnersError;
+
+      const counts: { [prizeName: string]: number } = {};
+      (winnersData || []).forEach(w => {
+        counts[w.prize_category] = (counts[w.prize_category] || 0) + 1;
+      });
+
+      setPrizes(prizesData);
+      setWonCounts(counts);
+    } catch (error) {
+      console.error('Error fetching prizes:', error);
+      toast.error('Failed to fetch prizes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uploadImage = async (file: File): Promise<string> => {
+    const path = `${campaign.id}/${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+    const { error } = await supabase.storage
+      .from(PRIZE_IMAGES_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (error) throw error;
+
+    const { data } = supabase.storage.from(PRIZE_IMAGES_BUCKET).getPublicUrl(path);
+    return data.publicUrl;
+  };
+
+  const onSubmit = async (data: PrizeFormData) => {
+    try {
+      setSaving(true);
+
+      let imageUrl: string | null = removeImage ? null : editingPrize?.image_url || null;
+      if (imageFile) {
+        imageUrl = await uploadImage(imageFile);
+      }
+
+      const prizeData = {
+        category_name: data.category_name.trim(),
+        hindi_name: data.hindi_name.trim() || null,
+        total_quantity: Number(data.total_quantity),
+        display_order: Number(data.display_order) || 0,
+        image_url: imageUrl,
+      };
+
+      if (editingPrize) {
+        const { error } = await supabase
+          .from('prize_categories')
+          .update(prizeData)
+          .eq('id', editingPrize.id);
+
+        if (error) throw error;
+        toast.success('Prize updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('prize_categories')
+          .insert([{ ...prizeData, campaign_id: campaign.id }]);
+
+        if (error) throw error;
+        toast.success('Prize added successfully');
+      }
+
+      handleCancel();
+      fetchPrizes();
+    } catch (error: any) {
+      console.error('Error saving prize:', error);
+      if (error.code === '23505') {
+        toast.error('A prize with this name already exists in this campaign');
+      } else {
+        toast.error(`Failed to save prize: ${error?.message || 'Unknown error'}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (prize: PrizeCategory) => {
+    setEditingPrize(prize);
+    setValue('category_name', prize.category_name);
+    setValue('hindi_name', prize.hindi_name || '');
+    setValue('total_quantity', prize.total_quantity);
+    setValue('display_order', prize.display_order);
+    setShowForm(true);
+  };
+
+  const handleAdd = () => {
+    const nextOrder = prizes.length > 0 ? Math.max(...prizes.map(p => p.display_order)) + 1 : 1;
+    setValue('display_order', nextOrder);
+    setShowForm(true);
+  };
+
+  const handleCancel = () => {
+    reset();
+    setShowForm(false);
+    setEditingPrize(null);
+    setImageFile(null);
+    setRemoveImage(false);
+  };
+
+  const handleDelete = async (prize: PrizeCategory) => {
+    if (!window.confirm(`Delete the prize "${prize.category_name}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('prize_categories')
+        .delete()
+        .eq('id', prize.id);
+
+      if (error) throw error;
+      toast.success('Prize deleted successfully');
+      fetchPrizes();
+    } catch (error: any) {
+      console.error('Error deleting prize:', error);
+      toast.error(error?.message || 'Failed to delete prize');
+    }
+  };
+
+  const handleCopyPrizes = async () => {
+    const source = campaigns.find(c => c.id === copyFromCampaignId);
+    if (!source) return;
+
+    try {
+      const sourcePrizes = await getPrizeCategories(source.id);
+      if (sourcePrizes.length === 0) {
+        toast.error(`${source.campaign_name} has no prizes to copy`);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('prize_categories')
+        .insert(sourcePrizes.map(p => ({
+          campaign_id: campaign.id,
+          category_name: p.category_name,
+          hindi_name: p.hindi_name || null,
+          total_quantity: p.total_quantity,
+          display_order: p.display_order,
+          image_url: p.image_url || null,
+        })));
+
+      if (error) throw error;
+      toast.success(`Copied ${sourcePrizes.length} prizes from ${source.campaign_name}`);
+      setCopyFromCampaignId('');
+      fetchPrizes();
+    } catch (error: any) {
+      console.error('Error copying prizes:', error);
+      toast.error(`Failed to copy prizes: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  const totalPrizes = prizes.reduce((sum, p) => sum + p.total_quantity, 0);
+  const totalWon = prizes.reduce((sum, p) => sum + (wonCounts[p.category_name] || 0), 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Prizes</h1>
+          <p className="mt-1 text-sm text-secondary-500">
+            Prizes for {campaign.campaign_name}, shown in this order on the Winners and public winners pages
+          </p>
+        </div>
+        {!isReadOnly && (
+          <button
+            onClick={handleAdd}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Prize
+          </button>
+        )}
+      </div>
+
+      {/* Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 bg-secondary-900 bg-opacity-50 transition-opacity" onClick={handleCancel}></div>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-strong transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-secondary-900">
+                      {editingPrize ? 'Edit Prize' : 'Add Prize'}
+                    </h3>
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      className="text-secondary-400 hover:text-secondary-600"
+                    >
+                      <X className="h-6 w-6" />
+                    </button>
+                  </div>
+
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-secondary-700 mb-1">
+                        Prize Name *
+                      </label>
+                      <input
+                        type="text"
+                        {...register('category_name', { required: 'Prize name is required' })}
+                        className="input"
+                        placeholder="e.g., THAR CAR"
+                        readOnly={!!editingPrize && (wonCounts[editingPrize.category_name] || 0) > 0}
+                      />
+                      {editingPrize && (wonCounts[editingPrize.category_name] || 0) > 0 && (
+                        <p className="mt-1 text-xs text-secondary-500">This prize already has winners, so its name cannot be changed</p>
+                      )}
+                      {errors.category_name && (
+                        <p className="mt-1 text-sm text-danger-600">{errors.category_name.message}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-secondary-700 mb-1">
+                        Hindi Name
+                      </label>
+                      <input
+                        type="text"
+                        {...register('hindi_name')}
+                        className="input"
+                        placeholder="e.g., थार कार"
+                      />
+                      <p className="mt-1 text-xs text-secondary-500">Shown on the public winners page</p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                          Quantity *
+                        </label>
+                        <input
+                          type="number"
+                          {...register('total_quantity', {
+                            required: 'Quantity is required',
+                            min: {
+                              value: editingPrize ? Math.max(1, wonCounts[editingPrize.category_name] || 0) : 1,
+                              message: editingPrize && (wonCounts[editingPrize.category_name] || 0) > 0
+                                ? `Already ${wonCounts[editingPrize.category_name]} won`
+                                : 'Must be at least 1'
+                            }
+                          })}
+                          className="input"
+                          placeholder="1"
+                        />
+                        {errors.total_quantity && (
+                          <p className="mt-1 text-sm text-danger-600">{errors.total_quantity.message}</p>
+                        )}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">
+                          Display Order
+                        </label>
+                        <input
+                          type="number"
+                          {...register('display_order')}
+                          className="input"
+                          placeholder="1"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-secondary-700 mb-1">
+                        <ImageIcon className="h-4 w-4 inline mr-1" />
+                        Image
+                      </label>
+                      {editingPrize?.image_url && !removeImage && !imageFile && (
+                        <div className="flex items-center space-x-3 mb-2">
+                          <img
+                            src={editingPrize.image_url}
+                            alt={editingPrize.category_name}
+                            className="h-16 w-16 rounded object-cover border border-secondary-200"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setRemoveImage(true)}
+                            className="btn btn-secondary btn-sm"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      )}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+                        className="block w-full text-sm text-secondary-600"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="bg-secondary-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="btn btn-primary sm:ml-3 sm:w-auto"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saving ? 'Saving...' : editingPrize ? 'Update' : 'Add'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="btn btn-secondary sm:w-auto"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Copy prizes into a new campaign */}
+      {!isReadOnly && prizes.length === 0 && campaigns.length > 1 && (
+        <div className="card">
+          <div className="card-content">
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <p className="text-sm text-secondary-600 flex-1">
+                This campaign has no prizes yet. Add them one by one or copy the list from another campaign.
+              </p>
+              <select
+                value={copyFromCampaignId}
+                onChange={(e) => setCopyFromCampaignId(e.target.value)}
+                className="input md:w-64"
+              >
+                <option value="">Select campaign</option>
+                {campaigns.filter(c => c.id !== campaign.id).map((c) => (
+                  <option key={c.id} value={c.id}>{c.campaign_name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCopyPrizes}
+                disabled={!copyFromCampaignId}
+                className="btn btn-secondary"
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Prizes
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Prizes Table */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Gift className="h-5 w-5 mr-2" />
+            Prizes ({prizes.length} categories, {totalWon}/{totalPrizes} won)
+          </h3>
+        </div>
+        <div className="card-content">
+          {prizes.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell">Order</th>
+                    <th className="table-header-cell">Image</th>
+                    <th className="table-header-cell">Prize</th>
+                    <th className="table-header-cell">Hindi Name</th>
+                    <th className="table-header-cell">Quantity</th>
+                    <th className="table-header-cell">Won</th>
+                    {!isReadOnly && <th className="table-header-cell">Actions</th>}
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {prizes.map((prize) => {
+                    const won = wonCounts[prize.category_name] || 0;
+                    return (
+                      <tr key={prize.id} className="table-row">
+                        <td className="table-cell">{prize.display_order}</td>
+                        <td className="table-cell">
+                          {prize.image_url ? (
+                            <img
+                              src={prize.image_url}
+                              alt={prize.category_name}
+                              className="h-10 w-10 rounded object-cover border border-secondary-200"
+                            />
+                          ) : (
+                            <span className="text-secondary-400">-</span>
+                          )}
+                        </td>
+                        <td className="table-cell font-medium">{prize.category_name}</td>
+                        <td className="table-cell">
+                          {prize.hindi_name || <span className="text-secondary-400">-</span>}
+                        </td>
+                        <td className="table-cell">{prize.total_quantity}</td>
+                        <td className="table-cell">
+                          <span className={`badge ${won >= prize.total_quantity ? 'badge-danger' : won > 0 ? 'badge-warning' : 'badge-secondary'}`}>
+                            {won} / {prize.total_quantity}
+                          </span>
+                        </td>
+                        {!isReadOnly && (
+                          <td className="table-cell">
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleEdit(prize)}
+                                className="text-primary-600 hover:text-primary-800"
+                                title="Edit"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </button>
+                              {won === 0 && (
+                                <button
+                                  onClick={() => handleDelete(prize)}
+                                  className="text-danger-600 hover:text-danger-800"
+                                  title="Delete"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Gift className="mx-auto h-12 w-12 text-secondary-400" />
+              <h3 className="mt-2 text-sm font-medium text-secondary-900">No prizes</h3>
+              <p className="mt-1 text-sm text-secondary-500">
+                Winners cannot be registered until prizes are added for this campaign.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Prizes;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { supabase, LotteryWinner, PRIZE_CATEGORIES, formatLotteryNumber } from '../lib/supabase';
+import { useSearchParams } from 'react-router-dom';
+import { supabase, LotteryWinner, PrizeCategory, PresenterState, getPrizeCategories, getPrizeHindiName, formatLotteryNumber } from '../lib/supabase';
 import { 
   Trophy,
   Award,
@@ -11,10 +12,28 @@ import confetti from 'canvas-confetti';
 
 const PublicWinners: React.FC = () => {
   const [winners, setWinners] = useState<LotteryWinner[]>([]);
+  const [prizes, setPrizes] = useState<PrizeCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastWinner, setLastWinner] = useState<LotteryWinner | null>(null);
+  const [presenter, setPresenter] = useState<PresenterState | null>(null);
+  const presenterRef = useRef<PresenterState | null>(null);
   const previousLastWinnerRef = useRef<string | null>(null);
   const confettiIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const campaignIdRef = useRef<string | null>(null);
+  // Shows the active campaign unless a past one is requested with ?campaign=<id>
+  const [searchParams] = useSearchParams();
+
+  // While the presenter is announcing a prize or revealing a number, the winner being drawn
+  // (and anyone registered since the announcement) stays hidden until the winner card is shown
+  const presenting = !!presenter && (presenter.stage === 'announce' || presenter.stage === 'reveal');
+  const isHiddenWinner = (winner: LotteryWinner) => {
+    if (!presenting || !presenter) return false;
+    return winner.id === presenter.winner_id
+      || (!!presenter.announced_at && winner.registered_at >= presenter.announced_at);
+  };
+  const featuredWinner = presenter?.stage === 'winner'
+    ? winners.find(w => w.id === presenter.winner_id) || lastWinner
+    : presenting ? null : lastWinner;
 
   useEffect(() => {
     // Initial fetch
@@ -39,8 +58,11 @@ const PublicWinners: React.FC = () => {
           console.log('🆕 New winner registered:', payload.new);
           // Force immediate refresh of all data
           await fetchWinners(false);
-          // Trigger fireworks for new winner
-          triggerFireworks();
+          // Trigger fireworks for new winner, unless the presenter is still revealing it
+          const stage = presenterRef.current?.stage;
+          if (stage !== 'announce' && stage !== 'reveal') {
+            triggerFireworks();
+          }
           console.log('✅ Page updated with new winner data');
         }
       )
@@ -72,6 +94,21 @@ const PublicWinners: React.FC = () => {
           console.log('✅ Page updated after winner deletion');
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'presenter_state'
+        },
+        (payload) => {
+          const state = payload.new as PresenterState;
+          if (state?.campaign_id && state.campaign_id === campaignIdRef.current) {
+            console.log('🎤 Presenter stage:', state.stage);
+            setPresenter(state);
+          }
+        }
+      )
       .subscribe((status, err) => {
         if (status === 'SUBSCRIBED') {
           console.log('✅ Real-time subscription ACTIVE - Page will auto-update on database changes');
@@ -110,14 +147,23 @@ const PublicWinners: React.FC = () => {
     };
   }, []);
 
-  // Trigger fireworks when last winner changes
   useEffect(() => {
-    if (lastWinner && lastWinner.id !== previousLastWinnerRef.current) {
-      previousLastWinnerRef.current = lastWinner.id;
+    presenterRef.current = presenter;
+    // Keep the stage quiet while a number is being revealed
+    if (presenting && confettiIntervalRef.current) {
+      clearInterval(confettiIntervalRef.current);
+      confettiIntervalRef.current = null;
+    }
+  }, [presenter]);
+
+  // Trigger fireworks when the featured winner changes (new winner or presenter's winner card)
+  useEffect(() => {
+    if (featuredWinner && featuredWinner.id !== previousLastWinnerRef.current) {
+      previousLastWinnerRef.current = featuredWinner.id;
       triggerFireworks();
       startContinuousFireworks();
     }
-  }, [lastWinner]);
+  }, [featuredWinner?.id]);
 
   const triggerFireworks = () => {
     const duration = 5000;
@@ -192,11 +238,36 @@ const PublicWinners: React.FC = () => {
     }, 3000);
   };
 
+  const resolveCampaignId = async (): Promise<string | null> => {
+    if (campaignIdRef.current) {
+      return campaignIdRef.current;
+    }
+
+    const requestedCampaignId = searchParams.get('campaign');
+    const query = supabase.from('campaigns').select('id');
+    const { data, error } = requestedCampaignId
+      ? await query.eq('id', requestedCampaignId).maybeSingle()
+      : await query.eq('is_active', true).maybeSingle();
+
+    if (error) throw error;
+    campaignIdRef.current = data?.id || null;
+    return campaignIdRef.current;
+  };
+
   const fetchWinners = async (showLoading: boolean = true) => {
     try {
       if (showLoading) {
         setLoading(true);
       }
+
+      const campaignId = await resolveCampaignId();
+      if (!campaignId) {
+        console.warn('No lottery campaign found to display winners for');
+        setWinners([]);
+        setPrizes([]);
+        setLastWinner(null);
+        return;
+      }
       
       // Fetch all winners with pagination
       let allWinners: LotteryWinner[] = [];
@@ -211,6 +282,7 @@ const PublicWinners: React.FC = () => {
             *,
             ticket:ticket_sales(*)
           `)
+          .eq('campaign_id', campaignId)
           .order('registered_at', { ascending: false })
           .range(from, from + pageSize - 1);
 
@@ -225,8 +297,20 @@ const PublicWinners: React.FC = () => {
         }
       }
 
+      const campaignPrizes = await getPrizeCategories(campaignId);
+
+      const { data: presenterState, error: presenterError } = await supabase
+        .from('presenter_state')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .maybeSingle();
+
+      if (presenterError) throw presenterError;
+      setPresenter(presenterState);
+
       // Force state updates - ensure React re-renders with new data
       setWinners([...allWinners]); // Create new array reference to force update
+      setPrizes(campaignPrizes);
       
       // Set last winner - this will trigger the fireworks effect if it's a new winner
       if (allWinners.length > 0) {
@@ -248,49 +332,15 @@ const PublicWinners: React.FC = () => {
   };
 
   const getWinnersByCategory = (category: string) => {
-    return winners.filter(w => w.prize_category === category);
+    return winners.filter(w => w.prize_category === category && !isHiddenWinner(w));
   };
 
-  const getRemainingQuantity = (categoryName: string) => {
-    const category = PRIZE_CATEGORIES.find(p => p.name === categoryName);
-    if (!category) return 0;
-    const used = getWinnersByCategory(categoryName).length;
-    return category.quantity - used;
+  const getRemainingQuantity = (prize: PrizeCategory) => {
+    return prize.total_quantity - getWinnersByCategory(prize.category_name).length;
   };
 
-  // Prize name translation to Hindi
   const getPrizeNameInHindi = (prizeName: string): string => {
-    const translations: { [key: string]: string } = {
-      'THAR CAR': 'थार कार',
-      'SWIFT CAR': 'स्विफ्ट कार',
-      'E-Rickshaw': 'ई-रिक्शा',
-      'Bullet Bike': 'बुलेट बाइक',
-      'HF delux Bike': 'एचएफ डीलक्स बाइक',
-      'Electric Bike': 'इलेक्ट्रिक बाइक',
-      'AC 1Ton': 'एसी 1 टन',
-      'Laptop': 'लैपटॉप',
-      '32 Inch LED TV': '32 इंच एलईडी टीवी',
-      'Fridge': 'फ्रिज',
-      'Washing Machine': 'वाशिंग मशीन',
-      'Sewing Machine': 'सिलाई मशीन',
-      'Sports Cycle': 'स्पोर्ट्स साइकिल',
-      '5G Mobile': '5जी मोबाइल',
-      'Cooler': 'कूलर',
-      'Child EV Bike': 'चाइल्ड ईवी बाइक',
-      'Home Theater': 'होम थिएटर',
-      'Electric Water Heater': 'इलेक्ट्रिक वॉटर हीटर',
-      'Battery Spray Pump': 'बैटरी स्प्रे पंप',
-      'Mixer': 'मिक्सर',
-      'Induction stove': 'इंडक्शन स्टोव',
-      'Ceiling Fan': 'सीलिंग फैन',
-      'Smart Watch': 'स्मार्ट वॉच',
-      'Gas Stove': 'गैस स्टोव',
-      'Helmet': 'हेलमेट',
-      'Silver Coin': 'सिल्वर कॉइन',
-      'Wall Clock': 'वॉल क्लॉक',
-      'Photo Frame': 'फोटो फ्रेम'
-    };
-    return translations[prizeName] || prizeName;
+    return getPrizeHindiName(prizes, prizeName);
   };
 
 
@@ -366,8 +416,56 @@ const PublicWinners: React.FC = () => {
           </div>
         </div>
 
+        {/* Presenter Stage - announce the prize, then reveal the number digit by digit */}
+        {presenting && presenter && (
+          <div className="mb-2 sm:mb-4 relative w-full">
+            <div className="absolute -inset-1 bg-gradient-to-r from-yellow-400 via-red-500 to-yellow-400 rounded-xl blur opacity-75 animate-pulse"></div>
+
+            <div className="relative bg-gradient-to-br from-gray-800 via-gray-900 to-black rounded-lg sm:rounded-xl border-4 border-yellow-400 shadow-[0_0_40px_rgba(250,204,21,0.6)] p-4 sm:p-6 md:p-10 w-full text-center">
+              <p className="text-xl sm:text-2xl md:text-3xl font-black text-yellow-300 tracking-wider mb-4">
+                अब ड्रॉ हो रहा है
+              </p>
+
+              {presenter.prize_category && (
+                <div className="flex flex-col items-center gap-3 mb-6">
+                  {prizes.find(p => p.category_name === presenter.prize_category)?.image_url && (
+                    <img
+                      src={prizes.find(p => p.category_name === presenter.prize_category)?.image_url}
+                      alt={presenter.prize_category}
+                      className="h-32 sm:h-40 md:h-48 rounded-lg object-contain border-4 border-yellow-400 bg-white"
+                    />
+                  )}
+                  <p className="text-4xl sm:text-5xl md:text-7xl font-black text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 via-yellow-200 to-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.9)]">
+                    {getPrizeNameInHindi(presenter.prize_category)}
+                  </p>
+                </div>
+              )}
+
+              {presenter.stage === 'reveal' && presenter.lottery_number != null && (
+                <div className="flex items-center justify-center gap-2 sm:gap-4">
+                  {formatLotteryNumber(presenter.lottery_number).split('').map((digit, index) => {
+                    const revealed = index < presenter.revealed_digits;
+                    return (
+                      <div
+                        key={index}
+                        className={`w-14 h-20 sm:w-20 sm:h-28 md:w-28 md:h-36 rounded-lg border-4 flex items-center justify-center font-mono font-black text-4xl sm:text-6xl md:text-8xl ${
+                          revealed
+                            ? 'bg-gradient-to-br from-yellow-500 to-yellow-600 border-yellow-300 text-yellow-900 shadow-[0_0_30px_rgba(250,204,21,0.8)]'
+                            : 'bg-gray-800 border-gray-600 text-gray-500 animate-pulse'
+                        }`}
+                      >
+                        {revealed ? digit : '?'}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Last Winner - Casino Jackpot Style */}
-        {lastWinner && (
+        {featuredWinner && (
           <div className="mb-2 sm:mb-4 relative w-full">
             {/* Glowing Border Effect */}
             <div className="absolute -inset-1 bg-gradient-to-r from-yellow-400 via-red-500 to-yellow-400 rounded-xl blur opacity-75 animate-pulse"></div>
@@ -391,32 +489,32 @@ const PublicWinners: React.FC = () => {
                 <div className="bg-gradient-to-br from-yellow-500 to-yellow-600 rounded-lg p-2 sm:p-3 md:p-4 border-2 border-yellow-300 shadow-[0_0_20px_rgba(250,204,21,0.5)] transform hover:scale-105 transition-transform">
                   <p className="text-yellow-900 font-black text-sm sm:text-base md:text-lg mb-1 sm:mb-2 tracking-wider">लॉटरी नंबर</p>
                   <p className="text-xl sm:text-2xl md:text-3xl lg:text-4xl font-black text-yellow-900 font-mono tracking-wider">
-                    {formatLotteryNumber(lastWinner.lottery_number)}
+                    {formatLotteryNumber(featuredWinner.lottery_number)}
                   </p>
                 </div>
 
                 {/* Winner Name */}
                 <div className="bg-gradient-to-br from-red-600 to-red-700 rounded-lg p-2 sm:p-3 md:p-4 border-2 border-red-400 shadow-[0_0_20px_rgba(239,68,68,0.5)] transform hover:scale-105 transition-transform">
                   <p className="text-red-50 font-black text-sm sm:text-base md:text-lg mb-1 sm:mb-2 tracking-wider">विजेता का नाम</p>
-                  <p className="text-base sm:text-lg md:text-xl lg:text-2xl font-black text-white break-words">{lastWinner.winner_name.toUpperCase()}</p>
+                  <p className="text-base sm:text-lg md:text-xl lg:text-2xl font-black text-white break-words">{featuredWinner.winner_name.toUpperCase()}</p>
                 </div>
 
                 {/* Prize Won */}
                 <div className="bg-gradient-to-br from-green-600 to-green-700 rounded-lg p-2 sm:p-3 md:p-4 border-2 border-green-400 shadow-[0_0_20px_rgba(34,197,94,0.5)] transform hover:scale-105 transition-transform">
                   <p className="text-green-50 font-black text-sm sm:text-base md:text-lg mb-1 sm:mb-2 tracking-wider">पुरस्कार</p>
-                  <p className="text-base sm:text-lg md:text-xl lg:text-2xl font-black text-white break-words">{getPrizeNameInHindi(lastWinner.prize_category)}</p>
+                  <p className="text-base sm:text-lg md:text-xl lg:text-2xl font-black text-white break-words">{getPrizeNameInHindi(featuredWinner.prize_category)}</p>
                 </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2 sm:gap-3 md:gap-4">
                 <div className="bg-gray-800 rounded-lg p-2 sm:p-3 border-2 border-gray-600">
                   <p className="text-yellow-300 font-black text-sm sm:text-base mb-1 tracking-wider">संपर्क</p>
-                  <p className="font-mono text-white text-xs sm:text-sm md:text-base lg:text-lg break-all">{lastWinner.winner_contact}</p>
+                  <p className="font-mono text-white text-xs sm:text-sm md:text-base lg:text-lg break-all">{featuredWinner.winner_contact}</p>
                 </div>
-                {lastWinner.winner_address && (
+                {featuredWinner.winner_address && (
                   <div className="bg-gray-800 rounded-lg p-2 sm:p-3 border-2 border-gray-600">
                     <p className="text-yellow-300 font-black text-sm sm:text-base mb-1 tracking-wider">पता</p>
-                    <p className="text-white text-xs sm:text-sm md:text-base break-words">{lastWinner.winner_address}</p>
+                    <p className="text-white text-xs sm:text-sm md:text-base break-words">{featuredWinner.winner_address}</p>
                   </div>
                 )}
               </div>
@@ -426,9 +524,9 @@ const PublicWinners: React.FC = () => {
 
         {/* Prize Categories - Casino Table Style */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3 md:gap-4 w-full">
-          {PRIZE_CATEGORIES.map((category, index) => {
-            const categoryWinners = getWinnersByCategory(category.name);
-            const remaining = getRemainingQuantity(category.name);
+          {prizes.map((category, index) => {
+            const categoryWinners = getWinnersByCategory(category.category_name);
+            const remaining = getRemainingQuantity(category);
             const colors = [
               { bgFrom: '#ca8a04', bgTo: '#a16207', border: '#facc15', shadow: 'rgba(250,204,21,0.5)', icon: 'text-yellow-300' },
               { bgFrom: '#dc2626', bgTo: '#b91c1c', border: '#f87171', shadow: 'rgba(239,68,68,0.5)', icon: 'text-red-300' },
@@ -439,7 +537,7 @@ const PublicWinners: React.FC = () => {
             const colorScheme = colors[index % colors.length];
 
             return (
-              <div key={category.name} className="relative group">
+              <div key={category.id} className="relative group">
                 {/* Glow Effect */}
                 <div 
                   className="absolute -inset-0.5 rounded-xl blur opacity-50 group-hover:opacity-75 transition-opacity"
@@ -458,15 +556,24 @@ const PublicWinners: React.FC = () => {
                   {/* Header */}
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-2 sm:mb-3 md:mb-4 pb-2 sm:pb-3 border-b-2 border-gray-700 gap-2 sm:gap-0">
                     <div className="flex items-center gap-1.5 sm:gap-2">
-                      <Award className={`h-5 w-5 sm:h-6 sm:w-6 md:h-7 md:w-7 ${colorScheme.icon}`} />
+                      {category.image_url ? (
+                        <img
+                          src={category.image_url}
+                          alt={category.category_name}
+                          className="h-10 w-10 sm:h-12 sm:w-12 rounded-md object-cover border-2 flex-shrink-0"
+                          style={{ borderColor: colorScheme.border }}
+                        />
+                      ) : (
+                        <Award className={`h-5 w-5 sm:h-6 sm:w-6 md:h-7 md:w-7 ${colorScheme.icon}`} />
+                      )}
                       <h3 className="text-sm sm:text-base md:text-lg font-black text-white tracking-wider break-words">
-                        {getPrizeNameInHindi(category.name)}
+                        {category.hindi_name || category.category_name}
                       </h3>
                     </div>
                     <div className="flex items-center gap-1.5 sm:gap-2 flex-wrap">
                       <div className="bg-yellow-500 px-2 py-1 rounded-full border border-yellow-600">
                         <span className="text-yellow-950 font-black text-xs">
-                          {categoryWinners.length}/{category.quantity} जीते
+                          {categoryWinners.length}/{category.total_quantity} जीते
                         </span>
                       </div>
                       <div className={`px-2 py-1 rounded-full border ${remaining > 0 ? 'bg-green-500 border-green-600' : 'bg-red-500 border-red-600'}`}>
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, AuditLog } from '../lib/supabase';
+import { AUDITED_TABLES, describeAuditRecord, describeAuditUser } from '../lib/audit';
+import AuditChanges from '../components/AuditChanges';
+import {
+  Trash2,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Tables restore_deleted_record can put back
+const RESTORABLE_TABLES = ['ticket_sales', 'diary_allotments', 'issuers', 'lottery_winners'];
+
+const RecentlyDeleted: React.FC = () => {
+  const [deletions, setDeletions] = useState<AuditLog[]>([]);
+  // Record ids that exist again (restored or re-created after the deletion)
+  const [restoredIds, setRestoredIds] = useState<Set<string>>(new Set());
+  const [tableFilter, setTableFilter] = useState('');
+  const [days, setDays] = useState(30);
+  const [showRestored, setShowRestored] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDeletions();
+  }, [tableFilter, days]);
+
+  const fetchDeletions = async () => {
+    try {
+      setLoading(true);
+
+      const since = new Date();
+      since.setDate(since.getDate() - days);
+
+      const { data: deleteLogs, error } = await supabase
+        .from('audit_logs')
+        .select('*')
+        .eq('action', 'DELETE')
+        .in('table_name', tableFilter ? [tableFilter] : RESTORABLE_TABLES)
+        .gte('timestamp', since.toISOString())
+        .order('timestamp', { ascending: false })
+        .limit(500);
+
+      if (error) throw error;
+
+      const recordIds = Array.from(new Set((deleteLogs || []).map(log => log.record_id)));
+      const restored = new Set<string>();
+
+      // A later INSERT of the same id means the record is back
+      for (let i = 0; i < recordIds.length; i += 100) {
+        const { data: insertLogs, error: insertError } = await supabase
+          .from('audit_logs')
+          .select('record_id, timestamp')
+          .eq('action', 'INSERT')
+          .in('record_id', recordIds.slice(i, i + 100));
+
+        if (insertError) throw insertError;
+
+        (insertLogs || []).forEach(insertLog => {
+          const deletedAt = (deleteLogs || [])
+            .filter(log => log.record_id === insertLog.record_id)
+            .map(log => log.timestamp);
+          if (deletedAt.some(timestamp => insertLog.timestamp > timestamp)) {
+            restored.add(insertLog.record_id);
+          }
+        });
+      }
+
+      setDeletions(deleteLogs || []);
+      setRestoredIds(restored);
+    } catch (error) {
+      console.error('Error fetching deleted records:', error);
+      toast.error('Failed to fetch deleted records');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (log: AuditLog) => {
+    if (!window.confirm(`Restore ${describeAuditRecord(log)}?`)) return;
+
+    try {
+      setRestoring(log.id);
+      const { error } = await supabase.rpc('restore_deleted_record', { p_audit_log_id: log.id });
+
+      if (error) throw error;
+      toast.success(`${describeAuditRecord(log)} restored`);
+      fetchDeletions();
+    } catch (error: any) {
+      console.error('Error restoring record:', error);
+      toast.error(`Failed to restore: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const visibleDeletions = showRestored
+    ? deletions
+    : deletions.filter(log => !restoredIds.has(log.record_id));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Recently Deleted</h1>
+        <p className="mt-1 text-sm text-secondary-500">
+          Restore deleted tickets, allotments, issuers and winners with their original IDs
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="card">
+        <div className="card-content">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <select
+              value={tableFilter}
+              onChange={(e) => setTableFilter(e.target.value)}
+              className="input md:w-56"
+            >
+              <option value="">All types</option>
+              {RESTORABLE_TABLES.map((table) => (
+                <option key={table} value={table}>{AUDITED_TABLES[table]}</option>
+              ))}
+            </select>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="input md:w-48"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={30}>Last 30 days</option>
+              <option value={90}>Last 90 days</option>
+              <option value={365}>Last year</option>
+            </select>
+            <label className="flex items-center text-sm text-secondary-700">
+              <input
+                type="checkbox"
+                checked={showRestored}
+                onChange={(e) => setShowRestored(e.target.checked)}
+                className="mr-2"
+              />
+              Show restored
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Deleted Records */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <Trash2 className="h-5 w-5 mr-2" />
+            Deleted Records ({visibleDeletions.length})
+          </h3>
+        </div>
+        <div className="card-content">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : visibleDeletions.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="table-header-cell"></th>
+                    <th className="table-header-cell">Deleted</th>
+                    <th className="table-header-cell">Record</th>
+                    <th className="table-header-cell">Deleted By</th>
+                    <th className="table-header-cell">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="table-body">
+                  {visibleDeletions.map((log) => {
+                    const isRestored = restoredIds.has(log.record_id);
+                    return (
+                      <React.Fragment key={log.id}>
+                        <tr className="table-row">
+                          <td className="table-cell">
+                            <button
+                              onClick={() => setExpanded(expanded === log.id ? null : log.id)}
+                              className="text-secondary-500 hover:text-secondary-700"
+                              title="Show deleted values"
+                            >
+                              {expanded === log.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </button>
+                          </td>
+                          <td className="table-cell whitespace-nowrap">{new Date(log.timestamp).toLocaleString('en-IN')}</td>
+                          <td className="table-cell">
+                            <div className="font-medium">{describeAuditRecord(log)}</div>
+                            <div className="text-xs text-secondary-500">{AUDITED_TABLES[log.table_name]}</div>
+                          </td>
+                          <td className="table-cell text-sm">{describeAuditUser(log)}</td>
+                          <td className="table-cell">
+                            {isRestored ? (
+                              <span className="badge badge-success">Restored</span>
+                            ) : (
+                              <button
+                                onClick={() => handleRestore(log)}
+                                disabled={restoring === log.id}
+                                className="btn btn-secondary btn-sm"
+                              >
+                                <ArchiveRestore className="h-4 w-4 mr-1" />
+                                {restoring === log.id ? 'Restoring...' : 'Restore'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded === log.id && (
+                          <tr>
+                            <td></td>
+                            <td colSpan={4} className="px-6 pb-4">
+                              <div className="bg-secondary-50 rounded-md p-3 overflow-x-auto">
+                                <AuditChanges log={log} />
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Trash2 className="mx-auto h-12 w-12 text-secondary-400" />
+              <h3 className="mt-2 text-sm font-medium text-secondary-900">Nothing deleted</h3>
+              <p className="mt-1 text-sm text-secondary-500">No deletions in this period.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecentlyDeleted;
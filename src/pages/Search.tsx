@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { supabase, TicketSale, DiaryAllotment, Issuer, Diary, formatLotteryNumber, parseLotteryNumber, getDiaryFromLotteryNumber, LotteryWinner, PRIZE_CATEGORIES } from '../lib/supabase';
+import { Link } from 'react-router-dom';
+import { supabase, TicketSale, DiaryAllotment, Issuer, Diary, formatLotteryNumber, parseLotteryNumber, isValidLotteryNumber, registerWinner, getPrizeCategories, LotteryWinner, PrizeCategory, getAllotmentExpectedAmount } from '../lib/supabase';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
 import { 
   Search as SearchIcon, 
   Filter, 
@@ -33,6 +35,8 @@ interface SearchFilters {
 }
 
 const Search: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { isReadOnly } = useCampaign();
   const [filters, setFilters] = useState<SearchFilters>({
     lottery_number: '',
     purchaser_name: '',
@@ -59,6 +63,7 @@ const Search: React.FC = () => {
   const [registeringWinner, setRegisteringWinner] = useState<string | null>(null);
   const [selectedPrize, setSelectedPrize] = useState<{ [key: string]: string }>({});
   const [existingWinners, setExistingWinners] = useState<Set<number>>(new Set());
+  const [prizes, setPrizes] = useState<PrizeCategory[]>([]);
 
   const handleFilterChange = (key: keyof SearchFilters, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
@@ -75,7 +80,8 @@ const Search: React.FC = () => {
           *,
           issuer:issuers(*),
           diary:diaries(*)
-        `);
+        `)
+        .eq('campaign_id', campaign.id);
 
       let allotmentQuery = supabase
         .from('diary_allotments')
@@ -83,7 +89,8 @@ const Search: React.FC = () => {
           *,
           diary:diaries(*),
           issuer:issuers(*)
-        `);
+        `)
+        .eq('campaign_id', campaign.id);
 
       // Apply filters
       if (filters.lottery_number) {
@@ -126,6 +133,7 @@ const Search: React.FC = () => {
         const { data: diary, error: diaryError } = await supabase
           .from('diaries')
           .select('id')
+          .eq('campaign_id', campaign.id)
           .eq('diary_number', diaryNumber)
           .single();
         
@@ -149,6 +157,7 @@ const Search: React.FC = () => {
         const { data: diaries, error: diaryError } = await supabase
           .from('diaries')
           .select('id')
+          .eq('campaign_id', campaign.id)
           .eq('ticket_start_range', firstTicketNumber);
         
         if (diaryError) throw diaryError;
@@ -241,8 +250,8 @@ const Search: React.FC = () => {
       }
 
       // Validate range
-      if (lotteryNumber < 1 || lotteryNumber > 39999) {
-        toast.error('Lottery number must be between 00001 and 39999');
+      if (!isValidLotteryNumber(lotteryNumber, campaign)) {
+        toast.error(`Lottery number must be between 00001 and ${formatLotteryNumber(campaign.total_tickets)}`);
         return;
       }
 
@@ -254,6 +263,7 @@ const Search: React.FC = () => {
           issuer:issuers(*),
           diary:diaries(*)
         `)
+        .eq('campaign_id', campaign.id)
         .eq('lottery_number', lotteryNumber);
 
       if (error) throw error;
@@ -274,13 +284,14 @@ const Search: React.FC = () => {
     }
   };
 
-  // Fetch existing winners on component mount
+  // Fetch existing winners and the campaign's prizes on component mount
   useEffect(() => {
     const fetchExistingWinners = async () => {
       try {
         const { data, error } = await supabase
           .from('lottery_winners')
-          .select('lottery_number');
+          .select('lottery_number')
+          .eq('campaign_id', campaign.id);
         
         if (error) throw error;
         
@@ -292,37 +303,25 @@ const Search: React.FC = () => {
       }
     };
     
+    const fetchPrizes = async () => {
+      try {
+        setPrizes(await getPrizeCategories(campaign.id));
+      } catch (error) {
+        console.error('Error fetching prize categories:', error);
+      }
+    };
+    
     fetchExistingWinners();
-  }, []);
+    fetchPrizes();
+  }, [campaign.id]);
 
   const checkIfAlreadyWon = (lotteryNumber: number): boolean => {
     return existingWinners.has(lotteryNumber);
   };
 
-  const getPrizeQuantity = (prizeName: string): number => {
-    const prize = PRIZE_CATEGORIES.find(p => p.name === prizeName);
-    return prize ? prize.quantity : 0;
-  };
-
-  const getRemainingQuantity = async (prizeName: string): Promise<number> => {
-    try {
-      const { data, error } = await supabase
-        .from('lottery_winners')
-        .select('id')
-        .eq('prize_category', prizeName);
-      
-      if (error) throw error;
-      
-      const totalQuantity = getPrizeQuantity(prizeName);
-      const usedQuantity = data?.length || 0;
-      return totalQuantity - usedQuantity;
-    } catch (error) {
-      console.error('Error getting remaining quantity:', error);
-      return 0;
-    }
-  };
-
-  const registerWinner = async (ticket: TicketSale) => {
+  // Registration happens in the register_winner database function, which locks the prize
+  // category so two operators cannot both take the last prize
+  const handleRegisterWinner = async (ticket: TicketSale) => {
     const lotteryNumber = ticket.lottery_number;
     const selectedPrizeCategory = selectedPrize[ticket.id];
 
@@ -331,7 +330,7 @@ const Search: React.FC = () => {
       return;
     }
 
-    // Check if already won
+    // Quick check against the winners already loaded; the database checks again
     if (checkIfAlreadyWon(lotteryNumber)) {
       toast.error(`Lottery number ${formatLotteryNumber(lotteryNumber)} has already won a prize!`, {
         duration: 5000
@@ -339,59 +338,15 @@ const Search: React.FC = () => {
       return;
     }
 
-    // Check remaining quantity
-    const remaining = await getRemainingQuantity(selectedPrizeCategory);
-    if (remaining <= 0) {
-      toast.error(`No ${selectedPrizeCategory} prizes remaining!`);
-      return;
-    }
-
-    // Validate ticket data before registration
-    if (!ticket.purchaser_name || ticket.purchaser_name.trim().length === 0) {
-      toast.error('Ticket purchaser name is missing or empty. Cannot register winner.');
-      return;
-    }
-
-    if (!ticket.purchaser_contact || ticket.purchaser_contact.trim().length === 0) {
-      toast.error('Ticket purchaser contact is missing or empty. Cannot register winner.');
-      return;
-    }
-
     try {
       setRegisteringWinner(ticket.id);
 
-      const prizeQuantity = getPrizeQuantity(selectedPrizeCategory);
-      const diaryNumber = ticket.diary ? getDiaryFromLotteryNumber(lotteryNumber) : undefined;
-
-      const { data, error } = await supabase
-        .from('lottery_winners')
-        .insert([{
-          lottery_number: lotteryNumber,
-          ticket_sale_id: ticket.id,
-          prize_category: selectedPrizeCategory.trim(),
-          prize_quantity: prizeQuantity,
-          winner_name: ticket.purchaser_name.trim(),
-          winner_contact: ticket.purchaser_contact.trim(),
-          winner_address: ticket.purchaser_address?.trim() || null,
-          diary_number: diaryNumber
-        }])
-        .select()
-        .single();
+      const result = await registerWinner(ticket.id, selectedPrizeCategory);
 
-      if (error) {
-        if (error.code === '23505') { // Unique constraint violation
-          toast.error(`Lottery number ${formatLotteryNumber(lotteryNumber)} has already won a prize!`, {
-            duration: 5000
-          });
-          // Refresh existing winners
-          const { data: winners } = await supabase
-            .from('lottery_winners')
-            .select('lottery_number');
-          if (winners) {
-            setExistingWinners(new Set(winners.map(w => w.lottery_number)));
-          }
-        } else {
-          throw error;
+      if (!result.success) {
+        toast.error(result.message, { duration: 5000 });
+        if (result.error_code === 'ALREADY_WON') {
+          setExistingWinners(prev => new Set(prev).add(lotteryNumber));
         }
         return;
       }
@@ -406,7 +361,7 @@ const Search: React.FC = () => {
         return newState;
       });
 
-      toast.success(`Winner registered! ${ticket.purchaser_name} won ${selectedPrizeCategory}`);
+      toast.success(`Winner registered! ${ticket.purchaser_name} won ${selectedPrizeCategory} (${result.remaining} remaining)`);
     } catch (error: any) {
       console.error('Error registering winner:', error);
       toast.error(`Failed to register winner: ${error.message || 'Unknown error'}`);
@@ -569,7 +524,7 @@ const Search: React.FC = () => {
                   value={filters.lottery_number}
                   onChange={(e) => handleFilterChange('lottery_number', e.target.value)}
                   className="input"
-                  placeholder="Enter lottery number (00001-39999)"
+                  placeholder={`Enter lottery number (00001-${formatLotteryNumber(campaign.total_tickets)})`}
                   maxLength={5}
                 />
               </div>
@@ -758,7 +713,14 @@ const Search: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             <div className="bg-white rounded-lg p-4 shadow-sm">
               <h4 className="font-semibold text-secondary-900 mb-2">Purchaser Details</h4>
-              <p className="text-sm text-secondary-700"><strong>Name:</strong> {searchResults.tickets[0].purchaser_name}</p>
+              <p className="text-sm text-secondary-700">
+                <strong>Name:</strong>{' '}
+                {searchResults.tickets[0].devotee_id ? (
+                  <Link to={`/devotees/${searchResults.tickets[0].devotee_id}`} className="text-primary-600 hover:text-primary-800">
+                    {searchResults.tickets[0].purchaser_name}
+                  </Link>
+                ) : searchResults.tickets[0].purchaser_name}
+              </p>
               <p className="text-sm text-secondary-700"><strong>Contact:</strong> {searchResults.tickets[0].purchaser_contact}</p>
               {searchResults.tickets[0].purchaser_address && (
                 <p className="text-sm text-secondary-700"><strong>Address:</strong> {searchResults.tickets[0].purchaser_address}</p>
@@ -794,6 +756,10 @@ const Search: React.FC = () => {
                   </div>
                 </div>
               </div>
+            ) : isReadOnly ? (
+              <p className="text-sm text-secondary-600">
+                This campaign is closed. Winners can only be registered in the active campaign.
+              </p>
             ) : (
               <div className="flex items-center space-x-4">
                 <div className="flex-1">
@@ -809,16 +775,16 @@ const Search: React.FC = () => {
                     className="input w-full"
                   >
                     <option value="">Select Prize Category</option>
-                    {PRIZE_CATEGORIES.map((prize) => (
-                      <option key={prize.name} value={prize.name}>
-                        {prize.name} (Total: {prize.quantity})
+                    {prizes.map((prize) => (
+                      <option key={prize.id} value={prize.category_name}>
+                        {prize.category_name} (Total: {prize.total_quantity})
                       </option>
                     ))}
                   </select>
                 </div>
                 <div className="pt-6">
                   <button
-                    onClick={() => registerWinner(searchResults.tickets[0])}
+                    onClick={() => handleRegisterWinner(searchResults.tickets[0])}
                     disabled={!selectedPrize[searchResults.tickets[0].id] || registeringWinner === searchResults.tickets[0].id}
                     className="btn btn-success"
                   >
@@ -893,7 +859,17 @@ const Search: React.FC = () => {
                         </td>
                         <td className="table-cell">
                           <div>
-                            <div className="font-medium">{ticket.purchaser_name}</div>
+                            <div className="font-medium">
+                              {ticket.devotee_id ? (
+                                <Link
+                                  to={`/devotees/${ticket.devotee_id}`}
+                                  className="text-primary-600 hover:text-primary-800"
+                                  title="Open devotee profile"
+                                >
+                                  {ticket.purchaser_name}
+                                </Link>
+                              ) : ticket.purchaser_name}
+                            </div>
                             {ticket.purchaser_address && (
                               <div className="text-sm text-secondary-500 truncate max-w-xs">
                                 {ticket.purchaser_address}
@@ -918,6 +894,8 @@ const Search: React.FC = () => {
                               <Trophy className="h-3 w-3 inline mr-1" />
                               Already Won
                             </span>
+                          ) : isReadOnly ? (
+                            <span className="text-secondary-400">-</span>
                           ) : (
                             <div className="flex items-center space-x-2">
                               <select
@@ -930,14 +908,14 @@ const Search: React.FC = () => {
                                 style={{ minWidth: '150px' }}
                               >
                                 <option value="">Select Prize</option>
-                                {PRIZE_CATEGORIES.map((prize) => (
-                                  <option key={prize.name} value={prize.name}>
-                                    {prize.name} ({prize.quantity})
+                                {prizes.map((prize) => (
+                                  <option key={prize.id} value={prize.category_name}>
+                                    {prize.category_name} ({prize.total_quantity})
                                   </option>
                                 ))}
                               </select>
                               <button
-                                onClick={() => registerWinner(ticket)}
+                                onClick={() => handleRegisterWinner(ticket)}
                                 disabled={!selectedPrize[ticket.id] || registeringWinner === ticket.id}
                                 className="btn btn-success btn-sm"
                                 title="Register as Winner"
@@ -1008,7 +986,7 @@ const Search: React.FC = () => {
                           </div>
                         </td>
                         <td className="table-cell font-medium">₹{allotment.amount_collected.toLocaleString()}</td>
-                        <td className="table-cell">₹{allotment.diary?.expected_amount.toLocaleString()}</td>
+                        <td className="table-cell">₹{getAllotmentExpectedAmount(allotment).toLocaleString()}</td>
                       </tr>
                     ))}
                   </tbody>
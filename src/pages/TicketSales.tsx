@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
-import { supabase, TicketSale, Issuer, Diary, getDiaryFromLotteryNumber, validateLotteryNumberForDiary, formatLotteryNumber, parseLotteryNumber, getFormattedTicketRangeForDiary } from '../lib/supabase';
+import { Link } from 'react-router-dom';
+import { supabase, TicketSale, Issuer, Diary, Devotee, PAN_PATTERN, normalizePhone, getDiaryFromLotteryNumber, validateLotteryNumberForDiary, formatLotteryNumber, parseLotteryNumber, getFormattedTicketRangeForDiary, isValidLotteryNumber, getTotalDiaries } from '../lib/supabase';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
 import { 
   Plus, 
   Edit, 
@@ -14,15 +17,22 @@ import {
   User,
   Phone,
   MapPin,
-  BookOpen
+  BookOpen,
+  History,
+  Upload,
+  Receipt
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import TicketImport from '../components/TicketImport';
+import DiaryEntryGrid from '../components/DiaryEntryGrid';
+import { downloadTicketReceipt, formatReceiptNumber } from '../lib/receipts';
 
 interface TicketFormData {
   lottery_number: number;
   purchaser_name: string;
   purchaser_contact: string;
   purchaser_address: string;
+  donor_pan: string;
   issuer_id: string;
   diary_id: string;
   purchase_date: string;
@@ -30,11 +40,19 @@ interface TicketFormData {
 }
 
 const TicketSales: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { isReadOnly } = useCampaign();
+  const { hasRole } = useAuth();
+  // Clerks add and edit; only admins delete, and past campaigns are read-only
+  const canEdit = !isReadOnly && hasRole('admin', 'clerk');
+  const canDelete = !isReadOnly && hasRole('admin');
   const [tickets, setTickets] = useState<TicketSale[]>([]);
   const [issuers, setIssuers] = useState<Issuer[]>([]);
   const [diaries, setDiaries] = useState<Diary[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showDiaryEntry, setShowDiaryEntry] = useState(false);
   const [editingTicket, setEditingTicket] = useState<TicketSale | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [autoFillData, setAutoFillData] = useState<{ issuer?: Issuer; diary?: Diary } | null>(null);
@@ -44,6 +62,13 @@ const TicketSales: React.FC = () => {
   const [showDiarySuggestions, setShowDiarySuggestions] = useState(false);
   const [filteredDiaries, setFilteredDiaries] = useState<Diary[]>([]);
   const [selectedDiary, setSelectedDiary] = useState<Diary | null>(null);
+
+  // Devotee lookup by phone
+  const [devoteeSuggestions, setDevoteeSuggestions] = useState<Devotee[]>([]);
+  const [showDevoteeSuggestions, setShowDevoteeSuggestions] = useState(false);
+  const [selectedDevotee, setSelectedDevotee] = useState<Devotee | null>(null);
+  // Contact number (digits) the devotee was linked with
+  const [devoteePhone, setDevoteePhone] = useState('');
   
   // Ticket number search states
   const [ticketSearchNumber, setTicketSearchNumber] = useState('');
@@ -53,15 +78,16 @@ const TicketSales: React.FC = () => {
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<TicketFormData>();
 
   const watchedLotteryNumber = watch('lottery_number');
+  const watchedContact = watch('purchaser_contact');
 
   useEffect(() => {
     fetchData();
-  }, []);
+  }, [campaign.id]);
 
   useEffect(() => {
     if (watchedLotteryNumber && watchedLotteryNumber.toString().length === 5) {
       const lotteryNum = parseLotteryNumber(watchedLotteryNumber.toString());
-      if (lotteryNum >= 1 && lotteryNum <= 39999) {
+      if (isValidLotteryNumber(lotteryNum, campaign)) {
         handleLotteryNumberChange(lotteryNum);
       }
     } else if (!watchedLotteryNumber) {
@@ -70,6 +96,52 @@ const TicketSales: React.FC = () => {
     }
   }, [watchedLotteryNumber]);
 
+  // Look devotees up by phone while the contact number is typed
+  useEffect(() => {
+    const digits = normalizePhone(watchedContact || '');
+
+    // A different number means a different devotee
+    if (selectedDevotee && devoteePhone !== digits) {
+      setSelectedDevotee(null);
+    }
+
+    if (digits.length < 4 || (selectedDevotee && devoteePhone === digits)) {
+      setDevoteeSuggestions([]);
+      setShowDevoteeSuggestions(false);
+      return;
+    }
+
+    const timer = setTimeout(() => searchDevotees(digits), 300);
+    return () => clearTimeout(timer);
+  }, [watchedContact]);
+
+  const searchDevotees = async (digits: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('devotees')
+        .select('*')
+        .ilike('phone', `%${digits}%`)
+        .order('full_name')
+        .limit(8);
+
+      if (error) throw error;
+      setDevoteeSuggestions(data || []);
+      setShowDevoteeSuggestions((data || []).length > 0);
+    } catch (error) {
+      console.error('Error searching devotees:', error);
+    }
+  };
+
+  const handleDevoteeSelect = (devotee: Devotee) => {
+    setSelectedDevotee(devotee);
+    setDevoteePhone(normalizePhone(devotee.phone || watchedContact || ''));
+    setShowDevoteeSuggestions(false);
+    setValue('purchaser_name', devotee.full_name);
+    if (devotee.phone) setValue('purchaser_contact', devotee.phone);
+    if (devotee.address) setValue('purchaser_address', devotee.address);
+    if (devotee.pan) setValue('donor_pan', devotee.pan);
+  };
+
   // Handle diary search with server-side search for better performance
   useEffect(() => {
     if (diarySearchTerm.trim() === '') {
@@ -110,6 +182,7 @@ const TicketSales: React.FC = () => {
       const { data: diaryData, error } = await supabase
         .from('diaries')
         .select('*')
+        .eq('campaign_id', campaign.id)
         .eq('diary_number', diaryNumber)
         .single();
 
@@ -144,8 +217,10 @@ const TicketSales: React.FC = () => {
         .select(`
           *,
           issuer:issuers(*),
-          diary:diaries(*)
+          diary:diaries(*),
+          devotee:devotees(*)
         `)
+        .eq('campaign_id', campaign.id)
         .order('created_at', { ascending: false });
 
       if (ticketsError) throw ticketsError;
@@ -158,13 +233,12 @@ const TicketSales: React.FC = () => {
 
       if (issuersError) throw issuersError;
 
-      // Fetch diaries - use range queries to get all 1819 diaries
+      // Fetch diaries of the active campaign (numbers above 1000 are looked up server-side)
       const { data: diariesData, error: diariesError } = await supabase
         .from('diaries')
         .select('*')
-        .order('diary_number')
-        .gte('diary_number', 1)
-        .lte('diary_number', 1819);
+        .eq('campaign_id', campaign.id)
+        .order('diary_number');
 
       if (diariesError) throw diariesError;
 
@@ -181,7 +255,7 @@ const TicketSales: React.FC = () => {
 
   const handleLotteryNumberChange = async (lotteryNumber: number) => {
     try {
-      const diaryNumber = getDiaryFromLotteryNumber(lotteryNumber);
+      const diaryNumber = getDiaryFromLotteryNumber(lotteryNumber, campaign);
       
       // For diary numbers > 1000, use server-side search for better performance
       let diary;
@@ -189,6 +263,7 @@ const TicketSales: React.FC = () => {
         const { data: diaryData, error: diaryError } = await supabase
           .from('diaries')
           .select('*')
+          .eq('campaign_id', campaign.id)
           .eq('diary_number', diaryNumber)
           .single();
         
@@ -219,7 +294,7 @@ const TicketSales: React.FC = () => {
           
           // Still auto-fill diary and amount even if not allotted
           setValue('diary_id', diary.id, { shouldValidate: true });
-          setValue('amount_paid', 500, { shouldValidate: true });
+          setValue('amount_paid', campaign.ticket_price, { shouldValidate: true });
           setValue('purchase_date', new Date().toISOString().split('T')[0], { shouldValidate: true });
           
           // Update diary input display
@@ -244,7 +319,7 @@ const TicketSales: React.FC = () => {
           // Auto-fill form fields
           setValue('diary_id', diary.id, { shouldValidate: true });
           setValue('issuer_id', allotmentData.issuer.id, { shouldValidate: true });
-          setValue('amount_paid', 500, { shouldValidate: true });
+          setValue('amount_paid', campaign.ticket_price, { shouldValidate: true });
           setValue('purchase_date', new Date().toISOString().split('T')[0], { shouldValidate: true });
           
           // Update diary input display
@@ -275,11 +350,12 @@ const TicketSales: React.FC = () => {
     try {
       // Convert lottery number string to number
       const lotteryNumber = parseLotteryNumber(data.lottery_number as any);
+      const donorPan = data.donor_pan?.trim().toUpperCase() || null;
       
       // Validate lottery number range for diary
       if (data.diary_id) {
         const diary = diaries.find(d => d.id === data.diary_id);
-        if (diary && !validateLotteryNumberForDiary(lotteryNumber, diary.diary_number)) {
+        if (diary && !validateLotteryNumberForDiary(lotteryNumber, diary.diary_number, campaign)) {
           toast.error(`Lottery number ${data.lottery_number} is not valid for diary ${diary.diary_number}`);
           return;
         }
@@ -294,6 +370,9 @@ const TicketSales: React.FC = () => {
             purchaser_name: data.purchaser_name,
             purchaser_contact: data.purchaser_contact,
             purchaser_address: data.purchaser_address,
+            donor_pan: donorPan,
+            // Without a devotee the database links the ticket by phone and name
+            devotee_id: selectedDevotee?.id || null,
             issuer_id: data.issuer_id,
             diary_id: data.diary_id,
             purchase_date: data.purchase_date,
@@ -309,7 +388,10 @@ const TicketSales: React.FC = () => {
           .from('ticket_sales')
           .insert([{
             ...data,
-            lottery_number: lotteryNumber
+            lottery_number: lotteryNumber,
+            donor_pan: donorPan,
+            devotee_id: selectedDevotee?.id || null,
+            campaign_id: campaign.id
           }]);
 
         if (error) throw error;
@@ -320,23 +402,27 @@ const TicketSales: React.FC = () => {
       setShowForm(false);
       setEditingTicket(null);
       setAutoFillData(null);
+      setSelectedDevotee(null);
       fetchData();
     } catch (error: any) {
       console.error('Error saving ticket:', error);
       if (error.code === '23505') {
         toast.error('Lottery number already exists');
       } else {
-        toast.error('Failed to save ticket');
+        toast.error(`Failed to save ticket: ${error?.message || 'Unknown error'}`);
       }
     }
   };
 
   const handleEdit = (ticket: TicketSale) => {
     setEditingTicket(ticket);
+    setSelectedDevotee(ticket.devotee || null);
+    setDevoteePhone(normalizePhone(ticket.purchaser_contact));
     setValue('lottery_number', ticket.lottery_number);
     setValue('purchaser_name', ticket.purchaser_name);
     setValue('purchaser_contact', ticket.purchaser_contact);
     setValue('purchaser_address', ticket.purchaser_address || '');
+    setValue('donor_pan', ticket.donor_pan || '');
     setValue('issuer_id', ticket.issuer_id);
     setValue('diary_id', ticket.diary_id);
     setValue('purchase_date', ticket.purchase_date);
@@ -363,9 +449,9 @@ const TicketSales: React.FC = () => {
       if (error) throw error;
       toast.success('Ticket deleted successfully');
       fetchData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error deleting ticket:', error);
-      toast.error('Failed to delete ticket');
+      toast.error(`Failed to delete ticket: ${error?.message || 'Unknown error'}`);
     }
   };
 
@@ -377,6 +463,8 @@ const TicketSales: React.FC = () => {
     setDiarySearchTerm('');
     setSelectedDiary(null);
     setShowDiarySuggestions(false);
+    setSelectedDevotee(null);
+    setShowDevoteeSuggestions(false);
   };
 
   // Diary selection handlers
@@ -421,8 +509,8 @@ const TicketSales: React.FC = () => {
       // Parse the lottery number
       const lotteryNum = parseLotteryNumber(ticketSearchNumber.trim());
       
-      if (lotteryNum < 1 || lotteryNum > 39999) {
-        toast.error('Lottery number must be between 00001 and 39999');
+      if (!isValidLotteryNumber(lotteryNum, campaign)) {
+        toast.error(`Lottery number must be between 00001 and ${formatLotteryNumber(campaign.total_tickets)}`);
         setSearching(false);
         return;
       }
@@ -435,6 +523,7 @@ const TicketSales: React.FC = () => {
           issuer:issuers(*),
           diary:diaries(*)
         `)
+        .eq('campaign_id', campaign.id)
         .eq('lottery_number', lotteryNum)
         .single();
 
@@ -465,6 +554,10 @@ const TicketSales: React.FC = () => {
     ticket.issuer?.issuer_name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Archived issuers are only listed when the ticket being edited already belongs to them
+  const selectedIssuerId = watch('issuer_id');
+  const issuerOptions = issuers.filter(issuer => !issuer.is_archived || issuer.id === selectedIssuerId);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -483,13 +576,31 @@ const TicketSales: React.FC = () => {
             Manage lottery ticket sales and purchaser information
           </p>
         </div>
-        <button
-          onClick={() => setShowForm(true)}
-          className="btn btn-primary"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Ticket
-        </button>
+        {canEdit && (
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setShowImport(true)}
+              className="btn btn-secondary"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </button>
+            <button
+              onClick={() => setShowDiaryEntry(true)}
+              className="btn btn-secondary"
+            >
+              <BookOpen className="h-4 w-4 mr-2" />
+              Enter Diary
+            </button>
+            <button
+              onClick={() => setShowForm(true)}
+              className="btn btn-primary"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Ticket
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Search */}
@@ -562,13 +673,24 @@ const TicketSales: React.FC = () => {
                 <h4 className="text-md font-semibold text-secondary-900">
                   Ticket Details - {formatLotteryNumber(searchedTicket.lottery_number)}
                 </h4>
-                <button
-                  onClick={() => handleEdit(searchedTicket)}
-                  className="btn btn-primary btn-sm"
-                >
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Ticket
-                </button>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => downloadTicketReceipt(searchedTicket, campaign)}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    <Receipt className="h-4 w-4 mr-2" />
+                    Receipt {formatReceiptNumber(searchedTicket.receipt_number)}
+                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleEdit(searchedTicket)}
+                      className="btn btn-primary btn-sm"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit Ticket
+                    </button>
+                  )}
+                </div>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
@@ -585,6 +707,12 @@ const TicketSales: React.FC = () => {
                     <p className="font-medium text-secondary-900">{searchedTicket.purchaser_address}</p>
                   </div>
                 )}
+                {searchedTicket.donor_pan && (
+                  <div>
+                    <p className="text-sm text-secondary-600">PAN</p>
+                    <p className="font-medium text-secondary-900 font-mono">{searchedTicket.donor_pan}</p>
+                  </div>
+                )}
                 <div>
                   <p className="text-sm text-secondary-600">Issuer</p>
                   <p className="font-medium text-secondary-900">{searchedTicket.issuer?.issuer_name || 'N/A'}</p>
@@ -611,6 +739,24 @@ const TicketSales: React.FC = () => {
         </div>
       </div>
 
+      {/* Import Modal */}
+      {showImport && (
+        <TicketImport
+          issuers={issuers}
+          onClose={() => setShowImport(false)}
+          onImported={fetchData}
+        />
+      )}
+
+      {/* Diary Entry Modal */}
+      {showDiaryEntry && (
+        <DiaryEntryGrid
+          issuers={issuers}
+          onClose={() => setShowDiaryEntry(false)}
+          onSaved={fetchData}
+        />
+      )}
+
       {/* Form Modal */}
       {showForm && (
         <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -645,17 +791,17 @@ const TicketSales: React.FC = () => {
                           required: 'Lottery number is required',
                           pattern: {
                             value: /^[0-9]{5}$/,
-                            message: 'Lottery number must be 5 digits (00001-39999)'
+                            message: `Lottery number must be 5 digits (00001-${formatLotteryNumber(campaign.total_tickets)})`
                           },
                           validate: (value: number) => {
-                            if (value < 1 || value > 39999) {
-                              return 'Lottery number must be between 00001 and 39999';
+                            if (!isValidLotteryNumber(Number(value), campaign)) {
+                              return `Lottery number must be between 00001 and ${formatLotteryNumber(campaign.total_tickets)}`;
                             }
                             return true;
                           }
                         })}
                         className="input"
-                        placeholder="Enter lottery number (00001-39999)"
+                        placeholder={`Enter lottery number (00001-${formatLotteryNumber(campaign.total_tickets)})`}
                         maxLength={5}
                       />
                       {errors.lottery_number && (
@@ -686,7 +832,7 @@ const TicketSales: React.FC = () => {
                             </p>
                           )}
                           <p className="text-sm text-primary-700">
-                            <strong>Amount:</strong> ₹500.00 (can be changed)
+                            <strong>Amount:</strong> ₹{campaign.ticket_price.toFixed(2)} (can be changed)
                           </p>
                         </div>
                       </div>
@@ -715,15 +861,52 @@ const TicketSales: React.FC = () => {
                         <Phone className="h-4 w-4 inline mr-1" />
                         Contact Number *
                       </label>
-                      <input
-                        type="tel"
-                        {...register('purchaser_contact', { required: 'Contact number is required' })}
-                        className="input"
-                        placeholder="Enter contact number"
-                      />
+                      <div className="relative">
+                        <input
+                          type="tel"
+                          {...register('purchaser_contact', {
+                            required: 'Contact number is required',
+                            onBlur: () => setTimeout(() => setShowDevoteeSuggestions(false), 200)
+                          })}
+                          onFocus={() => setShowDevoteeSuggestions(devoteeSuggestions.length > 0)}
+                          className="input"
+                          placeholder="Enter contact number"
+                          autoComplete="off"
+                        />
+                        {showDevoteeSuggestions && devoteeSuggestions.length > 0 && (
+                          <div className="absolute z-50 w-full mt-1 bg-white border border-secondary-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
+                            {devoteeSuggestions.map((devotee) => (
+                              <div
+                                key={devotee.id}
+                                onClick={() => handleDevoteeSelect(devotee)}
+                                className="px-4 py-2 hover:bg-secondary-50 cursor-pointer border-b border-secondary-100 last:border-b-0"
+                              >
+                                <div className="font-medium text-secondary-900">{devotee.full_name}</div>
+                                <div className="text-sm text-secondary-500">
+                                  <span className="font-mono">{devotee.phone}</span>
+                                  {devotee.address && ` | ${devotee.address}`}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                       {errors.purchaser_contact && (
                         <p className="mt-1 text-sm text-danger-600">{errors.purchaser_contact.message}</p>
                       )}
+                      {selectedDevotee && (
+                        <p className="mt-1 text-sm text-success-600 flex items-center">
+                          ✓ Devotee: {selectedDevotee.full_name}
+                          <button
+                            type="button"
+                            onClick={() => setSelectedDevotee(null)}
+                            className="ml-2 text-secondary-400 hover:text-secondary-600"
+                            title="Do not link to this devotee"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </p>
+                      )}
                     </div>
 
                     {/* Address */}
@@ -740,6 +923,26 @@ const TicketSales: React.FC = () => {
                       />
                     </div>
 
+                    {/* Donor PAN */}
+                    <div>
+                      <label className="block text-sm font-medium text-secondary-700 mb-1">
+                        PAN (for 80G certificate)
+                      </label>
+                      <input
+                        type="text"
+                        {...register('donor_pan', {
+                          setValueAs: (value: string) => value?.trim().toUpperCase(),
+                          validate: (value) => !value || PAN_PATTERN.test(value) || 'Enter a valid PAN, e.g. ABCDE1234F'
+                        })}
+                        className="input font-mono uppercase"
+                        placeholder="Optional"
+                        maxLength={10}
+                      />
+                      {errors.donor_pan && (
+                        <p className="mt-1 text-sm text-danger-600">{errors.donor_pan.message}</p>
+                      )}
+                    </div>
+
                     {/* Issuer */}
                     <div>
                       <label className="block text-sm font-medium text-secondary-700 mb-1">
@@ -750,7 +953,7 @@ const TicketSales: React.FC = () => {
                         className="input"
                       >
                         <option value="">Select issuer</option>
-                        {issuers.map(issuer => (
+                        {issuerOptions.map(issuer => (
                           <option key={issuer.id} value={issuer.id}>
                             {issuer.issuer_name} ({issuer.contact_number})
                           </option>
@@ -775,7 +978,7 @@ const TicketSales: React.FC = () => {
                           onFocus={handleDiaryInputFocus}
                           onBlur={handleDiaryInputBlur}
                           className="input"
-                          placeholder="Enter diary number (e.g., 1, 500, 1819)"
+                          placeholder={`Enter diary number (1-${getTotalDiaries(campaign)})`}
                         />
                         {showDiarySuggestions && filteredDiaries.length > 0 && (
                           <div className="absolute z-50 w-full mt-1 bg-white border border-secondary-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
@@ -840,7 +1043,7 @@ const TicketSales: React.FC = () => {
                           min: { value: 0, message: 'Amount must be positive' }
                         })}
                         className="input"
-                        placeholder="500.00"
+                        placeholder={campaign.ticket_price.toFixed(2)}
                       />
                       {errors.amount_paid && (
                         <p className="mt-1 text-sm text-danger-600">{errors.amount_paid.message}</p>
@@ -923,17 +1126,37 @@ const TicketSales: React.FC = () => {
                     <td className="table-cell">
                       <div className="flex items-center space-x-2">
                         <button
-                          onClick={() => handleEdit(ticket)}
-                          className="text-primary-600 hover:text-primary-800"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(ticket.id)}
-                          className="text-danger-600 hover:text-danger-800"
+                          onClick={() => downloadTicketReceipt(ticket, campaign)}
+                          className="text-success-600 hover:text-success-800"
+                          title={`Receipt ${formatReceiptNumber(ticket.receipt_number)}`}
                         >
-                          <Trash2 className="h-4 w-4" />
+                          <Receipt className="h-4 w-4" />
                         </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => handleEdit(ticket)}
+                            className="text-primary-600 hover:text-primary-800"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(ticket.id)}
+                            className="text-danger-600 hover:text-danger-800"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                        {hasRole('admin') && (
+                          <Link
+                            to={`/audit?table=ticket_sales&record=${ticket.id}`}
+                            className="text-secondary-600 hover:text-secondary-800"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Link>
+                        )}
                       </div>
                     </td>
                   </tr>
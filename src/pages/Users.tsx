@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, UserRole, AppRole, Issuer } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Users as UsersIcon, Trash2, Info } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const ROLE_DESCRIPTIONS: { [key in AppRole]: string } = {
+  admin: 'Full access, including deletes, campaigns and user roles',
+  clerk: 'Add and edit tickets, allotments, issuers and winners',
+  issuer: 'Issuer portal: own allotments, ticket sales and outstanding amount only',
+  viewer: 'Dashboard totals only',
+};
+
+const Users: React.FC = () => {
+  const { user } = useAuth();
+  const [userRoles, setUserRoles] = useState<UserRole[]>([]);
+  const [issuers, setIssuers] = useState<Issuer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: rolesData, error: rolesError } = await supabase
+        .from('user_roles')
+        .select(`
+          *,
+          issuer:issuers(*)
+        `)
+        .order('email');
+
+      if (rolesError) throw rolesError;
+
+      const { data: issuersData, error: issuersError } = await supabase
+        .from('issuers')
+        .select('*')
+        .order('issuer_name');
+
+      if (issuersError) throw issuersError;
+
+      setUserRoles(rolesData || []);
+      setIssuers(issuersData || []);
+    } catch (error) {
+      console.error('Error fetching user roles:', error);
+      toast.error('Failed to fetch users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUserRole = async (userRole: UserRole, role: AppRole, issuerId: string | null) => {
+    if (role === 'issuer' && !issuerId) {
+      // Wait until an issuer is picked; the issuer role needs a linked issuer
+      setUserRoles(prev => prev.map(u => u.user_id === userRole.user_id ? { ...u, role } : u));
+      return;
+    }
+
+    try {
+      setSavingUserId(userRole.user_id);
+      const { error } = await supabase
+        .from('user_roles')
+        .update({
+          role,
+          issuer_id: role === 'issuer' ? issuerId : null,
+        })
+        .eq('user_id', userRole.user_id);
+
+      if (error) throw error;
+      toast.success(`${userRole.email} is now ${role === 'issuer' ? 'an issuer' : `a ${role}`}`);
+      fetchData();
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error('Failed to update role');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const handleRemoveAccess = async (userRole: UserRole) => {
+    if (!window.confirm(`Remove all access for ${userRole.email}? They will not be able to use the app until given a role again.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('user_roles')
+        .update({ role: null, issuer_id: null })
+        .eq('user_id', userRole.user_id);
+
+      if (error) throw error;
+      toast.success('Access removed');
+      fetchData();
+    } catch (error) {
+      console.error('Error removing access:', error);
+      toast.error('Failed to remove access');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Users & Roles</h1>
+        <p className="mt-1 text-sm text-secondary-500">
+          Control what each login can see and change
+        </p>
+      </div>
+
+      <div className="bg-primary-50 border border-primary-200 rounded-md p-4 text-sm text-primary-800 flex">
+        <Info className="h-5 w-5 mr-2 flex-shrink-0" />
+        <div>
+          <p>Logins are created in the Supabase Dashboard (Authentication &gt; Users) and appear here without a role until you give them one.</p>
+          <ul className="mt-2 space-y-1">
+            {(Object.keys(ROLE_DESCRIPTIONS) as AppRole[]).map((role) => (
+              <li key={role}><strong className="capitalize">{role}:</strong> {ROLE_DESCRIPTIONS[role]}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-secondary-900 flex items-center">
+            <UsersIcon className="h-5 w-5 mr-2" />
+            Users ({userRoles.length})
+          </h3>
+        </div>
+        <div className="card-content">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead className="table-header">
+                <tr>
+                  <th className="table-header-cell">Email</th>
+                  <th className="table-header-cell">Role</th>
+                  <th className="table-header-cell">Linked Issuer</th>
+                  <th className="table-header-cell">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="table-body">
+                {userRoles.map((userRole) => {
+                  const isSelf = userRole.user_id === user?.id;
+                  return (
+                    <tr key={userRole.user_id} className="table-row">
+                      <td className="table-cell font-medium">
+                        {userRole.email}
+                        {isSelf && <span className="ml-2 badge badge-secondary">You</span>}
+                      </td>
+                      <td className="table-cell">
+                        <select
+                          value={userRole.role || ''}
+                          onChange={(e) => updateUserRole(userRole, e.target.value as AppRole, userRole.issuer_id || null)}
+                          disabled={isSelf || savingUserId === userRole.user_id}
+                          className="text-sm border border-secondary-300 rounded px-2 py-1 bg-white"
+                          title={isSelf ? 'You cannot change your own role' : undefined}
+                        >
+                          {!userRole.role && <option value="" disabled>No access</option>}
+                          <option value="admin">Admin</option>
+                          <option value="clerk">Clerk</option>
+                          <option value="issuer">Issuer</option>
+                          <option value="viewer">Viewer</option>
+                        </select>
+                      </td>
+                      <td className="table-cell">
+                        {userRole.role === 'issuer' ? (
+                          <select
+                            value={userRole.issuer_id || ''}
+                            onChange={(e) => updateUserRole(userRole, 'issuer', e.target.value || null)}
+                            disabled={savingUserId === userRole.user_id}
+                            className="text-sm border border-secondary-300 rounded px-2 py-1 bg-white"
+                          >
+                            <option value="">Select issuer</option>
+                            {issuers
+                              .filter((issuer) => !issuer.is_archived || issuer.id === userRole.issuer_id)
+                              .map((issuer) => (
+                                <option key={issuer.id} value={issuer.id}>
+                                  {issuer.issuer_name} ({issuer.contact_number})
+                                </option>
+                              ))}
+                          </select>
+                        ) : (
+                          <span className="text-secondary-400">-</span>
+                        )}
+                      </td>
+                      <td className="table-cell">
+                        {!isSelf && userRole.role && (
+                          <button
+                            onClick={() => handleRemoveAccess(userRole)}
+                            className="text-danger-600 hover:text-danger-800"
+                            title="Remove access"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Users;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { supabase, LotteryWinner, PRIZE_CATEGORIES, formatLotteryNumber } from '../lib/supabase';
+import { Link } from 'react-router-dom';
+import { supabase, LotteryWinner, PrizeCategory, getPrizeCategories, formatLotteryNumber } from '../lib/supabase';
 import { 
   Trophy,
   Award,
@@ -14,12 +15,22 @@ import {
   User,
   Phone,
   MapPin,
-  Ticket
+  Ticket,
+  History
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { useCampaign, useSelectedCampaign } from '../contexts/CampaignContext';
+import { useAuth } from '../contexts/AuthContext';
 
 const Winners: React.FC = () => {
+  const campaign = useSelectedCampaign();
+  const { isReadOnly } = useCampaign();
+  const { hasRole } = useAuth();
+  // Clerks can correct winner details; only admins can delete a winner
+  const canEdit = !isReadOnly && hasRole('admin', 'clerk');
+  const canDelete = !isReadOnly && hasRole('admin');
   const [winners, setWinners] = useState<LotteryWinner[]>([]);
+  const [prizes, setPrizes] = useState<PrizeCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -29,7 +40,7 @@ const Winners: React.FC = () => {
 
   useEffect(() => {
     fetchWinners();
-  }, []);
+  }, [campaign.id]);
 
   const fetchWinners = async () => {
     try {
@@ -48,6 +59,7 @@ const Winners: React.FC = () => {
             *,
             ticket:ticket_sales(*)
           `)
+          .eq('campaign_id', campaign.id)
           .order('registered_at', { ascending: false })
           .range(from, from + pageSize - 1);
 
@@ -63,11 +75,10 @@ const Winners: React.FC = () => {
       }
 
       setWinners(allWinners);
+      setPrizes(await getPrizeCategories(campaign.id));
       
       // Set last winner
-      if (allWinners.length > 0) {
-        setLastWinner(allWinners[0]);
-      }
+      setLastWinner(allWinners.length > 0 ? allWinners[0] : null);
     } catch (error) {
       console.error('Error fetching winners:', error);
       toast.error('Failed to fetch winners');
@@ -119,11 +130,14 @@ const Winners: React.FC = () => {
       return;
     }
 
+    const prize = prizes.find(p => p.category_name === updatedData.prize_category);
+
     try {
       const { error } = await supabase
         .from('lottery_winners')
         .update({
           prize_category: updatedData.prize_category.trim(),
+          prize_quantity: prize?.total_quantity ?? editingWinner.prize_quantity,
           winner_name: updatedData.winner_name.trim(),
           winner_contact: updatedData.winner_contact.trim(),
           winner_address: updatedData.winner_address?.trim() || null,
@@ -156,11 +170,8 @@ const Winners: React.FC = () => {
     return winners.filter(w => w.prize_category === category);
   };
 
-  const getRemainingQuantity = (categoryName: string) => {
-    const category = PRIZE_CATEGORIES.find(p => p.name === categoryName);
-    if (!category) return 0;
-    const used = getWinnersByCategory(categoryName).length;
-    return category.quantity - used;
+  const getRemainingQuantity = (prize: PrizeCategory) => {
+    return prize.total_quantity - getWinnersByCategory(prize.category_name).length;
   };
 
   const filteredWinners = winners.filter(winner => {
@@ -266,14 +277,11 @@ const Winners: React.FC = () => {
                 className="input"
               >
                 <option value="all">All Categories</option>
-                {PRIZE_CATEGORIES.map((prize) => {
-                  const remaining = getRemainingQuantity(prize.name);
-                  return (
-                    <option key={prize.name} value={prize.name}>
-                      {prize.name} ({getWinnersByCategory(prize.name).length}/{prize.quantity})
-                    </option>
-                  );
-                })}
+                {prizes.map((prize) => (
+                  <option key={prize.id} value={prize.category_name}>
+                    {prize.category_name} ({getWinnersByCategory(prize.category_name).length}/{prize.total_quantity})
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -282,24 +290,24 @@ const Winners: React.FC = () => {
 
       {/* Winners by Category */}
       <div className="space-y-6">
-        {PRIZE_CATEGORIES.map((category) => {
-          const categoryWinners = getWinnersByCategory(category.name);
-          const remaining = getRemainingQuantity(category.name);
+        {prizes.map((category) => {
+          const categoryWinners = getWinnersByCategory(category.category_name);
+          const remaining = getRemainingQuantity(category);
           
-          if (selectedCategory !== 'all' && selectedCategory !== category.name) {
+          if (selectedCategory !== 'all' && selectedCategory !== category.category_name) {
             return null;
           }
 
           return (
-            <div key={category.name} className="card">
+            <div key={category.id} className="card">
               <div className="card-header">
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-medium text-secondary-900">
-                    {category.name}
+                    {category.category_name}
                   </h3>
                   <div className="flex items-center space-x-2">
                     <span className="badge badge-secondary">
-                      {categoryWinners.length} / {category.quantity} Won
+                      {categoryWinners.length} / {category.total_quantity} Won
                     </span>
                     <span className={`badge ${remaining > 0 ? 'badge-success' : 'badge-danger'}`}>
                       {remaining} Remaining
@@ -346,20 +354,33 @@ const Winners: React.FC = () => {
                               </td>
                               <td className="table-cell">
                                 <div className="flex items-center space-x-2">
-                                  <button
-                                    onClick={() => handleEdit(winner)}
-                                    className="text-primary-600 hover:text-primary-800"
-                                    title="Edit"
-                                  >
-                                    <Edit className="h-4 w-4" />
-                                  </button>
-                                  <button
-                                    onClick={() => handleDelete(winner.id)}
-                                    className="text-danger-600 hover:text-danger-800"
-                                    title="Delete"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </button>
+                                  {canEdit && (
+                                    <button
+                                      onClick={() => handleEdit(winner)}
+                                      className="text-primary-600 hover:text-primary-800"
+                                      title="Edit"
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                  {canDelete && (
+                                    <button
+                                      onClick={() => handleDelete(winner.id)}
+                                      className="text-danger-600 hover:text-danger-800"
+                                      title="Delete"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                  {hasRole('admin') && (
+                                    <Link
+                                      to={`/audit?table=lottery_winners&record=${winner.id}`}
+                                      className="text-secondary-600 hover:text-secondary-800"
+                                      title="History"
+                                    >
+                                      <History className="h-4 w-4" />
+                                    </Link>
+                                  )}
                                 </div>
                               </td>
                             </tr>
@@ -418,9 +439,9 @@ const Winners: React.FC = () => {
                       onChange={(e) => setEditingWinner({ ...editingWinner, prize_category: e.target.value })}
                       className="input"
                     >
-                      {PRIZE_CATEGORIES.map((prize) => (
-                        <option key={prize.name} value={prize.name}>
-                          {prize.name}
+                      {prizes.map((prize) => (
+                        <option key={prize.id} value={prize.category_name}>
+                          {prize.category_name}
                         </option>
                       ))}
                     </select>
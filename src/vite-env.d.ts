@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_TRUST_PAN?: string
+  readonly VITE_TRUST_80G_REGISTRATION?: string
 }
 
 interface ImportMeta {